@@ -35,8 +35,26 @@ describe('RecallDesktopClient (smoke tests)', () => {
       uploadRecording: track('uploadRecording'),
       prepareDesktopAudioRecording: jest.fn().mockResolvedValue({ success: true, message: 'ok', data: { windowId: 'wd-1' } }),
       requestPermission: track('requestPermission'),
+      getPermissionStatus: jest.fn().mockResolvedValue({ success: true, message: 'ok', data: { microphone: 'granted' } }),
       setConfig: track('setConfig'),
       getConfig: jest.fn().mockResolvedValue({ success: true, message: 'ok', data: { apiUrl: 'x', enabled: true, requestPermissionsOnStartup: true } }),
+      resetConfig: jest.fn().mockResolvedValue({ success: true, message: 'ok', data: { apiUrl: 'https://us-east-1.recall.ai', enabled: true, requestPermissionsOnStartup: true } }),
+      getRecordings: jest.fn().mockResolvedValue({ success: true, message: 'ok', data: [{ windowId: 'win-1', state: 'recording', window: { id: 'win-1' }, updatedAt: 1 }] }),
+      getRecording: track('getRecording'),
+      getRecordingHistory: track('getRecordingHistory'),
+      respondToQuit: track('respondToQuit'),
+      getTranscript: track('getTranscript'),
+      exportTranscript: track('exportTranscript'),
+      getParticipants: track('getParticipants'),
+      getMeetingAnalytics: track('getMeetingAnalytics'),
+      setTranscriptRule: track('setTranscriptRule'),
+      removeTranscriptRule: track('removeTranscriptRule'),
+      setUploadTokenRequest: track('setUploadTokenRequest'),
+      getDetectedMeetings: jest.fn().mockResolvedValue({ success: true, message: 'ok', data: [{ id: 'win-1', platform: 'zoom' }] }),
+      getLogs: track('getLogs'),
+      exportDiagnostics: track('exportDiagnostics'),
+      dumpAXTree: track('dumpAXTree'),
+      dumpAllApplications: track('dumpAllApplications'),
       addEventListener: jest.fn().mockImplementation((_type: string, _cb: (d: any) => void) => {
         // Return unsubscribe
         return () => void 0;
@@ -80,12 +98,58 @@ describe('RecallDesktopClient (smoke tests)', () => {
     await client.requestPermission('full-disk-access' as PermissionType);
     expect(calls.requestPermission).toEqual(['full-disk-access']);
 
+    const permissions = await client.getPermissionStatus();
+    expect(permissions.data).toEqual({ microphone: 'granted' });
+
     await client.setConfig({ apiUrl: 'https://us-east-1.recall.ai' });
     expect(calls.setConfig).toEqual([{ apiUrl: 'https://us-east-1.recall.ai' }]);
 
     const cfg = await client.getConfig();
     expect(cfg.success).toBe(true);
 
+    const reset = await client.resetConfig();
+    expect(reset.data?.apiUrl).toBe('https://us-east-1.recall.ai');
+
+    const recordings = await client.getRecordings();
+    expect(recordings.data?.[0].state).toBe('recording');
+
+    await client.getRecording('win-1');
+    expect(calls.getRecording).toEqual(['win-1']);
+    await client.getRecordingHistory({ platform: 'zoom', limit: 10 });
+    expect(calls.getRecordingHistory).toEqual([{ platform: 'zoom', limit: 10 }]);
+    await client.getTranscript('win-1');
+    expect(calls.getTranscript).toEqual(['win-1']);
+    await client.exportTranscript('win-1', 'vtt');
+    expect(calls.exportTranscript).toEqual(['win-1', 'vtt']);
+    await client.getParticipants('win-1');
+    expect(calls.getParticipants).toEqual(['win-1']);
+    await client.getMeetingAnalytics('win-1');
+    expect(calls.getMeetingAnalytics).toEqual(['win-1']);
+    await client.setTranscriptRule({ id: 'action-items', phrases: ['action item'] });
+    expect(calls.setTranscriptRule).toEqual([{ id: 'action-items', phrases: ['action item'] }]);
+    await client.removeTranscriptRule('action-items');
+    expect(calls.removeTranscriptRule).toEqual(['action-items']);
+    await client.respondToQuit('quit-1', false);
+    expect(calls.respondToQuit).toEqual(['quit-1', false]);
+
+    await client.setUploadTokenRequest({ headers: { Authorization: 'Bearer abc' } });
+    expect(calls.setUploadTokenRequest).toEqual([{ headers: { Authorization: 'Bearer abc' } }]);
+
+    const meetings = await client.getDetectedMeetings();
+    expect(meetings.data).toEqual([{ id: 'win-1', platform: 'zoom' }]);
+
+    await client.getLogs({ level: 'warn', windowId: 'win-1' });
+    expect(calls.getLogs).toEqual([{ level: 'warn', windowId: 'win-1' }]);
+
+    await client.exportDiagnostics({ save: true });
+    expect(calls.exportDiagnostics).toEqual([{ save: true }]);
+
+    await client.dumpAXTree('zoom.us');
+    expect(calls.dumpAXTree).toEqual(['zoom.us']);
+
+    await client.dumpAllApplications();
+    expect(calls.dumpAllApplications).toEqual([]);
+
     expect(client.getVersion()).toBe('1.2.3');
 
     await client.shutdownSdk();
@@ -139,4 +203,17 @@ describe('RecallDesktopClient (smoke tests)', () => {
     client.removeAllEventListeners();
     expect(unsub2).toHaveBeenCalledTimes(1);
   });
+
+  test('addEventListener forwards replay options only when provided', () => {
+    const addEventListener = jest.fn().mockReturnValue(() => void 0);
+    (global as any).window = { todesktop: { recallDesktop: { addEventListener } } } as any;
+
+    const client = new ClientClass();
+    const handler = () => {};
+    client.addEventListener('meeting-detected', handler, { replay: true });
+    client.addEventListener('recording-started', handler);
+
+    expect(addEventListener.mock.calls[0]).toEqual(['meeting-detected', handler, { replay: true }]);
+    expect(addEventListener.mock.calls[1]).toEqual(['recording-started', handler]);
+  });
 });
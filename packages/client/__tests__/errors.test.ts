@@ -0,0 +1,94 @@
+import {
+  RecallDesktopClient,
+  RecallDesktopError,
+  PluginUnavailableError,
+  SdkNotReadyError,
+  PermissionMissingError,
+  InvalidUploadTokenError,
+  UploadTokenUnavailableError,
+  MeetingBlockedError,
+  SenderNotAllowedError,
+  createRecallError,
+} from '../src/index';
+
+describe('Recall client errors', () => {
+  const originalWindow = (global as any).window;
+
+  afterEach(() => {
+    (global as any).window = originalWindow;
+  });
+
+  test('createRecallError maps codes to typed errors', () => {
+    const notReady = createRecallError({ code: 'SDK_INITIALIZING', message: 'SDK is still initializing', retryable: true });
+    expect(notReady).toBeInstanceOf(SdkNotReadyError);
+    expect(notReady).toBeInstanceOf(RecallDesktopError);
+    expect(notReady.retryable).toBe(true);
+
+    const permission = createRecallError({
+      code: 'PERMISSION_MISSING',
+      message: 'Failed to start recording',
+      sdkMessage: 'screen-capture permission not granted',
+      retryable: false,
+    });
+    expect(permission).toBeInstanceOf(PermissionMissingError);
+    expect(permission.sdkMessage).toBe('screen-capture permission not granted');
+
+    expect(createRecallError({ code: 'INVALID_UPLOAD_TOKEN', message: 'x', retryable: false })).toBeInstanceOf(
+      InvalidUploadTokenError
+    );
+    expect(createRecallError({ code: 'UPLOAD_TOKEN_UNAVAILABLE', message: 'x', retryable: true })).toBeInstanceOf(
+      UploadTokenUnavailableError
+    );
+    expect(createRecallError({ code: 'MEETING_BLOCKED', message: 'x', retryable: false })).toBeInstanceOf(
+      MeetingBlockedError
+    );
+
+    const generic = createRecallError({ code: 'RECORDING_ERROR', message: 'Failed to stop recording', retryable: true });
+    expect(generic.constructor).toBe(RecallDesktopError);
+    expect(generic.code).toBe('RECORDING_ERROR');
+  });
+
+  test('methods throw PluginUnavailableError when the plugin is missing', async () => {
+    delete (global as any).window;
+    const client = new RecallDesktopClient();
+    await expect(client.startRecording('win-1', 'token')).rejects.toBeInstanceOf(PluginUnavailableError);
+    expect(() => client.getVersion()).toThrow(PluginUnavailableError);
+  });
+
+  test('strict facade unwraps data and rejects with typed errors', async () => {
+    const api = {
+      getConfig: jest.fn().mockResolvedValue({ success: true, message: 'ok', data: { apiUrl: 'x', enabled: true, requestPermissionsOnStartup: false } }),
+      startRecording: jest.fn().mockResolvedValue({
+        success: false,
+        message: 'Failed to start recording',
+        error: { code: 'INVALID_UPLOAD_TOKEN', message: 'Failed to start recording', sdkMessage: 'invalid upload token', retryable: false },
+      }),
+      stopRecording: jest.fn().mockResolvedValue({ success: false, message: 'Failed to stop recording' }),
+    };
+    (global as any).window = { todesktop: { recallDesktop: api } };
+
+    const client = new RecallDesktopClient();
+    expect(client.strict).toBe(client.strict);
+
+    await expect(client.strict.getConfig()).resolves.toEqual({ apiUrl: 'x', enabled: true, requestPermissionsOnStartup: false });
+    await expect(client.strict.startRecording('win-1', 'bad')).rejects.toBeInstanceOf(InvalidUploadTokenError);
+
+    // Older plugin versions do not send a structured error
+    const failure = client.strict.stopRecording('win-1');
+    await expect(failure).rejects.toBeInstanceOf(RecallDesktopError);
+    await expect(failure).rejects.toMatchObject({ code: 'UNKNOWN_ERROR', message: 'Failed to stop recording' });
+  });
+
+  test('getStatus() rejects when the plugin refuses the sender', async () => {
+    const getStatus = jest.fn().mockResolvedValueOnce({ initialized: true }).mockResolvedValueOnce({
+      success: false,
+      message: 'Request failed',
+      error: { code: 'SENDER_NOT_ALLOWED', message: 'Sender is not allowed', retryable: false },
+    });
+    (global as any).window = { todesktop: { recallDesktop: { getStatus } } };
+
+    const client = new RecallDesktopClient();
+    await expect(client.getStatus()).resolves.toEqual({ initialized: true });
+    await expect(client.strict.getStatus()).rejects.toBeInstanceOf(SenderNotAllowedError);
+  });
+});
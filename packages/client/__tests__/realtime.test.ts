@@ -0,0 +1,80 @@
+import {
+  RecallDesktopClient,
+  isKnownRealtimeEvent,
+  isParticipantRealtimeEvent,
+  isRealtimeEvent,
+  isTranscriptRealtimeEvent,
+} from '../src/index';
+
+const window = { id: 'win-1', platform: 'zoom' };
+const participant = { id: 1, name: 'Alice', is_host: true, platform: 'desktop', extra_data: null };
+const timestamp = { relative: 1.5, absolute: '2026-01-05T10:00:01.500Z' };
+
+const transcriptEvent = {
+  window,
+  event: 'transcript.data',
+  data: { data: { words: [{ text: 'Hello', start_timestamp: timestamp, end_timestamp: timestamp }], participant } },
+};
+const joinEvent = { window, event: 'participant_events.join', data: { data: { participant, timestamp, data: null } } };
+
+describe('Realtime event typings', () => {
+  const originalWindow = (global as any).window;
+
+  afterEach(() => {
+    (global as any).window = originalWindow;
+  });
+
+  test('guards narrow documented events and reject malformed payloads', () => {
+    expect(isKnownRealtimeEvent(transcriptEvent)).toBe(true);
+    expect(isKnownRealtimeEvent({ window, event: 'bot.custom', data: { data: {} } })).toBe(false);
+    expect(isKnownRealtimeEvent({ window, event: 'transcript.data', data: null })).toBe(false);
+
+    expect(isTranscriptRealtimeEvent(transcriptEvent)).toBe(true);
+    expect(isTranscriptRealtimeEvent({ ...transcriptEvent, data: { data: { participant } } })).toBe(false);
+    expect(isParticipantRealtimeEvent(joinEvent)).toBe(true);
+    expect(isParticipantRealtimeEvent(transcriptEvent)).toBe(false);
+
+    expect(isRealtimeEvent(joinEvent, 'participant_events.join', 'participant_events.leave')).toBe(true);
+    if (isRealtimeEvent(transcriptEvent, 'transcript.data')) {
+      expect(transcriptEvent.data.data.words[0].text).toBe('Hello');
+    }
+  });
+
+  test('onRealtime() only calls the handler for the named event', () => {
+    const listeners: Array<(data: any) => void> = [];
+    const unsubscribe = jest.fn();
+    const addEventListener = jest.fn().mockImplementation((_type: string, callback: (data: any) => void) => {
+      listeners.push(callback);
+      return unsubscribe;
+    });
+    (global as any).window = { todesktop: { recallDesktop: { addEventListener } } };
+    const client = new RecallDesktopClient();
+
+    const speakers: Array<string | null> = [];
+    const stop = client.onRealtime('participant_events.join', (evt) => {
+      speakers.push(evt.data.data.participant.name);
+    });
+    expect(addEventListener).toHaveBeenCalledWith('realtime-event', expect.any(Function));
+
+    listeners.forEach((listener) => {
+      listener(transcriptEvent);
+      listener(joinEvent);
+    });
+    expect(speakers).toEqual(['Alice']);
+
+    const lines: string[] = [];
+    client.onRealtime('transcript.data', (evt) => {
+      lines.push(evt.data.data.words.map((word) => word.text).join(' '));
+    });
+    listeners.forEach((listener) => {
+      listener({ ...transcriptEvent, data: { data: { participant } } });
+      listener({ ...joinEvent, data: { data: { timestamp, data: null } } });
+      listener(transcriptEvent);
+    });
+    expect(lines).toEqual(['Hello']);
+    expect(speakers).toEqual(['Alice']);
+
+    stop();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
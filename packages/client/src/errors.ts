@@ -0,0 +1,212 @@
+/**
+ * Typed errors for the ToDesktop Recall Desktop SDK client
+ *
+ * Every failed plugin call carries a stable `error.code` (see
+ * `RecallErrorCode`). `createRecallError` turns that into one of the classes
+ * below so UI code can branch with `instanceof`.
+ */
+
+/**
+ * Stable error codes returned by the plugin in `ApiResponse.error.code`
+ */
+export type RecallErrorCode =
+  | 'PLUGIN_DISABLED'
+  | 'SDK_NOT_INITIALIZED'
+  | 'SDK_INITIALIZING'
+  | 'SDK_SHUTTING_DOWN'
+  | 'SDK_INIT_ERROR'
+  | 'SDK_SHUTDOWN_ERROR'
+  | 'PERMISSION_MISSING'
+  | 'INVALID_UPLOAD_TOKEN'
+  | 'WINDOW_NOT_FOUND'
+  | 'RECORDING_ERROR'
+  | 'PERMISSION_REQUEST_ERROR'
+  | 'CONFIG_ERROR'
+  | 'SUBSCRIPTION_ERROR'
+  | 'VALIDATION_ERROR'
+  | 'SENDER_NOT_ALLOWED'
+  | 'DEBUG_TOOLS_DISABLED'
+  | 'UPLOAD_TOKEN_UNAVAILABLE'
+  | 'MEETING_BLOCKED'
+  | 'UNKNOWN_ERROR'
+  | 'PLUGIN_UNAVAILABLE';
+
+/**
+ * Structured error returned by the plugin when a call fails
+ */
+export interface ApiError {
+  code: RecallErrorCode;
+  message: string;
+  /** Message of the underlying SDK error, when there was one */
+  sdkMessage?: string;
+  /** Whether repeating the same call later, unchanged, may succeed */
+  retryable: boolean;
+}
+
+/**
+ * Base class for all errors raised by the client
+ */
+export class RecallDesktopError extends Error {
+  readonly code: RecallErrorCode;
+  readonly sdkMessage?: string;
+  readonly retryable: boolean;
+
+  constructor(error: ApiError) {
+    super(error.message);
+    this.name = 'RecallDesktopError';
+    this.code = error.code;
+    this.sdkMessage = error.sdkMessage;
+    this.retryable = error.retryable;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * The page is not running inside ToDesktop with the Recall plugin installed
+ */
+export class PluginUnavailableError extends RecallDesktopError {
+  constructor() {
+    super({
+      code: 'PLUGIN_UNAVAILABLE',
+      message: 'Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.',
+      retryable: false,
+    });
+    this.name = 'PluginUnavailableError';
+  }
+}
+
+/**
+ * The plugin is disabled through its ToDesktop preference
+ */
+export class PluginDisabledError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'PluginDisabledError';
+  }
+}
+
+/**
+ * The SDK is not ready for commands: not initialized, still initializing,
+ * shutting down, or failed to start
+ */
+export class SdkNotReadyError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'SdkNotReadyError';
+  }
+}
+
+/**
+ * A required OS permission is missing
+ */
+export class PermissionMissingError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'PermissionMissingError';
+  }
+}
+
+/**
+ * The upload token was rejected
+ */
+export class InvalidUploadTokenError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'InvalidUploadTokenError';
+  }
+}
+
+/**
+ * The SDK does not know the meeting window
+ */
+export class WindowNotFoundError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'WindowNotFoundError';
+  }
+}
+
+/**
+ * The plugin rejected the request payload
+ */
+export class InvalidRequestError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * The calling frame or origin is not allowed by the plugin's sender policy
+ */
+export class SenderNotAllowedError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'SenderNotAllowedError';
+  }
+}
+
+/**
+ * A debugging hook was called without the debugTools preference enabled
+ */
+export class DebugToolsDisabledError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'DebugToolsDisabledError';
+  }
+}
+
+/**
+ * The plugin's upload token endpoint could not provide a token
+ */
+export class UploadTokenUnavailableError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'UploadTokenUnavailableError';
+  }
+}
+
+/**
+ * The meeting matches the plugin's privacy blocklist and cannot be recorded
+ */
+export class MeetingBlockedError extends RecallDesktopError {
+  constructor(error: ApiError) {
+    super(error);
+    this.name = 'MeetingBlockedError';
+  }
+}
+
+/**
+ * Create the typed error matching an `ApiError` code
+ */
+export const createRecallError = (error: ApiError): RecallDesktopError => {
+  switch (error.code) {
+    case 'PLUGIN_UNAVAILABLE':
+      return new PluginUnavailableError();
+    case 'PLUGIN_DISABLED':
+      return new PluginDisabledError(error);
+    case 'SDK_NOT_INITIALIZED':
+    case 'SDK_INITIALIZING':
+    case 'SDK_SHUTTING_DOWN':
+    case 'SDK_INIT_ERROR':
+      return new SdkNotReadyError(error);
+    case 'PERMISSION_MISSING':
+      return new PermissionMissingError(error);
+    case 'INVALID_UPLOAD_TOKEN':
+      return new InvalidUploadTokenError(error);
+    case 'WINDOW_NOT_FOUND':
+      return new WindowNotFoundError(error);
+    case 'VALIDATION_ERROR':
+      return new InvalidRequestError(error);
+    case 'SENDER_NOT_ALLOWED':
+      return new SenderNotAllowedError(error);
+    case 'DEBUG_TOOLS_DISABLED':
+      return new DebugToolsDisabledError(error);
+    case 'UPLOAD_TOKEN_UNAVAILABLE':
+      return new UploadTokenUnavailableError(error);
+    case 'MEETING_BLOCKED':
+      return new MeetingBlockedError(error);
+    default:
+      return new RecallDesktopError(error);
+  }
+};
@@ -1,23 +1,347 @@
 // Generated by dts-bundle-generator v8.1.2
 
+declare const LOG_LEVELS: readonly [
+	"debug",
+	"info",
+	"warn",
+	"error"
+];
+export type LogLevel = (typeof LOG_LEVELS)[number];
+export interface LogEntry {
+	timestamp: number;
+	level: LogLevel;
+	source: "plugin" | "sdk";
+	subsystem: string;
+	category?: string;
+	windowId?: string;
+	message: string;
+	data?: unknown;
+}
+export interface LogFilter {
+	level?: LogLevel;
+	subsystem?: string;
+	windowId?: string;
+	limit?: number;
+}
 export interface RecallSdkConfig {
 	enabled: boolean;
 	apiUrl: string;
 	requestPermissionsOnStartup: boolean;
+	logLevel: LogLevel;
+	autoRecord: AutoRecordConfig;
+	suspendAction: PowerAction;
+	lockAction: PowerAction;
+	autoStop: AutoStopConfig;
+}
+export interface AutoStopConfig {
+	onMeetingClosed: boolean;
+	maxDurationMinutes: number;
+	captureLossGraceSeconds: number;
+}
+declare const AUTO_RECORD_ACTIONS: readonly [
+	"record",
+	"ask",
+	"ignore"
+];
+export type AutoRecordAction = (typeof AUTO_RECORD_ACTIONS)[number];
+export interface AutoRecordRule {
+	id?: string;
+	platforms?: string[];
+	urlPattern?: string;
+	titlePattern?: string;
+	action: AutoRecordAction;
+	recordingConfig?: Record<string, unknown>;
+}
+export interface AutoRecordConfig {
+	enabled: boolean;
+	rules: AutoRecordRule[];
+	defaultAction: AutoRecordAction;
+}
+declare const POWER_ACTIONS: readonly [
+	"none",
+	"pause",
+	"stop"
+];
+export type PowerAction = (typeof POWER_ACTIONS)[number];
+export interface MeetingWindow {
+	id: string;
+	title?: string;
+	url?: string;
+	platform?: string;
+}
+export interface UploadTokenRequestOptions {
+	headers?: Record<string, string>;
+	body?: unknown;
+}
+export type RecordingState = "detected" | "recording" | "paused" | "ended";
+export interface RecordingPause {
+	pausedAt: number;
+	resumedAt?: number;
+}
+export interface RecordingSession {
+	windowId: string;
+	state: RecordingState;
+	window: MeetingWindow;
+	detectedAt?: number;
+	startedAt?: number;
+	pausedAt?: number;
+	resumedAt?: number;
+	endedAt?: number;
+	updatedAt: number;
+	initiatorWebContentsId?: number;
+	interrupted?: boolean;
+	pauses?: RecordingPause[];
+	lastError?: string;
+}
+export interface TranscriptWord {
+	text: string;
+	start?: number;
+	end?: number;
+}
+export interface TranscriptSegment {
+	id: number;
+	speaker: string;
+	participantId?: number;
+	text: string;
+	words: TranscriptWord[];
+	start?: number;
+	end?: number;
+	final: boolean;
+}
+export interface Transcript {
+	windowId: string;
+	window: MeetingWindow;
+	segments: TranscriptSegment[];
+	startedAt: number;
+	updatedAt: number;
+	endedAt?: number;
+}
+declare const TRANSCRIPT_FORMATS: readonly [
+	"srt",
+	"vtt",
+	"markdown",
+	"json"
+];
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+export interface TranscriptExport {
+	fileName: string;
+	format: TranscriptFormat;
+	content: string;
+}
+export interface TranscriptRule {
+	id: string;
+	phrases?: string[];
+	pattern?: string;
+	caseSensitive?: boolean;
+	windowId?: string;
+}
+export interface Participant {
+	id: number;
+	name: string;
+	isHost: boolean;
+	platform?: string;
+	joinedAt?: number;
+	leftAt?: number;
+	present: boolean;
+	audio: boolean;
+	video: boolean;
+	screenshare: boolean;
+	updatedAt: number;
+}
+export type ParticipantCapture = Partial<Record<"audio" | "video" | "screenshare", boolean>>;
+export interface ParticipantRoster {
+	windowId: string;
+	window: MeetingWindow;
+	participants: Participant[];
+	capture: ParticipantCapture;
+	updatedAt: number;
+	endedAt?: number;
+}
+export interface SpeakerAnalytics {
+	speaker: string;
+	participantId?: number;
+	talkTimeSeconds: number;
+	talkTimePercent: number;
+	segments: number;
+	words: number;
+	wordsPerMinute: number;
+	interruptions: number;
+}
+export interface SilenceGapAnalytics {
+	count: number;
+	totalSeconds: number;
+	longestSeconds: number;
+}
+export interface MeetingAnalytics {
+	windowId: string;
+	computedAt: number;
+	recordedSeconds: number;
+	pausedSeconds: number;
+	talkTimeSeconds: number;
+	overlapSeconds: number;
+	interruptions: number;
+	words: number;
+	wordsPerMinute: number;
+	silenceGaps: SilenceGapAnalytics;
+	speakers: SpeakerAnalytics[];
+}
+export type RecordingOutcome = "completed" | "interrupted" | "failed";
+export interface RecordingHistoryEntry {
+	id: string;
+	windowId: string;
+	platform?: string;
+	title?: string;
+	url?: string;
+	startedAt?: number;
+	endedAt: number;
+	pauses: RecordingPause[];
+	initiatorWebContentsId?: number;
+	outcome: RecordingOutcome;
+	lastError?: string;
+	analytics?: MeetingAnalytics;
+}
+export interface RecordingHistoryQuery {
+	since?: number;
+	platform?: string;
+	limit?: number;
+}
+export interface SubscribeOptions {
+	replay?: boolean | number;
+}
+declare const RECALL_SDK_EVENT_TYPES: readonly [
+	"recording-started",
+	"recording-ended",
+	"upload-progress",
+	"meeting-detected",
+	"meeting-updated",
+	"meeting-closed",
+	"sdk-state-change",
+	"error",
+	"media-capture-status",
+	"participant-capture-status",
+	"compliance-message-status",
+	"permissions-granted",
+	"permission-status",
+	"realtime-event",
+	"shutdown",
+	"log",
+	"network-status"
+];
+export type RecallSdkEventType = (typeof RECALL_SDK_EVENT_TYPES)[number];
+declare const PLUGIN_EVENT_TYPES: readonly [
+	"sdk-recovered",
+	"sdk-recovery-failed",
+	"auto-record-decision",
+	"quit-requested",
+	"recording-auto-paused",
+	"recording-auto-resumed",
+	"recording-auto-stopped",
+	"transcript-updated",
+	"participants-changed",
+	"transcript-match"
+];
+export type PluginEventType = (typeof PLUGIN_EVENT_TYPES)[number];
+export type RecallEventType = RecallSdkEventType | PluginEventType;
+declare const PERMISSION_TYPES: readonly [
+	"accessibility",
+	"screen-capture",
+	"microphone",
+	"system-audio",
+	"full-disk-access"
+];
+export type PermissionType = (typeof PERMISSION_TYPES)[number];
+export type PermissionStatusMap = Partial<Record<PermissionType, string>>;
+export type SdkRecordingState = "recording" | "idle" | "paused";
+export interface SdkRecoveryStatus {
+	recovering: boolean;
+	attempt: number;
+	restartCount: number;
+	failedRecoveries: number;
+	lastShutdownAt?: number;
+	lastRecoveredAt?: number;
+	lastError?: string;
+}
+export type SdkLifecycleState = "uninitialized" | "initializing" | "ready" | "shutting-down" | "failed";
+declare const RECALL_ERROR_CODES: {
+	readonly PLUGIN_DISABLED: {
+		readonly retryable: false;
+	};
+	readonly SDK_NOT_INITIALIZED: {
+		readonly retryable: false;
+	};
+	readonly SDK_INITIALIZING: {
+		readonly retryable: true;
+	};
+	readonly SDK_SHUTTING_DOWN: {
+		readonly retryable: false;
+	};
+	readonly SDK_INIT_ERROR: {
+		readonly retryable: true;
+	};
+	readonly SDK_SHUTDOWN_ERROR: {
+		readonly retryable: true;
+	};
+	readonly PERMISSION_MISSING: {
+		readonly retryable: false;
+	};
+	readonly INVALID_UPLOAD_TOKEN: {
+		readonly retryable: false;
+	};
+	readonly WINDOW_NOT_FOUND: {
+		readonly retryable: false;
+	};
+	readonly RECORDING_ERROR: {
+		readonly retryable: true;
+	};
+	readonly PERMISSION_REQUEST_ERROR: {
+		readonly retryable: true;
+	};
+	readonly CONFIG_ERROR: {
+		readonly retryable: false;
+	};
+	readonly SUBSCRIPTION_ERROR: {
+		readonly retryable: true;
+	};
+	readonly VALIDATION_ERROR: {
+		readonly retryable: false;
+	};
+	readonly SENDER_NOT_ALLOWED: {
+		readonly retryable: false;
+	};
+	readonly DEBUG_TOOLS_DISABLED: {
+		readonly retryable: false;
+	};
+	readonly UPLOAD_TOKEN_UNAVAILABLE: {
+		readonly retryable: true;
+	};
+	readonly MEETING_BLOCKED: {
+		readonly retryable: false;
+	};
+	readonly UNKNOWN_ERROR: {
+		readonly retryable: false;
+	};
+};
+export type RecallErrorCode = keyof typeof RECALL_ERROR_CODES;
+export interface ApiError {
+	code: RecallErrorCode;
+	message: string;
+	sdkMessage?: string;
+	retryable: boolean;
 }
-export type RecallSdkEventType = "recording-started" | "recording-ended" | "upload-progress" | "meeting-detected" | "meeting-updated" | "meeting-closed" | "sdk-state-change" | "error" | "media-capture-status" | "participant-capture-status" | "compliance-message-status" | "permissions-granted" | "permission-status" | "realtime-event" | "shutdown" | "log" | "network-status";
-export type PermissionType = "accessibility" | "screen-capture" | "microphone" | "system-audio" | "full-disk-access";
 export interface ApiResponse<T = any> {
 	success: boolean;
 	message: string;
 	data?: T;
+	error?: ApiError;
 }
 export interface PluginStatus {
 	initialized: boolean;
 	sdkInitialized: boolean;
+	sdkLifecycle?: SdkLifecycleState;
 	version: string;
 	config: RecallSdkConfig;
-	sdkState?: "recording" | "idle" | "paused";
+	sdkState?: SdkRecordingState;
+	recovery?: SdkRecoveryStatus;
 	permissions?: {
 		accessibility: boolean;
 		screenCapture: boolean;
@@ -32,6 +356,18 @@ export interface PrepareDesktopAudioRecordingConfig {
 export interface PrepareDesktopAudioResponse {
 	windowId: string;
 }
+export interface ExportDiagnosticsOptions {
+	save?: boolean;
+	includeApplications?: boolean;
+	includeAXTree?: string[];
+}
+export interface DiagnosticsExport {
+	fileName: string;
+	size: number;
+	bytes?: Uint8Array;
+	filePath?: string;
+	canceled?: boolean;
+}
 /**
  * Initialize the Recall SDK
  * @returns Promise resolving to initialization result
@@ -44,16 +380,17 @@ export declare function initSdk(): Promise<ApiResponse>;
 export declare function shutdownSdk(): Promise<ApiResponse>;
 /**
  * Get current plugin and SDK status
- * @returns Promise resolving to plugin status
+ * @returns Promise resolving to plugin status, or to an error response when
+ * the sender policy refuses the calling window
  */
-export declare function getStatus(): Promise<PluginStatus>;
+export declare function getStatus(): Promise<PluginStatus | ApiResponse<never>>;
 /**
  * Start recording a meeting
  * @param windowId The meeting window ID
- * @param uploadToken Upload token from your backend
+ * @param uploadToken Upload token from your backend; omit it to use the plugin's upload token endpoint
  * @returns Promise resolving to recording start result
  */
-export declare function startRecording(windowId: string, uploadToken: string): Promise<ApiResponse>;
+export declare function startRecording(windowId: string, uploadToken?: string): Promise<ApiResponse>;
 /**
  * Stop recording a meeting
  * @param windowId The meeting window ID
@@ -90,6 +427,11 @@ export declare function prepareDesktopAudioRecording(config?: PrepareDesktopAudi
  * @returns Promise resolving to permission request result
  */
 export declare function requestPermission(permission: PermissionType): Promise<ApiResponse>;
+/**
+ * Get the raw permission status strings last reported by the SDK
+ * @returns Promise resolving to a map of permission to status
+ */
+export declare function getPermissionStatus(): Promise<ApiResponse<PermissionStatusMap>>;
 /**
  * Update plugin configuration
  * @param config Configuration updates
@@ -102,12 +444,123 @@ export declare function setConfig(config: Partial<RecallSdkConfig>): Promise<Api
  */
 export declare function getConfig(): Promise<ApiResponse<RecallSdkConfig>>;
 /**
- * Subscribe to SDK events
+ * Get every recording session tracked by the main process
+ * @returns Promise resolving to the tracked recording sessions
+ */
+export declare function getRecordings(): Promise<ApiResponse<RecordingSession[]>>;
+/**
+ * Get the recording session tracked for a meeting window
+ * @param windowId The meeting window ID
+ * @returns Promise resolving to the recording session, or null if none is tracked
+ */
+export declare function getRecording(windowId: string): Promise<ApiResponse<RecordingSession | null>>;
+/**
+ * Get finished recordings from the local history journal, most recent first
+ * @param query Only recordings that ended since a timestamp, on a platform, and at most `limit` of them (default 50)
+ * @returns Promise resolving to the matching history entries
+ */
+export declare function getRecordingHistory(query?: RecordingHistoryQuery): Promise<ApiResponse<RecordingHistoryEntry[]>>;
+/**
+ * Get the live transcript assembled for a meeting window
+ * @param windowId The meeting window ID
+ * @returns Promise resolving to the transcript, or null if none was recorded
+ */
+export declare function getTranscript(windowId: string): Promise<ApiResponse<Transcript | null>>;
+/**
+ * Export a meeting window's transcript
+ * @param windowId The meeting window ID
+ * @param format `srt`, `vtt`, `markdown` or `json`
+ * @returns Promise resolving to the file name and content
+ */
+export declare function exportTranscript(windowId: string, format: TranscriptFormat): Promise<ApiResponse<TranscriptExport>>;
+/**
+ * Get the participant roster tracked for a meeting window
+ * @param windowId The meeting window ID
+ * @returns Promise resolving to the roster, or null if none was tracked
+ */
+export declare function getParticipants(windowId: string): Promise<ApiResponse<ParticipantRoster | null>>;
+/**
+ * Get talk time, interruption and recording time analytics for a meeting window
+ * @param windowId The meeting window ID
+ * @returns Promise resolving to the analytics, or null if nothing is known about the window
+ */
+export declare function getMeetingAnalytics(windowId: string): Promise<ApiResponse<MeetingAnalytics | null>>;
+/**
+ * Add or replace a transcript watch rule
+ * @param rule The rule; set exactly one of `phrases` or `pattern`
+ * @returns Promise resolving to the stored rule
+ */
+export declare function setTranscriptRule(rule: TranscriptRule): Promise<ApiResponse<TranscriptRule>>;
+/**
+ * Remove a transcript watch rule
+ * @param ruleId The rule ID
+ * @returns Promise resolving to the operation result
+ */
+export declare function removeTranscriptRule(ruleId: string): Promise<ApiResponse>;
+/**
+ * List the transcript watch rules
+ * @returns Promise resolving to every rule, in the order they were added
+ */
+export declare function getTranscriptRules(): Promise<ApiResponse<TranscriptRule[]>>;
+/**
+ * Answer a `quit-requested` event
+ * @param requestId The `requestId` from the event
+ * @param proceed false to cancel the quit and keep recording
+ * @returns Promise resolving to the operation result
+ */
+export declare function respondToQuit(requestId: string, proceed: boolean): Promise<ApiResponse>;
+/**
+ * Subscribe to SDK events and plugin-emitted events
  * @param eventType The type of event to listen for
  * @param callback Function to call when event occurs
+ * @param options Subscription options, e.g. `{ replay: true }` to receive the last known state
  * @returns Function to unsubscribe from the event
  */
-export declare function addEventListener(eventType: RecallSdkEventType, callback: (data: any) => void): () => void;
+export declare function addEventListener(eventType: RecallEventType, callback: (data: any) => void, options?: SubscribeOptions): () => void;
+/**
+ * Drop configuration set through setConfig(), reverting to the plugin
+ * preferences and defaults
+ * @returns Promise resolving to the resulting configuration
+ */
+export declare function resetConfig(): Promise<ApiResponse<RecallSdkConfig>>;
+/**
+ * Set the headers and body sent to the upload token endpoint, e.g. the
+ * user's credentials and the recording_config for the SDK upload
+ * @param request Headers and JSON body for every token request
+ * @returns Promise resolving to the update result
+ */
+export declare function setUploadTokenRequest(request: UploadTokenRequestOptions): Promise<ApiResponse>;
+/**
+ * Get the meetings that are currently detected
+ * @returns Promise resolving to the open meeting windows
+ */
+export declare function getDetectedMeetings(): Promise<ApiResponse<MeetingWindow[]>>;
+/**
+ * Read recent plugin and SDK log entries, oldest first
+ * @param filter Minimum level, subsystem, windowId and number of entries to return
+ * @returns Promise resolving to the matching log entries
+ */
+export declare function getLogs(filter?: LogFilter): Promise<ApiResponse<LogEntry[]>>;
+/**
+ * Export a diagnostics bundle (version, config, status, permissions, recent
+ * events, errors and logs) as JSON with secrets redacted
+ * @param options Pass `{ save: true }` to show a save dialog instead of returning the bytes
+ * @returns Promise resolving to the bundle bytes, or where it was saved
+ */
+export declare function exportDiagnostics(options?: ExportDiagnosticsOptions): Promise<ApiResponse<DiagnosticsExport>>;
+/**
+ * Dump the accessibility tree of a running application, e.g. "zoom.us",
+ * for troubleshooting meeting detection. Requires the debugTools preference.
+ * @param procName Process name of the application
+ * @returns Promise resolving to the SDK's dump
+ */
+export declare function dumpAXTree(procName: string): Promise<ApiResponse<any>>;
+/**
+ * Dump every application the SDK can see, for troubleshooting meeting
+ * detection. Requires the debugTools preference.
+ * @returns Promise resolving to the SDK's dump
+ */
+export declare function dumpAllApplications(): Promise<ApiResponse<any>>;
 /**
  * Get plugin version
  * @returns Plugin version string
@@ -161,9 +614,28 @@ export type ExportedApi = {
 	uploadRecording: typeof uploadRecording;
 	prepareDesktopAudioRecording: typeof prepareDesktopAudioRecording;
 	requestPermission: typeof requestPermission;
+	getPermissionStatus: typeof getPermissionStatus;
 	setConfig: typeof setConfig;
 	getConfig: typeof getConfig;
+	resetConfig: typeof resetConfig;
+	getRecordings: typeof getRecordings;
+	getRecording: typeof getRecording;
+	getRecordingHistory: typeof getRecordingHistory;
+	respondToQuit: typeof respondToQuit;
+	getTranscript: typeof getTranscript;
+	exportTranscript: typeof exportTranscript;
+	getParticipants: typeof getParticipants;
+	getMeetingAnalytics: typeof getMeetingAnalytics;
+	setTranscriptRule: typeof setTranscriptRule;
+	removeTranscriptRule: typeof removeTranscriptRule;
+	getTranscriptRules: typeof getTranscriptRules;
 	addEventListener: typeof addEventListener;
+	getDetectedMeetings: typeof getDetectedMeetings;
+	setUploadTokenRequest: typeof setUploadTokenRequest;
+	getLogs: typeof getLogs;
+	exportDiagnostics: typeof exportDiagnostics;
+	dumpAXTree: typeof dumpAXTree;
+	dumpAllApplications: typeof dumpAllApplications;
 	getVersion: typeof getVersion;
 	onMeetingDetected: typeof onMeetingDetected;
 	onRecordingStateChange: typeof onRecordingStateChange;
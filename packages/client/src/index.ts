@@ -12,6 +12,15 @@ import type {
   Permission as RecallPermission,
   RecallAiSdkWindow,
 } from './generated/recallai-desktop-sdk';
+import { ApiError, PluginUnavailableError, createRecallError } from './errors';
+import {
+  isParticipantRealtimeEvent,
+  isRealtimeEvent,
+  isTranscriptRealtimeEvent,
+  type RealtimeEventName,
+  type TypedRealtimeEvent,
+} from './realtime';
+import { StrictRecallDesktopClient } from './strict';
 
 // Extend window interface for ToDesktop runtime
 declare global {
@@ -22,6 +31,11 @@ declare global {
 
 export type MeetingWindow = RecallAiSdkWindow;
 
+/**
+ * Log levels, least to most severe
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
 /**
  * Plugin configuration options
  */
@@ -29,6 +43,181 @@ export interface RecallSdkConfig {
   enabled: boolean;
   apiUrl: string;
   requestPermissionsOnStartup: boolean;
+  /** Minimum level captured by the plugin logger */
+  logLevel: LogLevel;
+  /** Opt-in rules for starting recordings when a meeting is detected */
+  autoRecord: AutoRecordConfig;
+  /** What happens to active recordings when the system sleeps */
+  suspendAction: PowerAction;
+  /** What happens to active recordings when the screen locks */
+  lockAction: PowerAction;
+  /** Safeguards that stop unattended recordings */
+  autoStop: AutoStopConfig;
+}
+
+export interface AutoStopConfig {
+  /** Stop when `meeting-closed` fires for the recording's window (default true) */
+  onMeetingClosed: boolean;
+  /** Stop recordings that have run this long; 0 (the default) disables the limit */
+  maxDurationMinutes: number;
+  /** Stop when media capture has been lost this long; 0 (the default) disables the check */
+  captureLossGraceSeconds: number;
+}
+
+export type PowerAction = 'none' | 'pause' | 'stop';
+
+export type AutoRecordAction = 'record' | 'ask' | 'ignore';
+
+/**
+ * Auto-record rule. It matches when every criterion it sets matches;
+ * patterns use `*` wildcards and ignore case.
+ */
+export interface AutoRecordRule {
+  /** Reported in `auto-record-decision` events */
+  id?: string;
+  /** `MeetingWindow.platform` values, e.g. `['zoom', 'google-meet']` */
+  platforms?: string[];
+  urlPattern?: string;
+  titlePattern?: string;
+  action: AutoRecordAction;
+  /** Sent as `recording_config` when fetching the upload token for a match */
+  recordingConfig?: Record<string, unknown>;
+}
+
+export interface AutoRecordConfig {
+  enabled: boolean;
+  /** Evaluated in order; the first match decides */
+  rules: AutoRecordRule[];
+  /** Applied when no rule matches */
+  defaultAction: AutoRecordAction;
+}
+
+/**
+ * Structured log entry captured by the plugin main process.
+ * `source` is `sdk` for entries from the SDK's `log` event.
+ */
+export interface LogEntry {
+  /** Epoch milliseconds */
+  timestamp: number;
+  level: LogLevel;
+  source: 'plugin' | 'sdk';
+  subsystem: string;
+  category?: string;
+  windowId?: string;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * Headers and JSON body sent with every request to the plugin's upload token
+ * endpoint. The endpoint must respond with `{ upload_token }`.
+ */
+export interface UploadTokenRequestOptions {
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Filter for reading recent log entries
+ */
+export interface LogFilter {
+  /** Minimum level to return */
+  level?: LogLevel;
+  subsystem?: string;
+  windowId?: string;
+  /** Most recent entries to return (1-1000, default 200) */
+  limit?: number;
+}
+
+/**
+ * Options for exportDiagnostics
+ */
+export interface ExportDiagnosticsOptions {
+  /** Show a save dialog and write the bundle to disk instead of returning its bytes */
+  save?: boolean;
+  /** Include dumpAllApplications() output (requires the debugTools preference) */
+  includeApplications?: boolean;
+  /** Include dumpAXTree() output for these process names (requires the debugTools preference) */
+  includeAXTree?: string[];
+}
+
+/**
+ * Output of the SDK debugging hooks included in a diagnostics bundle
+ */
+export interface DiagnosticsDebugDumps {
+  applications?: any;
+  /** Keyed by process name */
+  axTrees?: Record<string, any>;
+  /** Dumps that failed, keyed by "applications" or the process name */
+  errors?: Record<string, string>;
+}
+
+/**
+ * Result of exportDiagnostics
+ */
+export interface DiagnosticsExport {
+  fileName: string;
+  /** Bundle size in bytes */
+  size: number;
+  /** UTF-8 JSON bundle, when not saved to disk */
+  bytes?: Uint8Array;
+  /** Where the bundle was written, when saved */
+  filePath?: string;
+  /** The user dismissed the save dialog */
+  canceled?: boolean;
+}
+
+/**
+ * Contents of a diagnostics bundle, with secrets redacted
+ */
+export interface DiagnosticsBundle {
+  generatedAt: string;
+  plugin: {
+    version: string;
+    platform: string;
+    arch: string;
+    electronVersion?: string;
+    appVersion?: string;
+  };
+  config: RecallSdkConfig;
+  status: PluginStatus;
+  permissions: PermissionStatusMap;
+  recordings: RecordingSession[];
+  detectedMeetings: MeetingWindow[];
+  /** Per event type: renderers subscribed and total listener count */
+  subscriptions: Record<string, { webContents: number; listeners: number }>;
+  trackedWebContents: Array<{ id: number; url: string; destroyed: boolean }>;
+  /** Most recent payloads of each event type the plugin has seen */
+  recentEvents: Record<string, any[]>;
+  errors: LogEntry[];
+  logs: LogEntry[];
+  debug?: DiagnosticsDebugDumps;
+}
+
+/**
+ * SDK lifecycle state as tracked by the plugin main process
+ */
+export type SdkLifecycleState =
+  | 'uninitialized'
+  | 'initializing'
+  | 'ready'
+  | 'shutting-down'
+  | 'failed';
+
+/**
+ * Automatic SDK restart bookkeeping. Timestamps are epoch milliseconds.
+ */
+export interface SdkRecoveryStatus {
+  recovering: boolean;
+  /** Restart attempt in progress, 0 when not recovering */
+  attempt: number;
+  /** Successful automatic restarts since the plugin started */
+  restartCount: number;
+  /** Recovery runs that gave up after exhausting every attempt */
+  failedRecoveries: number;
+  lastShutdownAt?: number;
+  lastRecoveredAt?: number;
+  lastError?: string;
 }
 
 /**
@@ -37,9 +226,11 @@ export interface RecallSdkConfig {
 export interface PluginStatus {
   initialized: boolean;
   sdkInitialized: boolean;
+  sdkLifecycle?: SdkLifecycleState;
   version: string;
   config: RecallSdkConfig;
   sdkState?: 'recording' | 'idle' | 'paused';
+  recovery?: SdkRecoveryStatus;
   permissions?: {
     accessibility: boolean;
     screenCapture: boolean;
@@ -56,18 +247,398 @@ export interface ApiResponse<T = any> {
   success: boolean;
   message: string;
   data?: T;
+  /** Structured error details, present when success is false */
+  error?: ApiError;
+}
+
+/**
+ * Recording session lifecycle state tracked by the plugin
+ */
+export type RecordingState = 'detected' | 'recording' | 'paused' | 'ended';
+
+/**
+ * Recording session tracked by the plugin main process.
+ * Timestamps are epoch milliseconds.
+ */
+export interface RecordingSession {
+  windowId: string;
+  state: RecordingState;
+  window: MeetingWindow;
+  detectedAt?: number;
+  startedAt?: number;
+  pausedAt?: number;
+  resumedAt?: number;
+  endedAt?: number;
+  updatedAt: number;
+  initiatorWebContentsId?: number;
+  /** Set when the session ended because the SDK stopped unexpectedly */
+  interrupted?: boolean;
+  /** Every pause of the current recording, oldest first */
+  pauses?: RecordingPause[];
+  /** Last error the SDK reported for this window */
+  lastError?: string;
+}
+
+/**
+ * A pause within a recording; resumedAt is unset while still paused
+ */
+export interface RecordingPause {
+  pausedAt: number;
+  resumedAt?: number;
+}
+
+/**
+ * How a recording in the history journal ended
+ */
+export type RecordingOutcome = 'completed' | 'interrupted' | 'failed';
+
+/**
+ * A finished recording in the local history journal
+ */
+export interface RecordingHistoryEntry {
+  id: string;
+  windowId: string;
+  platform?: string;
+  title?: string;
+  url?: string;
+  /** Unset when the recording failed to start */
+  startedAt?: number;
+  endedAt: number;
+  pauses: RecordingPause[];
+  initiatorWebContentsId?: number;
+  outcome: RecordingOutcome;
+  lastError?: string;
+  /** Post-call analytics; unset when the recording failed to start */
+  analytics?: MeetingAnalytics;
+}
+
+/**
+ * Talk statistics for one speaker. Participants who never spoke are listed with zero talk time.
+ */
+export interface SpeakerAnalytics {
+  speaker: string;
+  participantId?: number;
+  talkTimeSeconds: number;
+  /** Share of all speakers' talk time, 0-100 */
+  talkTimePercent: number;
+  segments: number;
+  words: number;
+  wordsPerMinute: number;
+  /** Times this speaker started talking while someone else still was */
+  interruptions: number;
+}
+
+/**
+ * Meeting analytics computed locally from the transcript, participant roster and
+ * recording lifecycle. Durations are in seconds.
+ */
+export interface MeetingAnalytics {
+  windowId: string;
+  /** Epoch milliseconds */
+  computedAt: number;
+  /** Time spent recording, excluding pauses */
+  recordedSeconds: number;
+  pausedSeconds: number;
+  /** Talk time with overlapping speech counted once */
+  talkTimeSeconds: number;
+  /** Time two or more speakers talked at once */
+  overlapSeconds: number;
+  interruptions: number;
+  words: number;
+  wordsPerMinute: number;
+  /** Silences of 5 seconds or more between utterances */
+  silenceGaps: { count: number; totalSeconds: number; longestSeconds: number };
+  /** Most talk time first */
+  speakers: SpeakerAnalytics[];
+}
+
+/**
+ * Filter for getRecordingHistory()
+ */
+export interface RecordingHistoryQuery {
+  /** Only recordings that ended at or after this epoch timestamp (ms) */
+  since?: number;
+  platform?: string;
+  /** Maximum number of entries to return (default 50, at most 1000) */
+  limit?: number;
+}
+
+/**
+ * A transcribed word; timestamps are seconds since the recording started
+ */
+export interface TranscriptWord {
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+/**
+ * One utterance by one speaker. Partial segments (`final: false`) are
+ * replaced, keeping their id, until the final result arrives.
+ */
+export interface TranscriptSegment {
+  id: number;
+  speaker: string;
+  participantId?: number;
+  text: string;
+  words: TranscriptWord[];
+  start?: number;
+  end?: number;
+  final: boolean;
+}
+
+/**
+ * Transcript assembled by the plugin from realtime transcript events
+ */
+export interface Transcript {
+  windowId: string;
+  window: MeetingWindow;
+  /** Ordered by start time */
+  segments: TranscriptSegment[];
+  startedAt: number;
+  updatedAt: number;
+  /** Set once the recording ended */
+  endedAt?: number;
+}
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'markdown' | 'json';
+
+export interface TranscriptExport {
+  fileName: string;
+  format: TranscriptFormat;
+  content: string;
+}
+
+/**
+ * A watch rule matched against every final transcript segment. Set exactly one of
+ * `phrases` or `pattern`.
+ */
+export interface TranscriptRule {
+  id: string;
+  /** Keywords or phrases, matched as whole words with any whitespace between words */
+  phrases?: string[];
+  /**
+   * Regular expression source, compiled with the `u` flag. Repeated groups may not contain
+   * a quantifier or `|`, and backreferences are not supported.
+   */
+  pattern?: string;
+  /** Defaults to false */
+  caseSensitive?: boolean;
+  /** Only match in this meeting window; unset matches every window */
+  windowId?: string;
+}
+
+/**
+ * Payload of `transcript-match`: one match of a transcript rule
+ */
+export interface TranscriptMatchEvent {
+  ruleId: string;
+  windowId: string;
+  window: MeetingWindow;
+  speaker: string;
+  participantId?: number;
+  /** Transcript segment the match is in */
+  segmentId: number;
+  /** The matched text, as spoken */
+  text: string;
+  /** The match with up to 8 words either side */
+  context: string;
+  /** Seconds since the recording started, from the matched words */
+  start?: number;
+  end?: number;
+  /** Epoch milliseconds */
+  matchedAt: number;
+}
+
+/**
+ * A meeting participant, from `participant_events.*` realtime events
+ */
+export interface Participant {
+  id: number;
+  /** Empty until the meeting platform reports it */
+  name: string;
+  isHost: boolean;
+  platform?: string;
+  /** Epoch milliseconds; `leftAt` is cleared when the participant rejoins */
+  joinedAt?: number;
+  leftAt?: number;
+  /** Still in the meeting */
+  present: boolean;
+  /** Speaking */
+  audio: boolean;
+  /** Webcam on */
+  video: boolean;
+  screenshare: boolean;
+  updatedAt: number;
+}
+
+/**
+ * Participants of a meeting window, kept by the plugin
+ */
+export interface ParticipantRoster {
+  windowId: string;
+  window: MeetingWindow;
+  /** In order of first appearance */
+  participants: Participant[];
+  /** Whether the SDK captures each participant stream type, from `participant-capture-status` */
+  capture: Partial<Record<'audio' | 'video' | 'screenshare', boolean>>;
+  updatedAt: number;
+  /** Set once the recording ended */
+  endedAt?: number;
 }
 
 export type PermissionType = RecallPermission;
 
-export type RecallSdkEventType = keyof EventTypeToPayloadMap;
+/**
+ * Raw permission status strings as last reported by the SDK
+ */
+export type PermissionStatusMap = Partial<Record<PermissionType, string>>;
+
+/**
+ * Payload of `sdk-recovered`, emitted after the plugin restarted the SDK
+ * following an unexpected shutdown
+ */
+export interface SdkRecoveredEvent {
+  attempts: number;
+  restartCount: number;
+  /** Recordings that were active when the SDK stopped */
+  interruptedRecordings: RecordingSession[];
+}
+
+/**
+ * Payload of `sdk-recovery-failed`, emitted when every restart attempt failed
+ */
+export interface SdkRecoveryFailedEvent {
+  attempts: number;
+  error: ApiError;
+  /** Recordings that were active when the SDK stopped */
+  interruptedRecordings: RecordingSession[];
+}
+
+/**
+ * Payload of `auto-record-decision`, emitted for every meeting detected
+ * while the auto-record policy is enabled
+ */
+export interface AutoRecordDecision {
+  window: MeetingWindow;
+  action: AutoRecordAction;
+  /** Matching rule; unset when the default action applied */
+  ruleIndex?: number;
+  ruleId?: string;
+  /** Human-readable explanation, e.g. for a tooltip */
+  reason: string;
+  /** For `record`: whether the recording started, and why not */
+  recordingStarted?: boolean;
+  error?: ApiError;
+}
+
+/**
+ * Payload of `quit-requested`, emitted when the app is quitting while
+ * recordings are active. Only sent if something subscribed to it; answer
+ * with respondToQuit() within `timeoutMs` or the quit proceeds.
+ */
+export interface QuitRequestedEvent {
+  requestId: string;
+  /** Recordings that will be stopped, oldest first */
+  recordings: RecordingSession[];
+  timeoutMs: number;
+}
+
+/**
+ * Payload of `recording-auto-paused`, emitted for each recording paused or
+ * stopped because the system suspended or the screen locked
+ */
+export interface RecordingAutoPausedEvent {
+  windowId: string;
+  window: MeetingWindow;
+  action: 'pause' | 'stop';
+  reason: 'suspend' | 'lock-screen';
+  /** Set when pausing or stopping failed */
+  error?: ApiError;
+}
+
+/**
+ * Payload of `recording-auto-resumed`, emitted when a recording paused by
+ * a power event resumes on wake or unlock
+ */
+export interface RecordingAutoResumedEvent {
+  windowId: string;
+  window: MeetingWindow;
+  reason: 'resume' | 'unlock-screen';
+  /** Set when resuming failed */
+  error?: ApiError;
+}
+
+/**
+ * Payload of `recording-auto-stopped`, emitted when an auto-stop safeguard
+ * stops a recording
+ */
+export interface RecordingAutoStoppedEvent {
+  windowId: string;
+  window: MeetingWindow;
+  reason: 'meeting-closed' | 'max-duration' | 'capture-lost';
+  /** Set when stopping failed */
+  error?: ApiError;
+}
+
+/**
+ * Payload of `transcript-updated`, emitted whenever a transcript segment is
+ * added or replaced
+ */
+export interface TranscriptUpdatedEvent {
+  windowId: string;
+  window: MeetingWindow;
+  segment: TranscriptSegment;
+}
+
+/**
+ * Payload of `participants-changed`: the whole roster after a change
+ */
+export interface ParticipantsChangedEvent extends ParticipantRoster {
+  /** e.g. `join`, `leave`, `update`, `webcam_on`, or `capture` for capture status changes */
+  change: string;
+  /** Participant the change is about; unset for capture status changes */
+  participantId?: number;
+}
+
+/**
+ * Events synthesized by the plugin rather than forwarded from the SDK
+ */
+export type PluginEventTypeToPayloadMap = {
+  'sdk-recovered': SdkRecoveredEvent;
+  'sdk-recovery-failed': SdkRecoveryFailedEvent;
+  'auto-record-decision': AutoRecordDecision;
+  'quit-requested': QuitRequestedEvent;
+  'recording-auto-paused': RecordingAutoPausedEvent;
+  'recording-auto-resumed': RecordingAutoResumedEvent;
+  'recording-auto-stopped': RecordingAutoStoppedEvent;
+  'transcript-updated': TranscriptUpdatedEvent;
+  'participants-changed': ParticipantsChangedEvent;
+  'transcript-match': TranscriptMatchEvent;
+};
+
+export type RecallDesktopEventMap = EventTypeToPayloadMap & PluginEventTypeToPayloadMap;
+
+export type RecallSdkEventType = keyof RecallDesktopEventMap;
 
-export type RecallSdkEventPayload<T extends RecallSdkEventType> = EventTypeToPayloadMap[T];
+export type RecallSdkEventPayload<T extends RecallSdkEventType> = RecallDesktopEventMap[T];
 
 export interface PrepareDesktopAudioRecordingConfig {
   [key: string]: any;
 }
 
+/**
+ * Event subscription options
+ */
+export interface SubscribeOptions {
+  /**
+   * Replay the last known state when subscribing. `true` replays everything
+   * the plugin has buffered for the event type (for `meeting-detected`, every
+   * meeting that is still open); a number replays at most that many events.
+   */
+  replay?: boolean | number;
+}
+
 /**
  * Event handler function type
  */
@@ -80,6 +651,7 @@ export type EventHandler<T = unknown> = (data: T) => void;
 export class RecallDesktopClient {
   private api: RecallDesktopApi | null = null;
   private eventUnsubscribers = new Map<string, () => void>();
+  private strictClient: StrictRecallDesktopClient | null = null;
 
   constructor() {
     // Check if running in ToDesktop environment
@@ -92,6 +664,18 @@ export class RecallDesktopClient {
     }
   }
 
+  /**
+   * Throwing view of this client: methods resolve with the unwrapped
+   * response data and reject with typed errors (e.g. PermissionMissingError)
+   * instead of returning `{ success: false }`
+   */
+  get strict(): StrictRecallDesktopClient {
+    if (!this.strictClient) {
+      this.strictClient = new StrictRecallDesktopClient(this);
+    }
+    return this.strictClient;
+  }
+
   /**
    * Check if the plugin is available
    * @returns true if plugin is available, false otherwise
@@ -103,11 +687,11 @@ export class RecallDesktopClient {
   /**
    * Initialize the Recall SDK
    * @returns Promise resolving to initialization result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async initSdk(): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.initSdk();
   }
@@ -115,11 +699,11 @@ export class RecallDesktopClient {
   /**
    * Shutdown the Recall SDK
    * @returns Promise resolving to shutdown result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async shutdownSdk(): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     
     // Clean up event listeners
@@ -131,25 +715,33 @@ export class RecallDesktopClient {
   /**
    * Get current plugin and SDK status
    * @returns Promise resolving to plugin status
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
+   * @throws SenderNotAllowedError if the sender policy refuses this window
    */
   async getStatus(): Promise<PluginStatus> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
+    }
+    const status = await this.api.getStatus();
+    if ('success' in status) {
+      throw createRecallError(
+        status.error ?? { code: 'UNKNOWN_ERROR', message: status.message, retryable: false }
+      );
     }
-    return this.api.getStatus();
+    return status;
   }
 
   /**
    * Start recording a meeting
    * @param windowId The meeting window ID
-   * @param uploadToken Upload token from your backend
+   * @param uploadToken Upload token from your backend; omit it when the plugin's
+   * upload token endpoint preference is set
    * @returns Promise resolving to recording start result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
-  async startRecording(windowId: string, uploadToken: string): Promise<ApiResponse> {
+  async startRecording(windowId: string, uploadToken?: string): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.startRecording(windowId, uploadToken);
   }
@@ -158,11 +750,11 @@ export class RecallDesktopClient {
    * Stop recording a meeting
    * @param windowId The meeting window ID
    * @returns Promise resolving to recording stop result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async stopRecording(windowId: string): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.stopRecording(windowId);
   }
@@ -171,11 +763,11 @@ export class RecallDesktopClient {
    * Pause recording a meeting
    * @param windowId The meeting window ID
    * @returns Promise resolving to recording pause result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async pauseRecording(windowId: string): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.pauseRecording(windowId);
   }
@@ -184,11 +776,11 @@ export class RecallDesktopClient {
    * Resume recording a meeting
    * @param windowId The meeting window ID
    * @returns Promise resolving to recording resume result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async resumeRecording(windowId: string): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.resumeRecording(windowId);
   }
@@ -197,12 +789,12 @@ export class RecallDesktopClient {
    * Upload a completed recording
    * @param windowId The meeting window ID
    * @returns Promise resolving to the compatibility no-op result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    * @deprecated Recall now streams recordings during capture. This method is retained for compatibility.
    */
   async uploadRecording(windowId: string): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.uploadRecording(windowId);
   }
@@ -211,13 +803,13 @@ export class RecallDesktopClient {
    * Prepare desktop audio recording for non-meeting audio capture
    * @param config Optional SDK desktop audio preparation config
    * @returns Promise resolving to desktop audio preparation result with windowId
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async prepareDesktopAudioRecording(
     config?: PrepareDesktopAudioRecordingConfig
   ): Promise<ApiResponse<{ windowId: string }>> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.prepareDesktopAudioRecording(config);
   }
@@ -226,24 +818,38 @@ export class RecallDesktopClient {
    * Request a specific permission from the user
    * @param permission The permission to request
    * @returns Promise resolving to permission request result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async requestPermission(permission: PermissionType): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.requestPermission(permission);
   }
 
   /**
-   * Update plugin configuration
+   * Get the raw permission status strings last reported by the SDK.
+   * Permissions the SDK has not reported on yet are omitted.
+   * @returns Promise resolving to a map of permission to status
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getPermissionStatus(): Promise<ApiResponse<PermissionStatusMap>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getPermissionStatus();
+  }
+
+  /**
+   * Update plugin configuration. Changes are persisted and survive restarts
+   * until resetConfig() is called.
    * @param config Configuration updates
    * @returns Promise resolving to update result
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async setConfig(config: Partial<RecallSdkConfig>): Promise<ApiResponse> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.setConfig(config);
   }
@@ -251,31 +857,287 @@ export class RecallDesktopClient {
   /**
    * Get current plugin configuration
    * @returns Promise resolving to current configuration
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   async getConfig(): Promise<ApiResponse<RecallSdkConfig>> {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.getConfig();
   }
 
+  /**
+   * Drop configuration set through setConfig(), reverting to the plugin
+   * preferences and defaults
+   * @returns Promise resolving to the resulting configuration
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async resetConfig(): Promise<ApiResponse<RecallSdkConfig>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.resetConfig();
+  }
+
+  /**
+   * Set the headers and body the plugin sends to its upload token endpoint,
+   * e.g. the signed-in user's credentials and the recording_config
+   * @param request Headers and JSON body for every token request
+   * @returns Promise resolving to the update result
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async setUploadTokenRequest(request: UploadTokenRequestOptions): Promise<ApiResponse> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.setUploadTokenRequest(request);
+  }
+
+  /**
+   * Get the meetings the SDK currently reports as open
+   * @returns Promise resolving to the detected meeting windows
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getDetectedMeetings(): Promise<ApiResponse<MeetingWindow[]>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getDetectedMeetings();
+  }
+
+  /**
+   * Read recent plugin and SDK log entries, oldest first. Entries are read
+   * from the plugin's rotating log files, so they include previous runs.
+   * @param filter Minimum level, subsystem, windowId and number of entries to return
+   * @returns Promise resolving to the matching log entries
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getLogs(filter?: LogFilter): Promise<ApiResponse<LogEntry[]>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getLogs(filter);
+  }
+
+  /**
+   * Export a diagnostics bundle for support tickets: plugin version, config,
+   * status, permissions, recordings, subscriptions, recent events, errors and
+   * logs, as JSON with upload tokens and other secrets redacted
+   * @param options Pass `{ save: true }` to let the user save the bundle to a file
+   * @returns Promise resolving to the bundle bytes, or where it was saved
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async exportDiagnostics(options?: ExportDiagnosticsOptions): Promise<ApiResponse<DiagnosticsExport>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.exportDiagnostics(options);
+  }
+
+  /**
+   * Dump the accessibility tree of a running application (e.g. "zoom.us"),
+   * for troubleshooting meeting detection. Disabled unless the debugTools
+   * preference is enabled.
+   * @param procName Process name of the application
+   * @returns Promise resolving to the SDK's dump
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async dumpAXTree(procName: string): Promise<ApiResponse<any>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.dumpAXTree(procName);
+  }
+
+  /**
+   * Dump every application the SDK can see, for troubleshooting meeting
+   * detection. Disabled unless the debugTools preference is enabled.
+   * @returns Promise resolving to the SDK's dump
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async dumpAllApplications(): Promise<ApiResponse<any>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.dumpAllApplications();
+  }
+
+  /**
+   * Get every recording session tracked by the plugin, including ones
+   * started from other windows or before this page was loaded
+   * @returns Promise resolving to the tracked recording sessions
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getRecordings(): Promise<ApiResponse<RecordingSession[]>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getRecordings();
+  }
+
+  /**
+   * Get the recording session tracked for a meeting window
+   * @param windowId The meeting window ID
+   * @returns Promise resolving to the recording session, or null if none is tracked
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getRecording(windowId: string): Promise<ApiResponse<RecordingSession | null>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getRecording(windowId);
+  }
+
+  /**
+   * Get finished recordings from the plugin's local history journal, most
+   * recent first. Works offline, e.g. for a "recent meetings" list.
+   * @param query Filter by end time and platform, and cap the number of entries
+   * @returns Promise resolving to the matching history entries
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getRecordingHistory(
+    query?: RecordingHistoryQuery
+  ): Promise<ApiResponse<RecordingHistoryEntry[]>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getRecordingHistory(query);
+  }
+
+  /**
+   * Get the transcript the plugin assembled for a meeting window from
+   * realtime transcript events. Still available after the recording ended.
+   * @param windowId The meeting window ID
+   * @returns Promise resolving to the transcript, or null if none was recorded
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getTranscript(windowId: string): Promise<ApiResponse<Transcript | null>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getTranscript(windowId);
+  }
+
+  /**
+   * Export a meeting window's transcript as SRT, WebVTT, Markdown or JSON
+   * @param windowId The meeting window ID
+   * @param format `srt`, `vtt`, `markdown` or `json`
+   * @returns Promise resolving to a suggested file name and the content
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async exportTranscript(windowId: string, format: TranscriptFormat): Promise<ApiResponse<TranscriptExport>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.exportTranscript(windowId, format);
+  }
+
+  /**
+   * Get who is (and was) in a meeting: join and leave times, host flags,
+   * and whether each participant is speaking, on camera or sharing
+   * @param windowId The meeting window ID
+   * @returns Promise resolving to the roster, or null if none was tracked
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getParticipants(windowId: string): Promise<ApiResponse<ParticipantRoster | null>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getParticipants(windowId);
+  }
+
+  /**
+   * Get post-call analytics for a meeting: talk time, words and interruptions per
+   * speaker, overlapping speech, silence gaps, and recorded versus paused time.
+   * Computed locally while the window's data is in memory, then read from the
+   * recording history.
+   * @param windowId The meeting window ID
+   * @returns Promise resolving to the analytics, or null if nothing is known about the window
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getMeetingAnalytics(windowId: string): Promise<ApiResponse<MeetingAnalytics | null>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getMeetingAnalytics(windowId);
+  }
+
+  /**
+   * Add a transcript watch rule, or replace the rule with the same id. Rules are
+   * matched in the main process against every final transcript segment and each
+   * match is broadcast as a `transcript-match` event. Rules last until removed or
+   * the app quits; at most 100 can be set.
+   * @param rule The rule; set exactly one of `phrases` or `pattern`
+   * @returns Promise resolving to the stored rule
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async setTranscriptRule(rule: TranscriptRule): Promise<ApiResponse<TranscriptRule>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.setTranscriptRule(rule);
+  }
+
+  /**
+   * Remove a transcript watch rule
+   * @param ruleId The rule ID
+   * @returns Promise resolving to the operation result
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async removeTranscriptRule(ruleId: string): Promise<ApiResponse> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.removeTranscriptRule(ruleId);
+  }
+
+  /**
+   * List the transcript watch rules
+   * @returns Promise resolving to every rule, in the order they were added
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async getTranscriptRules(): Promise<ApiResponse<TranscriptRule[]>> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.getTranscriptRules();
+  }
+
+  /**
+   * Answer a `quit-requested` event, e.g. after asking the user whether to
+   * stop their recording and quit
+   * @param requestId The `requestId` from the event
+   * @param proceed false to cancel the quit and keep recording
+   * @returns Promise resolving to the operation result
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  async respondToQuit(requestId: string, proceed: boolean): Promise<ApiResponse> {
+    if (!this.api) {
+      throw new PluginUnavailableError();
+    }
+    return this.api.respondToQuit(requestId, proceed);
+  }
+
   /**
    * Subscribe to SDK events
    * @param eventType The type of event to listen for
    * @param callback Function to call when event occurs
+   * @param options Subscription options, e.g. `{ replay: true }` to receive the last known state
    * @returns Function to unsubscribe from the event
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   addEventListener<K extends RecallSdkEventType>(
     eventType: K,
-    callback: EventHandler<RecallSdkEventPayload<K>>
+    callback: EventHandler<RecallSdkEventPayload<K>>,
+    options?: SubscribeOptions
   ): () => void {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
 
-    const unsubscribe = this.api.addEventListener(eventType, callback as (data: any) => void);
+    const unsubscribe = options
+      ? this.api.addEventListener(eventType, callback as (data: any) => void, options)
+      : this.api.addEventListener(eventType, callback as (data: any) => void);
     const key = `${eventType}-${Date.now()}-${Math.random()}`;
     this.eventUnsubscribers.set(key, unsubscribe);
 
@@ -286,6 +1148,42 @@ export class RecallDesktopClient {
     };
   }
 
+  /**
+   * Subscribe to realtime events by name, with the payload typed for that event.
+   * Other realtime events, and payloads missing their `data.data` object, are skipped, as
+   * are transcripts without a `words` array and participant events without a `participant`.
+   * @param eventName The realtime event name, e.g. `transcript.data` or `participant_events.join`
+   * @param handler Function to call with each matching event
+   * @param options Subscription options passed to addEventListener
+   * @returns Function to unsubscribe
+   * @throws PluginUnavailableError if plugin is not available
+   */
+  onRealtime<E extends RealtimeEventName>(
+    eventName: E,
+    handler: EventHandler<TypedRealtimeEvent<E>>,
+    options?: SubscribeOptions
+  ): () => void {
+    return this.addEventListener(
+      'realtime-event',
+      (evt) => {
+        if (!isRealtimeEvent(evt, eventName)) {
+          return;
+        }
+        if (
+          (eventName === 'transcript.data' || eventName === 'transcript.partial_data') &&
+          !isTranscriptRealtimeEvent(evt)
+        ) {
+          return;
+        }
+        if (eventName.startsWith('participant_events.') && !isParticipantRealtimeEvent(evt)) {
+          return;
+        }
+        handler(evt);
+      },
+      options
+    );
+  }
+
   /**
    * Remove all event listeners managed by this client instance
    */
@@ -297,11 +1195,11 @@ export class RecallDesktopClient {
   /**
    * Get plugin version
    * @returns Plugin version string
-   * @throws Error if plugin is not available
+   * @throws PluginUnavailableError if plugin is not available
    */
   getVersion(): string {
     if (!this.api) {
-      throw new Error('Recall Desktop SDK plugin is not available. Make sure you are running in ToDesktop.');
+      throw new PluginUnavailableError();
     }
     return this.api.getVersion();
   }
@@ -314,6 +1212,51 @@ export const recallDesktop = new RecallDesktopClient();
 // Export the client class for custom instantiation
 export default RecallDesktopClient;
 
+export {
+  RecallDesktopError,
+  PluginUnavailableError,
+  PluginDisabledError,
+  SdkNotReadyError,
+  PermissionMissingError,
+  InvalidUploadTokenError,
+  WindowNotFoundError,
+  InvalidRequestError,
+  SenderNotAllowedError,
+  DebugToolsDisabledError,
+  UploadTokenUnavailableError,
+  MeetingBlockedError,
+  createRecallError,
+} from './errors';
+export type { ApiError, RecallErrorCode } from './errors';
+export { StrictRecallDesktopClient, unwrapResponse } from './strict';
+export {
+  REALTIME_EVENT_NAMES,
+  isKnownRealtimeEvent,
+  isRealtimeEvent,
+  isTranscriptRealtimeEvent,
+  isParticipantRealtimeEvent,
+} from './realtime';
+export type {
+  RealtimeEventName,
+  TranscriptRealtimeEventName,
+  ParticipantRealtimeEventName,
+  RealtimeTimestamp,
+  RealtimeParticipant,
+  RealtimeWord,
+  RealtimeResource,
+  TranscriptRealtimeData,
+  TranscriptProviderRealtimeData,
+  ParticipantEventRealtimeData,
+  ChatMessageRealtimeData,
+  AudioMixedRawRealtimeData,
+  AudioSeparateRawRealtimeData,
+  VideoSeparatePngRealtimeData,
+  RealtimeEventDataMap,
+  TypedRealtimeEvent,
+  RealtimeEventOf,
+  KnownRealtimeEvent,
+} from './realtime';
+
 // Re-export types for convenience
 export type { RecallDesktopApi } from './generated/preload';
 export type {
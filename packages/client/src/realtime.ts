@@ -0,0 +1,203 @@
+/**
+ * Typed realtime events for the ToDesktop Recall Desktop SDK client
+ *
+ * The SDK delivers every realtime endpoint event as a `realtime-event` with
+ * `{ event: string; data: any }`. The types below describe the documented
+ * events so that `recallDesktop.onRealtime()` and the guards can narrow the
+ * payload by event name. Fields follow the Recall.ai realtime event schema
+ * and keep its snake_case names.
+ */
+
+import type { RealtimeEvent, RecallAiSdkWindow } from './generated/recallai-desktop-sdk';
+
+/**
+ * Realtime events the client has typings for
+ */
+export const REALTIME_EVENT_NAMES = [
+  'transcript.data',
+  'transcript.partial_data',
+  'transcript.provider_data',
+  'participant_events.join',
+  'participant_events.leave',
+  'participant_events.update',
+  'participant_events.speech_on',
+  'participant_events.speech_off',
+  'participant_events.webcam_on',
+  'participant_events.webcam_off',
+  'participant_events.screenshare_on',
+  'participant_events.screenshare_off',
+  'participant_events.chat_message',
+  'audio_mixed_raw.data',
+  'audio_separate_raw.data',
+  'video_separate_png.data',
+] as const;
+
+export type RealtimeEventName = (typeof REALTIME_EVENT_NAMES)[number];
+
+export type TranscriptRealtimeEventName = Extract<RealtimeEventName, `transcript.${string}`>;
+
+export type ParticipantRealtimeEventName = Extract<RealtimeEventName, `participant_events.${string}`>;
+
+export interface RealtimeTimestamp {
+  /** Seconds since the recording started */
+  relative: number;
+  /** ISO 8601 wall clock time */
+  absolute: string;
+}
+
+export interface RealtimeParticipant {
+  id: number;
+  name: string | null;
+  is_host: boolean;
+  platform: string | null;
+  extra_data: Record<string, unknown> | null;
+}
+
+export interface RealtimeWord {
+  text: string;
+  start_timestamp: RealtimeTimestamp | null;
+  end_timestamp: RealtimeTimestamp | null;
+}
+
+/**
+ * A Recall resource the event belongs to, e.g. the recording or transcript
+ */
+export interface RealtimeResource {
+  id: string;
+  metadata: Record<string, string | null>;
+}
+
+export interface TranscriptRealtimeData {
+  words: RealtimeWord[];
+  participant: RealtimeParticipant;
+}
+
+export interface TranscriptProviderRealtimeData {
+  /** Raw message from the transcription provider */
+  payload: unknown;
+}
+
+export interface ParticipantEventRealtimeData {
+  participant: RealtimeParticipant;
+  timestamp: RealtimeTimestamp;
+  data: null;
+}
+
+export interface ChatMessageRealtimeData {
+  participant: RealtimeParticipant;
+  timestamp: RealtimeTimestamp;
+  data: {
+    text: string;
+    /** `everyone`, `only_bot` or `everyone_but_host` */
+    to: string;
+  };
+}
+
+export interface AudioMixedRawRealtimeData {
+  /** Base64 encoded mono 16 bit signed little-endian PCM at 16 kHz */
+  buffer: string;
+  timestamp: RealtimeTimestamp;
+}
+
+export interface AudioSeparateRawRealtimeData extends AudioMixedRawRealtimeData {
+  participant: RealtimeParticipant;
+}
+
+export interface VideoSeparatePngRealtimeData {
+  /** Base64 encoded PNG frame */
+  buffer: string;
+  timestamp: RealtimeTimestamp;
+  type: 'webcam' | 'screenshare';
+  participant: RealtimeParticipant;
+}
+
+/**
+ * Inner `data.data` payload for each realtime event
+ */
+export interface RealtimeEventDataMap {
+  'transcript.data': TranscriptRealtimeData;
+  'transcript.partial_data': TranscriptRealtimeData;
+  'transcript.provider_data': TranscriptProviderRealtimeData;
+  'participant_events.join': ParticipantEventRealtimeData;
+  'participant_events.leave': ParticipantEventRealtimeData;
+  'participant_events.update': ParticipantEventRealtimeData;
+  'participant_events.speech_on': ParticipantEventRealtimeData;
+  'participant_events.speech_off': ParticipantEventRealtimeData;
+  'participant_events.webcam_on': ParticipantEventRealtimeData;
+  'participant_events.webcam_off': ParticipantEventRealtimeData;
+  'participant_events.screenshare_on': ParticipantEventRealtimeData;
+  'participant_events.screenshare_off': ParticipantEventRealtimeData;
+  'participant_events.chat_message': ChatMessageRealtimeData;
+  'audio_mixed_raw.data': AudioMixedRawRealtimeData;
+  'audio_separate_raw.data': AudioSeparateRawRealtimeData;
+  'video_separate_png.data': VideoSeparatePngRealtimeData;
+}
+
+/**
+ * A `realtime-event` payload narrowed to one event name
+ */
+export interface TypedRealtimeEvent<E extends RealtimeEventName = RealtimeEventName> {
+  window: RecallAiSdkWindow;
+  event: E;
+  data: {
+    data: RealtimeEventDataMap[E];
+    realtime_endpoint?: RealtimeResource;
+    recording?: RealtimeResource;
+    transcript?: RealtimeResource;
+    participant_events?: RealtimeResource;
+  };
+}
+
+/**
+ * Discriminated union of the typed events for the given names; switch on `event`
+ */
+export type RealtimeEventOf<E extends RealtimeEventName> = { [K in E]: TypedRealtimeEvent<K> }[E];
+
+/**
+ * Discriminated union of every typed realtime event
+ */
+export type KnownRealtimeEvent = RealtimeEventOf<RealtimeEventName>;
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+const KNOWN_EVENTS: ReadonlySet<string> = new Set(REALTIME_EVENT_NAMES);
+
+/**
+ * Whether a `realtime-event` payload is one of the documented events, with
+ * the `data.data` object the event carries
+ */
+export function isKnownRealtimeEvent(evt: RealtimeEvent): evt is KnownRealtimeEvent {
+  return isObject(evt) && KNOWN_EVENTS.has(evt.event) && isObject(evt.data) && isObject(evt.data.data);
+}
+
+/**
+ * Whether a `realtime-event` payload is one of the given events
+ * @example if (isRealtimeEvent(evt, 'participant_events.join', 'participant_events.leave')) { ... }
+ */
+export function isRealtimeEvent<E extends RealtimeEventName>(
+  evt: RealtimeEvent,
+  ...eventNames: E[]
+): evt is RealtimeEventOf<E> {
+  return isKnownRealtimeEvent(evt) && (eventNames as string[]).includes(evt.event);
+}
+
+/**
+ * Whether a `realtime-event` payload is a final or partial transcript with words
+ */
+export function isTranscriptRealtimeEvent(
+  evt: RealtimeEvent
+): evt is RealtimeEventOf<'transcript.data' | 'transcript.partial_data'> {
+  return isRealtimeEvent(evt, 'transcript.data', 'transcript.partial_data') && Array.isArray(evt.data.data.words);
+}
+
+/**
+ * Whether a `realtime-event` payload is a `participant_events.*` event
+ */
+export function isParticipantRealtimeEvent(evt: RealtimeEvent): evt is RealtimeEventOf<ParticipantRealtimeEventName> {
+  return (
+    isKnownRealtimeEvent(evt) &&
+    evt.event.startsWith('participant_events.') &&
+    'participant' in evt.data.data &&
+    isObject(evt.data.data.participant)
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Throwing facade for the ToDesktop Recall Desktop SDK client
+ *
+ * Methods resolve with the unwrapped `data` of the plugin response and
+ * reject with typed errors (see ./errors) instead of returning
+ * `{ success: false }`.
+ */
+
+import { createRecallError } from './errors';
+import type {
+  ApiResponse,
+  DiagnosticsExport,
+  ExportDiagnosticsOptions,
+  LogEntry,
+  LogFilter,
+  MeetingAnalytics,
+  MeetingWindow,
+  ParticipantRoster,
+  PermissionStatusMap,
+  PermissionType,
+  PluginStatus,
+  PrepareDesktopAudioRecordingConfig,
+  RecallDesktopClient,
+  RecallSdkConfig,
+  RecordingHistoryEntry,
+  RecordingHistoryQuery,
+  RecordingSession,
+  Transcript,
+  TranscriptExport,
+  TranscriptFormat,
+  TranscriptRule,
+  UploadTokenRequestOptions,
+} from './index';
+
+/**
+ * Resolve with the response data, or throw the typed error for a failure
+ */
+export const unwrapResponse = <T>(response: ApiResponse<T>): T => {
+  if (!response.success) {
+    throw createRecallError(
+      response.error ?? {
+        code: 'UNKNOWN_ERROR',
+        message: response.message,
+        retryable: false,
+      }
+    );
+  }
+  return response.data as T;
+};
+
+/**
+ * Strict (throwing) view of a RecallDesktopClient.
+ * Obtain one through `recallDesktop.strict`.
+ */
+export class StrictRecallDesktopClient {
+  constructor(private readonly client: RecallDesktopClient) {}
+
+  async initSdk(): Promise<void> {
+    unwrapResponse(await this.client.initSdk());
+  }
+
+  async shutdownSdk(): Promise<void> {
+    unwrapResponse(await this.client.shutdownSdk());
+  }
+
+  async getStatus(): Promise<PluginStatus> {
+    return this.client.getStatus();
+  }
+
+  async startRecording(windowId: string, uploadToken?: string): Promise<void> {
+    unwrapResponse(await this.client.startRecording(windowId, uploadToken));
+  }
+
+  async stopRecording(windowId: string): Promise<void> {
+    unwrapResponse(await this.client.stopRecording(windowId));
+  }
+
+  async pauseRecording(windowId: string): Promise<void> {
+    unwrapResponse(await this.client.pauseRecording(windowId));
+  }
+
+  async resumeRecording(windowId: string): Promise<void> {
+    unwrapResponse(await this.client.resumeRecording(windowId));
+  }
+
+  /**
+   * @deprecated Recall now streams recordings during capture. This method is retained for compatibility.
+   */
+  async uploadRecording(windowId: string): Promise<void> {
+    unwrapResponse(await this.client.uploadRecording(windowId));
+  }
+
+  async prepareDesktopAudioRecording(
+    config?: PrepareDesktopAudioRecordingConfig
+  ): Promise<{ windowId: string }> {
+    return unwrapResponse(await this.client.prepareDesktopAudioRecording(config));
+  }
+
+  async requestPermission(permission: PermissionType): Promise<void> {
+    unwrapResponse(await this.client.requestPermission(permission));
+  }
+
+  async getPermissionStatus(): Promise<PermissionStatusMap> {
+    return unwrapResponse(await this.client.getPermissionStatus());
+  }
+
+  async setConfig(config: Partial<RecallSdkConfig>): Promise<void> {
+    unwrapResponse(await this.client.setConfig(config));
+  }
+
+  async getConfig(): Promise<RecallSdkConfig> {
+    return unwrapResponse(await this.client.getConfig());
+  }
+
+  async resetConfig(): Promise<RecallSdkConfig> {
+    return unwrapResponse(await this.client.resetConfig());
+  }
+
+  async setUploadTokenRequest(request: UploadTokenRequestOptions): Promise<void> {
+    unwrapResponse(await this.client.setUploadTokenRequest(request));
+  }
+
+  async getDetectedMeetings(): Promise<MeetingWindow[]> {
+    return unwrapResponse(await this.client.getDetectedMeetings());
+  }
+
+  async getLogs(filter?: LogFilter): Promise<LogEntry[]> {
+    return unwrapResponse(await this.client.getLogs(filter));
+  }
+
+  async exportDiagnostics(options?: ExportDiagnosticsOptions): Promise<DiagnosticsExport> {
+    return unwrapResponse(await this.client.exportDiagnostics(options));
+  }
+
+  async dumpAXTree(procName: string): Promise<any> {
+    return unwrapResponse(await this.client.dumpAXTree(procName));
+  }
+
+  async dumpAllApplications(): Promise<any> {
+    return unwrapResponse(await this.client.dumpAllApplications());
+  }
+
+  async getRecordings(): Promise<RecordingSession[]> {
+    return unwrapResponse(await this.client.getRecordings());
+  }
+
+  async getRecording(windowId: string): Promise<RecordingSession | null> {
+    return unwrapResponse(await this.client.getRecording(windowId));
+  }
+
+  async getRecordingHistory(query?: RecordingHistoryQuery): Promise<RecordingHistoryEntry[]> {
+    return unwrapResponse(await this.client.getRecordingHistory(query));
+  }
+
+  async getTranscript(windowId: string): Promise<Transcript | null> {
+    return unwrapResponse(await this.client.getTranscript(windowId));
+  }
+
+  async exportTranscript(windowId: string, format: TranscriptFormat): Promise<TranscriptExport> {
+    return unwrapResponse(await this.client.exportTranscript(windowId, format));
+  }
+
+  async getParticipants(windowId: string): Promise<ParticipantRoster | null> {
+    return unwrapResponse(await this.client.getParticipants(windowId));
+  }
+
+  async getMeetingAnalytics(windowId: string): Promise<MeetingAnalytics | null> {
+    return unwrapResponse(await this.client.getMeetingAnalytics(windowId));
+  }
+
+  async setTranscriptRule(rule: TranscriptRule): Promise<TranscriptRule> {
+    return unwrapResponse(await this.client.setTranscriptRule(rule));
+  }
+
+  async removeTranscriptRule(ruleId: string): Promise<void> {
+    unwrapResponse(await this.client.removeTranscriptRule(ruleId));
+  }
+
+  async getTranscriptRules(): Promise<TranscriptRule[]> {
+    return unwrapResponse(await this.client.getTranscriptRules());
+  }
+
+  async respondToQuit(requestId: string, proceed: boolean): Promise<void> {
+    unwrapResponse(await this.client.respondToQuit(requestId, proceed));
+  }
+}
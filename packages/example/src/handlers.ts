@@ -1,13 +1,5 @@
-import { recallDesktop, type MeetingWindow } from '@todesktop/client-recall';
-import {
-  TranscriptRealtimeEnvelope,
-  describeError,
-  errorLog,
-  getUploadTokenFromBackend,
-  isTranscriptEvent,
-  log,
-  warn,
-} from './utils';
+import { recallDesktop, type MeetingWindow, type TypedRealtimeEvent } from '@todesktop/client-recall';
+import { describeError, errorLog, getUploadTokenFromBackend, log, warn } from './utils';
 import { getActiveRecordingWindowId, setActiveRecordingWindowId } from './state';
 
 interface MeetingDetectedDeps {
@@ -42,12 +34,7 @@ export const createMeetingDetectedHandler = ({ setStatus }: MeetingDetectedDeps)
       const uploadToken = await getUploadTokenFromBackend();
       log('Received upload token, starting recording…');
 
-      const result = await recallDesktop.startRecording(window.id, uploadToken);
-      log('startRecording result:', result);
-
-      if (!result.success) {
-        throw new Error(result.message ?? 'Unknown error starting recording');
-      }
+      await recallDesktop.strict.startRecording(window.id, uploadToken);
 
       setActiveRecordingWindowId(window.id);
       setStatus(`Recording started (${window.platform ?? 'unknown'}). Waiting for transcript data…`);
@@ -59,20 +46,11 @@ export const createMeetingDetectedHandler = ({ setStatus }: MeetingDetectedDeps)
 };
 
 export const createRealtimeHandler = ({ appendTranscriptLine }: RealtimeDeps) => {
-  return (payload: TranscriptRealtimeEnvelope) => {
-    if (!isTranscriptEvent(payload)) {
-      return;
-    }
-
+  return (payload: TypedRealtimeEvent<'transcript.data'>) => {
     log('Transcript event received:', payload);
 
-    const transcriptData = payload.data?.data;
-    if (!transcriptData) {
-      warn('Transcript event missing data payload');
-      return;
-    }
-
-    const words = transcriptData.words?.map((word) => word.text?.trim()).filter(Boolean) ?? [];
+    const transcriptData = payload.data.data;
+    const words = transcriptData.words.map((word) => word.text?.trim()).filter(Boolean);
     if (words.length === 0) {
       warn('Transcript event contained no words');
       return;
@@ -67,7 +67,7 @@ const initialise = async () => {
 
   setStatus("Waiting for meeting detection…");
 
-  recallDesktop.addEventListener("realtime-event", handleRealtimeEvent);
+  recallDesktop.onRealtime("transcript.data", handleRealtimeEvent);
   recallDesktop.addEventListener("meeting-detected", handleMeetingDetected);
   recallDesktop.addEventListener("recording-started", handleRecordingStarted);
   recallDesktop.addEventListener("recording-ended", handleRecordingEnded);
@@ -21,32 +21,6 @@ export const describeError = (error: unknown): string => {
   return String(error);
 };
 
-export interface TimestampedWord {
-  text?: string | null;
-}
-
-export interface TranscriptParticipant {
-  name?: string | null;
-}
-
-export interface TranscriptPayload {
-  words?: TimestampedWord[];
-  participant?: TranscriptParticipant;
-}
-
-export interface TranscriptRealtimeEnvelope {
-  event: string;
-  data?: {
-    data?: TranscriptPayload;
-  };
-  window: MeetingWindow;
-}
-
-export const isTranscriptEvent = (
-  payload: TranscriptRealtimeEnvelope
-): payload is TranscriptRealtimeEnvelope & { event: "transcript.data" } =>
-  payload.event === "transcript.data";
-
 export const getUploadTokenFromBackend = async (): Promise<string> => {
   log("Fetching upload token from backend…");
 
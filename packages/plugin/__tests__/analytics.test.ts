@@ -0,0 +1,85 @@
+import { computeMeetingAnalytics } from '../src/analytics';
+
+const window = { id: 'win-1', platform: 'zoom', title: 'Weekly Standup' };
+
+let nextId = 1;
+const segment = (participantId: number, speaker: string, start: number, end: number, words: number, final = true) => ({
+  id: nextId++,
+  speaker,
+  participantId,
+  text: '',
+  words: Array.from({ length: words }, () => ({ text: 'word' })),
+  start,
+  end,
+  final,
+});
+
+const transcript = {
+  windowId: 'win-1',
+  window,
+  startedAt: 0,
+  updatedAt: 0,
+  segments: [
+    segment(1, 'Alice', 0, 30, 60),
+    segment(2, 'Unknown participant', 25, 40, 30),
+    segment(1, 'Alice', 50, 60, 20),
+    segment(2, 'Unknown participant', 61, 62, 9, false),
+  ],
+};
+
+const participant = (id: number, name: string) => ({
+  id,
+  name,
+  isHost: false,
+  present: true,
+  audio: false,
+  video: false,
+  screenshare: false,
+  updatedAt: 0,
+});
+
+const roster = {
+  windowId: 'win-1',
+  window,
+  participants: [participant(1, 'Alice'), participant(2, 'Bob'), participant(3, 'Carol')],
+  capture: {},
+  updatedAt: 0,
+};
+
+describe('meeting analytics', () => {
+  test('computes talk time, overlap, interruptions and silence gaps', () => {
+    const analytics = computeMeetingAnalytics('win-1', { transcript, roster }, 1000);
+
+    expect(analytics).toMatchObject({
+      windowId: 'win-1',
+      computedAt: 1000,
+      talkTimeSeconds: 50,
+      overlapSeconds: 5,
+      interruptions: 1,
+      words: 110,
+      wordsPerMinute: 132,
+      silenceGaps: { count: 1, totalSeconds: 10, longestSeconds: 10 },
+      recordedSeconds: 0,
+    });
+    expect(analytics.speakers).toEqual([
+      expect.objectContaining({ speaker: 'Alice', talkTimeSeconds: 40, talkTimePercent: 72.7, words: 80, wordsPerMinute: 120, interruptions: 0 }),
+      expect.objectContaining({ speaker: 'Bob', participantId: 2, talkTimeSeconds: 15, segments: 1, interruptions: 1 }),
+      expect.objectContaining({ speaker: 'Carol', talkTimeSeconds: 0, segments: 0 }),
+    ]);
+  });
+
+  test('splits recorded and paused time', () => {
+    const recording = {
+      startedAt: 0,
+      endedAt: 600000,
+      pauses: [{ pausedAt: 60000, resumedAt: 120000 }, { pausedAt: 570000 }],
+    };
+
+    expect(computeMeetingAnalytics('win-1', { recording })).toMatchObject({
+      recordedSeconds: 510,
+      pausedSeconds: 90,
+      speakers: [],
+    });
+    expect(computeMeetingAnalytics('win-1', { recording: { startedAt: 0 } }, 30000).recordedSeconds).toBe(30);
+  });
+});
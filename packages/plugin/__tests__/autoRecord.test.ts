@@ -0,0 +1,72 @@
+import { evaluateAutoRecord, matchesPattern } from '../src/autoRecord';
+import type { AutoRecordConfig } from '../src/shared';
+import { validateAutoRecordConfig } from '../src/validation';
+
+const zoom = { id: 'win-1', platform: 'zoom', url: 'https://acme.zoom.us/j/123?pwd=x', title: 'Weekly Standup' };
+const meet = { id: 'win-2', platform: 'google-meet', url: 'https://meet.google.com/abc-defg-hij', title: 'Interview: Jane' };
+
+const config: AutoRecordConfig = {
+  enabled: true,
+  defaultAction: 'ask',
+  rules: [
+    { id: 'no-interviews', titlePattern: 'interview*', action: 'ignore' },
+    {
+      id: 'acme-zoom',
+      platforms: ['Zoom'],
+      urlPattern: 'https://acme.zoom.us/*',
+      action: 'record',
+      recordingConfig: { transcript: { provider: { assembly_ai_v3_streaming: {} } } },
+    },
+  ],
+};
+
+describe('auto-record policy', () => {
+  test('matches wildcards against the whole value, ignoring case', () => {
+    expect(matchesPattern('https://acme.zoom.us/j/123', 'https://*.zoom.us/*')).toBe(true);
+    expect(matchesPattern('Weekly Standup', '*standup')).toBe(true);
+    expect(matchesPattern('https://acme.zoom.us.evil.com/j/1', 'https://*.zoom.us/*')).toBe(false);
+    expect(matchesPattern('1:1 (sync)', '1:1 (sync)')).toBe(true);
+    expect(matchesPattern('Acme x Globex', '*acme*globex')).toBe(true);
+    expect(matchesPattern('a.b', 'a?b')).toBe(false);
+  });
+
+  test('many wildcards against a near miss return quickly', () => {
+    const started = Date.now();
+    expect(matchesPattern('a'.repeat(2000), `${'*a'.repeat(200)}*b`)).toBe(false);
+    expect(matchesPattern(`${'a'.repeat(2000)}b`, `${'*a'.repeat(200)}*b`)).toBe(true);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  test('the first matching rule decides and explains why', () => {
+    const recorded = evaluateAutoRecord(zoom, config);
+    expect(recorded).toMatchObject({
+      action: 'record',
+      ruleIndex: 1,
+      ruleId: 'acme-zoom',
+      reason: 'Rule "acme-zoom" matched (platform in [Zoom], URL matches "https://acme.zoom.us/*")',
+    });
+    expect(recorded.rule?.recordingConfig).toEqual(config.rules[1].recordingConfig);
+
+    expect(evaluateAutoRecord(meet, config)).toMatchObject({ action: 'ignore', ruleId: 'no-interviews' });
+  });
+
+  test('falls back to the default action when no rule matches', () => {
+    const decision = evaluateAutoRecord({ id: 'win-3', platform: 'teams' }, config);
+
+    expect(decision).toEqual({
+      window: { id: 'win-3', platform: 'teams' },
+      action: 'ask',
+      reason: 'No rule matched; default action is "ask"',
+    });
+  });
+
+  test('validates rules and fills in defaults', () => {
+    expect(validateAutoRecordConfig({ enabled: true })).toEqual({ enabled: true, rules: [], defaultAction: 'ignore' });
+    expect(() => validateAutoRecordConfig({ rules: [{ action: 'maybe' }] })).toThrow(
+      expect.objectContaining({ code: 'VALIDATION_ERROR' })
+    );
+    expect(() => validateAutoRecordConfig({ rules: [{ action: 'record', platforms: [] }] })).toThrow(
+      'autoRecord.rules[0].platforms must be a non-empty array'
+    );
+  });
+});
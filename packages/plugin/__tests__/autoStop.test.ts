@@ -0,0 +1,114 @@
+import { AutoStopMonitor, DEFAULT_AUTO_STOP_CONFIG } from '../src/autoStop';
+import type { AutoStopConfig, RecordingSession } from '../src/shared';
+import { validateAutoStopConfig } from '../src/validation';
+
+const createMonitor = (config: Partial<AutoStopConfig> = {}) => {
+  const session: RecordingSession = { windowId: 'win-1', window: { id: 'win-1' }, state: 'recording', updatedAt: 1 };
+  const stopped: any[] = [];
+  const stopRecording = jest.fn(async () => {
+    session.state = 'ended';
+  });
+  const monitor = new AutoStopMonitor({
+    getConfig: () => ({ ...DEFAULT_AUTO_STOP_CONFIG, ...config }),
+    getRecording: (windowId) => (windowId === session.windowId ? session : undefined),
+    stopRecording,
+    onStopped: (event) => stopped.push(event),
+  });
+  return { monitor, session, stopped, stopRecording };
+};
+
+describe('auto-stop safeguards', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('stops a recording when its meeting closes', async () => {
+    const { monitor, stopped, stopRecording } = createMonitor();
+
+    monitor.meetingClosed('win-1');
+    await Promise.resolve();
+
+    expect(stopRecording).toHaveBeenCalledWith('win-1');
+    expect(stopped).toEqual([{ windowId: 'win-1', window: { id: 'win-1' }, reason: 'meeting-closed' }]);
+  });
+
+  test('leaves it running when the meeting-closed safeguard is off', async () => {
+    const { monitor, stopRecording } = createMonitor({ onMeetingClosed: false });
+
+    monitor.meetingClosed('win-1');
+    await Promise.resolve();
+
+    expect(stopRecording).not.toHaveBeenCalled();
+  });
+
+  test('stops a recording that exceeds the maximum duration', async () => {
+    const { monitor, stopped } = createMonitor({ maxDurationMinutes: 60 });
+    monitor.recordingStarted('win-1');
+
+    jest.advanceTimersByTime(59 * 60 * 1000);
+    expect(stopped).toHaveLength(0);
+
+    jest.advanceTimersByTime(60 * 1000);
+    await Promise.resolve();
+    expect(stopped.map((event) => event.reason)).toEqual(['max-duration']);
+  });
+
+  test('stops after capture is lost for longer than the grace period', async () => {
+    const { monitor, stopped, session } = createMonitor({ captureLossGraceSeconds: 30 });
+
+    monitor.captureStatusChanged('win-1', 'audio', false);
+    jest.advanceTimersByTime(20 * 1000);
+    monitor.captureStatusChanged('win-1', 'audio', true);
+    jest.advanceTimersByTime(60 * 1000);
+    expect(stopped).toHaveLength(0);
+
+    session.state = 'paused';
+    monitor.captureStatusChanged('win-1', 'video', false);
+    jest.advanceTimersByTime(30 * 1000);
+    await Promise.resolve();
+    expect(stopped).toHaveLength(0);
+
+    session.state = 'recording';
+    monitor.captureStatusChanged('win-1', 'video', true);
+    monitor.captureStatusChanged('win-1', 'video', false);
+    jest.advanceTimersByTime(30 * 1000);
+    await Promise.resolve();
+    expect(stopped.map((event) => event.reason)).toEqual(['capture-lost']);
+  });
+
+  test('restarts the grace period on resume when capture was lost during a pause', async () => {
+    const { monitor, stopped, session } = createMonitor({ captureLossGraceSeconds: 30 });
+
+    session.state = 'paused';
+    monitor.captureStatusChanged('win-1', 'audio', false);
+    monitor.captureStatusChanged('win-1', 'video', false);
+    monitor.captureStatusChanged('win-1', 'video', true);
+    jest.advanceTimersByTime(60 * 1000);
+    await Promise.resolve();
+    expect(stopped).toHaveLength(0);
+
+    session.state = 'recording';
+    monitor.recordingResumed('win-1');
+    jest.advanceTimersByTime(29 * 1000);
+    expect(stopped).toHaveLength(0);
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+    expect(stopped.map((event) => event.reason)).toEqual(['capture-lost']);
+  });
+
+  test('validates the configuration and fills in defaults', () => {
+    expect(validateAutoStopConfig({ maxDurationMinutes: 120 })).toEqual({
+      onMeetingClosed: true,
+      maxDurationMinutes: 120,
+      captureLossGraceSeconds: 0,
+    });
+    expect(() => validateAutoStopConfig({ captureLossGraceSeconds: -1 })).toThrow(
+      'autoStop.captureLossGraceSeconds must be an integer between 0 and 3600'
+    );
+  });
+});
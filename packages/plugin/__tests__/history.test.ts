@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { RecordingHistoryEntry, RecordingSession } from '../src/shared';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const loadHistory = () => {
+  let module!: typeof import('../src/history');
+  jest.isolateModules(() => {
+    module = require('../src/history');
+  });
+  return module;
+};
+
+const entry = (
+  windowId: string,
+  endedAt: number,
+  overrides: Partial<RecordingHistoryEntry> = {}
+): RecordingHistoryEntry => ({
+  id: `${windowId}-${endedAt}`,
+  windowId,
+  platform: 'zoom',
+  startedAt: endedAt - 60000,
+  endedAt,
+  pauses: [],
+  outcome: 'completed',
+  ...overrides,
+});
+
+describe('recording history', () => {
+  let dataDir = '';
+  let historyFile = '';
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recall-history-'));
+    historyFile = path.join(dataDir, 'history.jsonl');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  test('builds entries from ended sessions', () => {
+    const { toHistoryEntry, toFailedStartEntry } = loadHistory();
+    const session: RecordingSession = {
+      windowId: 'win-1',
+      state: 'ended',
+      window: { id: 'win-1', title: 'Standup', url: 'https://zoom.us/j/1', platform: 'zoom' },
+      startedAt: 1000,
+      endedAt: 5000,
+      updatedAt: 5000,
+      initiatorWebContentsId: 3,
+      pauses: [{ pausedAt: 2000, resumedAt: 3000 }],
+      lastError: 'audio device lost',
+    };
+
+    expect(toHistoryEntry(session, 'interrupted')).toEqual({
+      id: 'win-1-1000',
+      windowId: 'win-1',
+      platform: 'zoom',
+      title: 'Standup',
+      url: 'https://zoom.us/j/1',
+      startedAt: 1000,
+      endedAt: 5000,
+      pauses: [{ pausedAt: 2000, resumedAt: 3000 }],
+      initiatorWebContentsId: 3,
+      outcome: 'interrupted',
+      lastError: 'audio device lost',
+    });
+    const failed = toFailedStartEntry({ id: 'win-2', platform: 'teams' }, 'invalid upload token', 4);
+    expect(failed.startedAt).toBeUndefined();
+    expect(failed).toMatchObject({
+      windowId: 'win-2',
+      platform: 'teams',
+      outcome: 'failed',
+      lastError: 'invalid upload token',
+      initiatorWebContentsId: 4,
+    });
+  });
+
+  test('persists entries and queries them newest first', async () => {
+    const now = Date.now();
+    const first = loadHistory().recordingHistory;
+    await first.initialize(historyFile);
+    await first.append(entry('win-1', now - 3000));
+    await first.append(entry('win-2', now - 2000, { platform: 'google-meet' }));
+    await first.append(entry('win-3', now - 1000));
+
+    const { recordingHistory } = loadHistory();
+    await recordingHistory.initialize(historyFile);
+
+    expect(recordingHistory.query().map((item) => item.windowId)).toEqual(['win-3', 'win-2', 'win-1']);
+    expect(recordingHistory.query({ platform: 'zoom', limit: 1 }).map((item) => item.windowId)).toEqual(['win-3']);
+    expect(recordingHistory.query({ since: now - 2500 }).map((item) => item.windowId)).toEqual(['win-3', 'win-2']);
+  });
+
+  test('prunes by age and count and skips corrupt lines', async () => {
+    const now = Date.now();
+    await fs.writeFile(
+      historyFile,
+      [
+        JSON.stringify(entry('old', now - 100 * DAY_MS)),
+        JSON.stringify(entry('win-1', now - 3000)),
+        '{"windowId": "cut short',
+        JSON.stringify(entry('win-2', now - 2000)),
+        '',
+      ].join('\n')
+    );
+
+    const { recordingHistory } = loadHistory();
+    await recordingHistory.initialize(historyFile);
+    expect(recordingHistory.query().map((item) => item.windowId)).toEqual(['win-2', 'win-1']);
+
+    recordingHistory.setRetention({ maxEntries: 2 });
+    await recordingHistory.append(entry('win-3', now - 1000));
+    await recordingHistory.flush();
+
+    expect(recordingHistory.query().map((item) => item.windowId)).toEqual(['win-3', 'win-2']);
+    const lines = (await fs.readFile(historyFile, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).windowId)).toEqual(['win-2', 'win-3']);
+  });
+});
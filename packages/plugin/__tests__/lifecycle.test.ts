@@ -0,0 +1,89 @@
+import { SdkLifecycle } from '../src/lifecycle';
+
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('SdkLifecycle', () => {
+  test('concurrent init calls share one SDK initialization', async () => {
+    const lifecycle = new SdkLifecycle();
+    const gate = deferred();
+    const initialize = jest.fn(() => gate.promise);
+
+    const first = lifecycle.init(initialize);
+    const second = lifecycle.init(initialize);
+    expect(second).toBe(first);
+
+    await Promise.resolve();
+    expect(lifecycle.getState()).toBe('initializing');
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(initialize).toHaveBeenCalledTimes(1);
+    expect(lifecycle.getState()).toBe('ready');
+
+    await lifecycle.init(initialize);
+    expect(initialize).toHaveBeenCalledTimes(1);
+  });
+
+  test('commands wait for an in-flight initialization', async () => {
+    const lifecycle = new SdkLifecycle();
+    const gate = deferred();
+    const init = lifecycle.init(() => gate.promise);
+    await Promise.resolve();
+
+    const ready = lifecycle.whenReady();
+    gate.resolve();
+    await init;
+    await expect(ready).resolves.toBeUndefined();
+  });
+
+  test('commands fail with stable codes outside of ready', async () => {
+    const lifecycle = new SdkLifecycle();
+    await expect(lifecycle.whenReady()).rejects.toMatchObject({ code: 'SDK_NOT_INITIALIZED' });
+
+    await expect(lifecycle.init(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(lifecycle.getState()).toBe('failed');
+    await expect(lifecycle.whenReady()).rejects.toMatchObject({ code: 'SDK_INIT_ERROR' });
+
+    await lifecycle.init(() => Promise.resolve());
+    const gate = deferred();
+    const shutdown = lifecycle.shutdown(() => gate.promise);
+    await Promise.resolve();
+    await expect(lifecycle.whenReady()).rejects.toMatchObject({ code: 'SDK_SHUTTING_DOWN' });
+    gate.resolve();
+    await shutdown;
+    expect(lifecycle.getState()).toBe('uninitialized');
+  });
+
+  test('operations run in order and reinit is atomic for waiting commands', async () => {
+    const order: string[] = [];
+    const lifecycle = new SdkLifecycle();
+    await lifecycle.init(async () => {
+      order.push('init');
+    });
+
+    const gate = deferred();
+    const reinit = lifecycle.reinit(
+      async () => {
+        order.push('shutdown');
+      },
+      async () => {
+        await gate.promise;
+        order.push('reinit');
+      }
+    );
+    const ready = lifecycle.whenReady().then(() => order.push('command'));
+
+    gate.resolve();
+    await Promise.all([reinit, ready]);
+    expect(order).toEqual(['init', 'shutdown', 'reinit', 'command']);
+    expect(lifecycle.isReady()).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const loadLogger = () => {
+  let module!: typeof import('../src/logger');
+  jest.isolateModules(() => {
+    module = require('../src/logger');
+  });
+  return module;
+};
+
+describe('PluginLogger', () => {
+  let logDir = '';
+
+  beforeEach(async () => {
+    logDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recall-logs-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(logDir, { recursive: true, force: true });
+  });
+
+  test('captures plugin and SDK entries and filters them', async () => {
+    const { logger, createLogger } = loadLogger();
+    const log = createLogger('RecallDesktopMain');
+    log.debug('dropped below the default level');
+    log.info('Recording started', { windowId: 'win-1' });
+    await logger.initialize(logDir);
+    log.error('Stop recording failed', new Error('boom'));
+    logger.captureSdkLog({
+      level: 'warning',
+      message: 'audio device changed',
+      subsystem: 'capture',
+      category: 'audio',
+      window_id: 'win-2',
+    });
+
+    const all = await logger.getEntries();
+    expect(all.map((entry) => entry.message)).toEqual([
+      'Recording started',
+      'Stop recording failed',
+      'audio device changed',
+    ]);
+    expect(all[0].windowId).toBe('win-1');
+    expect(all[1].data).toMatchObject({ name: 'Error', message: 'boom' });
+
+    expect(await logger.getEntries({ level: 'warn', subsystem: 'capture' })).toEqual([
+      expect.objectContaining({ source: 'sdk', level: 'warn', category: 'audio', windowId: 'win-2' }),
+    ]);
+    expect(await logger.getEntries({ windowId: 'win-1' })).toHaveLength(1);
+    expect(await logger.getEntries({ limit: 1 })).toEqual([expect.objectContaining({ subsystem: 'capture' })]);
+
+    // Entries survive a restart because they are read back from disk
+    const restarted = loadLogger().logger;
+    await restarted.initialize(logDir);
+    expect(await restarted.getEntries()).toHaveLength(3);
+  });
+
+  test('rotates files once they reach the size cap', async () => {
+    const { logger, createLogger } = loadLogger();
+    await logger.initialize(logDir);
+    const log = createLogger('Test');
+    const payload = 'x'.repeat(64 * 1024);
+    for (let index = 0; index < 120; index++) {
+      log.info(`entry ${index}`, payload);
+    }
+    await logger.flush();
+
+    const files = (await fs.readdir(logDir)).sort();
+    expect(files).toEqual([
+      'recall-desktop.log',
+      'recall-desktop.log.1',
+      'recall-desktop.log.2',
+      'recall-desktop.log.3',
+      'recall-desktop.log.4',
+    ]);
+    for (const file of files) {
+      expect((await fs.stat(path.join(logDir, file))).size).toBeLessThanOrEqual(1024 * 1024);
+    }
+
+    const entries = await logger.getEntries({ limit: 1000 });
+    expect(entries[entries.length - 1].message).toBe('entry 119');
+    expect(entries.length).toBeLessThan(120);
+  });
+});
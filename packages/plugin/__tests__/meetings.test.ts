@@ -0,0 +1,29 @@
+import { detectedMeetings } from '../src/meetings';
+
+describe('detected meetings', () => {
+  beforeEach(() => {
+    detectedMeetings.clear();
+  });
+
+  test('tracks open meetings from detection until they close', () => {
+    detectedMeetings.detected({ id: 'win-1', platform: 'zoom' });
+    detectedMeetings.detected({ id: 'win-2', platform: 'teams' });
+    detectedMeetings.updated({ id: 'win-1', title: 'Weekly Standup' });
+
+    expect(detectedMeetings.get('win-1')).toEqual({ id: 'win-1', platform: 'zoom', title: 'Weekly Standup' });
+    expect(detectedMeetings.getAll().map((window) => window.id)).toEqual(['win-1', 'win-2']);
+
+    detectedMeetings.closed('win-1');
+    expect(detectedMeetings.has('win-1')).toBe(false);
+    expect(detectedMeetings.getAll()).toEqual([{ id: 'win-2', platform: 'teams' }]);
+  });
+
+  test('returns copies so callers cannot change what is tracked', () => {
+    detectedMeetings.detected({ id: 'win-1', platform: 'zoom' });
+    detectedMeetings.getAll()[0].platform = 'changed';
+    const window = detectedMeetings.get('win-1');
+    if (window) window.title = 'changed';
+
+    expect(detectedMeetings.get('win-1')).toEqual({ id: 'win-1', platform: 'zoom' });
+  });
+});
@@ -0,0 +1,61 @@
+import { participantRosters } from '../src/participants';
+
+const window = { id: 'win-1', platform: 'zoom', title: 'Weekly Standup' };
+
+const participantEvent = (event: string, participant: any, absolute = '2026-01-05T10:00:00.000Z') => ({
+  window,
+  event: `participant_events.${event}`,
+  data: { data: { participant, timestamp: { absolute, relative: 0 } } },
+});
+
+const alice = { id: 1, name: 'Alice', is_host: true, platform: 'desktop' };
+const bob = { id: 2, name: 'Bob', is_host: false };
+
+describe('participant rosters', () => {
+  beforeEach(() => {
+    participantRosters.clear();
+    participantRosters.start(window);
+  });
+
+  test('tracks joins, leaves and stream toggles', () => {
+    participantRosters.handleRealtimeEvent(participantEvent('join', alice));
+    participantRosters.handleRealtimeEvent(participantEvent('webcam_on', bob, '2026-01-05T10:01:00.000Z'));
+    participantRosters.handleRealtimeEvent(participantEvent('speech_on', alice));
+    const left = participantRosters.handleRealtimeEvent(participantEvent('leave', alice, '2026-01-05T10:30:00.000Z'));
+
+    expect(left).toMatchObject({ windowId: 'win-1', change: 'leave', participantId: 1 });
+    expect(participantRosters.get('win-1')!.participants).toEqual([
+      expect.objectContaining({
+        id: 1,
+        name: 'Alice',
+        isHost: true,
+        platform: 'desktop',
+        present: false,
+        audio: false,
+        joinedAt: Date.parse('2026-01-05T10:00:00.000Z'),
+        leftAt: Date.parse('2026-01-05T10:30:00.000Z'),
+      }),
+      expect.objectContaining({ id: 2, name: 'Bob', present: true, video: true, joinedAt: Date.parse('2026-01-05T10:01:00.000Z') }),
+    ]);
+  });
+
+  test('ignores chat messages and records capture status', () => {
+    expect(participantRosters.handleRealtimeEvent(participantEvent('chat_message', alice))).toBeUndefined();
+    expect(participantRosters.handleRealtimeEvent({ window, event: 'transcript.data', data: {} })).toBeUndefined();
+
+    const capture = participantRosters.handleCaptureStatus({ window, type: 'video', capturing: true });
+    expect(capture).toMatchObject({ change: 'capture', capture: { video: true } });
+    expect(capture).not.toHaveProperty('participantId');
+    expect(participantRosters.get('win-1')!.participants).toEqual([]);
+  });
+
+  test('keeps the roster readable after the recording ends', () => {
+    participantRosters.handleRealtimeEvent(participantEvent('join', bob));
+    participantRosters.end('win-1');
+
+    const roster = participantRosters.get('win-1')!;
+    expect(roster.endedAt).toEqual(expect.any(Number));
+    roster.participants[0].name = 'Changed';
+    expect(participantRosters.get('win-1')!.participants[0].name).toBe('Bob');
+  });
+});
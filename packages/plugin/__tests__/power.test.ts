@@ -0,0 +1,111 @@
+import { PowerActionController, PowerSteps } from '../src/power';
+import type { RecordingSession, RecordingState } from '../src/shared';
+
+const createSteps = () => {
+  const sessions = new Map<string, RecordingSession>();
+  const detected = new Set<string>();
+  const calls: string[] = [];
+  const paused: any[] = [];
+  const resumed: any[] = [];
+
+  const add = (windowId: string, state: RecordingState) => {
+    sessions.set(windowId, { windowId, window: { id: windowId }, state, updatedAt: 1 });
+    detected.add(windowId);
+  };
+  const setState = (windowId: string, state: RecordingState) => {
+    sessions.get(windowId)!.state = state;
+  };
+
+  const steps: PowerSteps = {
+    getActiveRecordings: () =>
+      Array.from(sessions.values()).filter((s) => s.state === 'recording' || s.state === 'paused'),
+    getRecording: (windowId) => sessions.get(windowId),
+    isMeetingDetected: (windowId) => detected.has(windowId),
+    pauseRecording: async (windowId) => {
+      calls.push(`pause:${windowId}`);
+      setState(windowId, 'paused');
+    },
+    resumeRecording: async (windowId) => {
+      calls.push(`resume:${windowId}`);
+      setState(windowId, 'recording');
+    },
+    stopRecording: async (windowId) => {
+      calls.push(`stop:${windowId}`);
+      setState(windowId, 'ended');
+    },
+    onPaused: (event) => paused.push(event),
+    onResumed: (event) => resumed.push(event),
+  };
+  return { steps, add, setState, detected, calls, paused, resumed };
+};
+
+describe('power event handling', () => {
+  test('pauses recordings on suspend and resumes them on wake', async () => {
+    const { steps, add, calls, paused, resumed } = createSteps();
+    add('win-1', 'recording');
+    add('win-2', 'paused');
+    const power = new PowerActionController(steps);
+
+    await power.handlePause('suspend', 'pause');
+    expect(calls).toEqual(['pause:win-1']);
+    expect(paused).toEqual([{ windowId: 'win-1', window: { id: 'win-1' }, action: 'pause', reason: 'suspend' }]);
+
+    await power.handleResume('resume');
+    expect(calls).toEqual(['pause:win-1', 'resume:win-1']);
+    expect(resumed).toEqual([{ windowId: 'win-1', window: { id: 'win-1' }, reason: 'resume' }]);
+    expect(power.isAutoPaused('win-1')).toBe(false);
+  });
+
+  test('waits for both wake and unlock when sleep also locked the screen', async () => {
+    const { steps, add, calls } = createSteps();
+    add('win-1', 'recording');
+    const power = new PowerActionController(steps);
+
+    await power.handlePause('suspend', 'pause');
+    await power.handlePause('lock-screen', 'pause');
+    await power.handleResume('resume');
+    expect(calls).toEqual(['pause:win-1']);
+
+    await power.handleResume('unlock-screen');
+    expect(calls).toEqual(['pause:win-1', 'resume:win-1']);
+  });
+
+  test('does not resume meetings that closed while asleep', async () => {
+    const { steps, add, detected, calls, resumed } = createSteps();
+    add('win-1', 'recording');
+    const power = new PowerActionController(steps);
+
+    await power.handlePause('lock-screen', 'pause');
+    detected.delete('win-1');
+    await power.handleResume('unlock-screen');
+
+    expect(calls).toEqual(['pause:win-1']);
+    expect(resumed).toEqual([]);
+  });
+
+  test('stops every active recording, and does nothing for "none"', async () => {
+    const { steps, add, calls, paused } = createSteps();
+    add('win-1', 'recording');
+    add('win-2', 'paused');
+    const power = new PowerActionController(steps);
+
+    await power.handlePause('suspend', 'none');
+    expect(calls).toEqual([]);
+
+    await power.handlePause('suspend', 'stop');
+    expect(calls).toEqual(['stop:win-1', 'stop:win-2']);
+    expect(paused.map((event) => event.action)).toEqual(['stop', 'stop']);
+  });
+
+  test('reports failures in the event', async () => {
+    const { steps, add, paused } = createSteps();
+    add('win-1', 'recording');
+    steps.pauseRecording = jest.fn().mockRejectedValue(new Error('boom'));
+    const power = new PowerActionController(steps);
+
+    await power.handlePause('suspend', 'pause');
+
+    expect(paused[0].error).toMatchObject({ code: 'RECORDING_ERROR' });
+    expect(power.isAutoPaused('win-1')).toBe(false);
+  });
+});
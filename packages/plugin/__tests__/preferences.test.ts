@@ -0,0 +1,77 @@
+import { getPreferenceDefaults, PREFERENCE_REGISTRY, readPreferences, toPreferenceTargets } from '../src/preferences';
+import type { PluginContext, PluginPreference } from '../src/shared';
+import packageJson from '../package.json';
+
+const context = (preferences: Array<Partial<PluginPreference>>): PluginContext =>
+  ({ plugin: { todesktop: { preferences } } }) as PluginContext;
+
+describe('preference registry', () => {
+  test('resolves preferences by id regardless of order', () => {
+    const values = readPreferences(
+      context([
+        { id: 'mainFrameOnly', type: 'checkbox', spec: { value: false } },
+        { id: 'apiUrl', type: 'text', spec: { value: 'https://eu-central-1.recall.ai' } },
+        { id: 'enabled', type: 'checkbox', spec: { value: false } },
+      ])
+    );
+
+    expect(values).toEqual({
+      mainFrameOnly: false,
+      apiUrl: 'https://eu-central-1.recall.ai',
+      enabled: false,
+    });
+  });
+
+  test('drops unknown ids, missing values and invalid values', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const values = readPreferences(
+      context([
+        { id: 'somethingElse', type: 'text', spec: { value: 'x' } },
+        { id: 'constructor', type: 'text', spec: { value: 'x' } },
+        { id: 'toString', spec: { value: 'x' } },
+        { id: '__proto__', type: 'text', spec: { value: 'x' } },
+        { id: 'enabled', type: 'checkbox', spec: {} },
+        { id: 'apiUrl', type: 'text', spec: { value: 'not a url' } },
+        { id: 'requestPermissionsOnStartup', type: 'text', spec: { value: 'yes' } },
+      ])
+    );
+
+    expect(values).toEqual({});
+    jest.restoreAllMocks();
+  });
+
+  test('groups values by the setting their registry entry targets', () => {
+    const values = readPreferences(
+      context([
+        { id: 'apiUrl', type: 'text', spec: { value: 'https://eu-central-1.recall.ai' } },
+        { id: 'allowedOrigins', type: 'text', spec: { value: ' https://app.example.com, ,https://*.example.com' } },
+        { id: 'mainFrameOnly', type: 'checkbox', spec: { value: false } },
+        { id: 'blockedTitlePatterns', type: 'text', spec: { value: '' } },
+        { id: 'meetingRedaction', type: 'select', spec: { value: 'mask' } },
+        { id: 'debugTools', type: 'checkbox', spec: { value: true } },
+      ])
+    );
+
+    expect(toPreferenceTargets(values)).toEqual({
+      config: { apiUrl: 'https://eu-central-1.recall.ai' },
+      senderPolicy: { allowedOrigins: ['https://app.example.com', 'https://*.example.com'], mainFrameOnly: false },
+      privacyPolicy: { blockedTitlePatterns: [], redaction: 'mask' },
+    });
+  });
+
+  test('declares every preference in package.json with a matching type', () => {
+    const declared = packageJson.todesktop.preferences;
+
+    expect(declared.map((preference) => preference.id).sort()).toEqual(
+      Object.keys(PREFERENCE_REGISTRY).sort()
+    );
+    for (const preference of declared) {
+      const definition = PREFERENCE_REGISTRY[preference.id as keyof typeof PREFERENCE_REGISTRY];
+      expect(preference.type).toBe(definition.type);
+    }
+    expect(readPreferences(context(declared as PluginPreference[]))).toMatchObject({
+      apiUrl: getPreferenceDefaults().apiUrl,
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { findBlockedPattern, redactMeetingDetails, redactValue } from '../src/privacy';
+import type { PrivacyPolicy } from '../src/shared';
+
+const policy: PrivacyPolicy = {
+  blockedUrlPatterns: ['https://*.zoom.us/j/999*'],
+  blockedTitlePatterns: ['*acme*'],
+  redaction: 'off',
+};
+
+describe('meeting privacy filter', () => {
+  test('blocks meetings by URL or title pattern', () => {
+    expect(findBlockedPattern({ url: 'https://corp.zoom.us/j/9991234?pwd=x', title: 'Sync' }, policy)).toBe(
+      'https://*.zoom.us/j/999*'
+    );
+    expect(findBlockedPattern({ title: 'Quarterly review with ACME Corp' }, policy)).toBe('*acme*');
+    expect(findBlockedPattern({ url: 'https://corp.zoom.us/j/123', title: 'Standup' }, policy)).toBeUndefined();
+    expect(findBlockedPattern({}, policy)).toBeUndefined();
+  });
+
+  test('masks or hashes titles and URLs anywhere in a payload', () => {
+    const event = {
+      window: { id: 'win-1', platform: 'zoom', title: 'ACME deal review', url: 'https://acme.zoom.us/j/1' },
+      recordings: [{ windowId: 'win-1', window: { id: 'win-1', title: 'ACME deal review' } }],
+    };
+
+    const masked = redactMeetingDetails(event, 'mask');
+    expect(masked.window).toEqual({ id: 'win-1', platform: 'zoom', title: '[redacted]', url: '[redacted]' });
+    expect(masked.recordings[0].window.title).toBe('[redacted]');
+    expect(event.window.title).toBe('ACME deal review');
+
+    const hashed = redactMeetingDetails(event, 'hash');
+    expect(hashed.window.title).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(hashed.recordings[0].window.title).toBe(hashed.window.title);
+    expect(hashed.window.title).not.toBe(redactValue('Another meeting', 'hash'));
+
+    expect(redactMeetingDetails(event, 'off')).toBe(event);
+  });
+
+  test('passes Buffers, typed arrays and Dates through untouched', () => {
+    const buffer = Buffer.from('frame');
+    const samples = new Int16Array([1, 2, 3]);
+    const at = new Date(0);
+
+    const masked = redactMeetingDetails({ window: { title: 'ACME' }, data: { buffer, samples, at } }, 'mask');
+
+    expect(masked.window.title).toBe('[redacted]');
+    expect(masked.data.buffer).toBe(buffer);
+    expect(masked.data.samples).toBe(samples);
+    expect(masked.data.at).toBe(at);
+  });
+});
@@ -0,0 +1,74 @@
+import { QuitCoordinator, QuitSteps } from '../src/quit';
+import type { RecordingSession } from '../src/shared';
+
+const session = (windowId: string, startedAt: number): RecordingSession => ({
+  windowId,
+  window: { id: windowId },
+  state: 'recording',
+  startedAt,
+  updatedAt: startedAt,
+  pauses: [],
+});
+
+const createSteps = (overrides: Partial<QuitSteps> = {}) => {
+  const calls: string[] = [];
+  let active = [session('win-2', 200), session('win-1', 100)];
+  let running = true;
+  const steps: QuitSteps = {
+    getActiveRecordings: () => active,
+    isSdkRunning: () => running,
+    stopRecording: async (windowId) => {
+      calls.push(`stop:${windowId}`);
+    },
+    shutdownSdk: async () => {
+      calls.push('shutdown');
+      active = [];
+      running = false;
+    },
+    ...overrides,
+  };
+  return { steps, calls };
+};
+
+describe('graceful quit', () => {
+  test('stops recordings oldest first, then shuts the SDK down', async () => {
+    const { steps, calls } = createSteps();
+    const quit = new QuitCoordinator(steps);
+
+    expect(quit.shouldHoldQuit()).toBe(true);
+    const preparing = quit.prepare();
+    expect(quit.isPreparing()).toBe(true);
+    expect(quit.shouldHoldQuit()).toBe(true);
+
+    await expect(preparing).resolves.toBe(true);
+    expect(calls).toEqual(['stop:win-1', 'stop:win-2', 'shutdown']);
+    expect(quit.shouldHoldQuit()).toBe(false);
+  });
+
+  test('lets the quit through when there is nothing to clean up', () => {
+    const { steps } = createSteps({ getActiveRecordings: () => [], isSdkRunning: () => false });
+
+    expect(new QuitCoordinator(steps).shouldHoldQuit()).toBe(false);
+  });
+
+  test('the host app can cancel the quit', async () => {
+    const confirm = jest.fn().mockResolvedValue(false);
+    const { steps, calls } = createSteps({ confirm });
+    const quit = new QuitCoordinator(steps);
+
+    await expect(quit.prepare()).resolves.toBe(false);
+    expect(confirm).toHaveBeenCalledWith([expect.objectContaining({ windowId: 'win-1' }), expect.objectContaining({ windowId: 'win-2' })]);
+    expect(calls).toEqual([]);
+    expect(quit.isPreparing()).toBe(false);
+    expect(quit.shouldHoldQuit()).toBe(true);
+  });
+
+  test('a stuck stop or shutdown cannot block the quit', async () => {
+    const never = () => new Promise<void>(() => undefined);
+    const { steps } = createSteps({ stopRecording: never, shutdownSdk: never });
+    const quit = new QuitCoordinator(steps, { stopTimeoutMs: 5, shutdownTimeoutMs: 5 });
+
+    await expect(quit.prepare()).resolves.toBe(true);
+    expect(quit.shouldHoldQuit()).toBe(false);
+  });
+});
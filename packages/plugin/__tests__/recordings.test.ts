@@ -0,0 +1,91 @@
+import { recordingRegistry } from '../src/recordings';
+
+const window = { id: 'win-1', platform: 'zoom', title: 'Weekly Standup' };
+
+describe('recording session registry', () => {
+  beforeEach(() => {
+    recordingRegistry.clear();
+    jest.useFakeTimers();
+    jest.setSystemTime(1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('tracks a recording from detection through pauses to its end', () => {
+    expect(recordingRegistry.markDetected(window)).toMatchObject({ state: 'detected', detectedAt: 1000 });
+
+    jest.setSystemTime(2000);
+    recordingRegistry.markRecording({ id: 'win-1', title: 'Renamed' });
+    expect(recordingRegistry.get('win-1')).toMatchObject({
+      state: 'recording',
+      startedAt: 2000,
+      window: { id: 'win-1', platform: 'zoom', title: 'Renamed' },
+    });
+
+    jest.setSystemTime(3000);
+    recordingRegistry.markPaused('win-1');
+    // Pausing twice keeps the first pause
+    jest.setSystemTime(3500);
+    expect(recordingRegistry.markPaused('win-1')).toMatchObject({ state: 'paused', pausedAt: 3000 });
+
+    jest.setSystemTime(4000);
+    recordingRegistry.markResumed('win-1');
+    expect(recordingRegistry.getActive().map((session) => session.windowId)).toEqual(['win-1']);
+
+    jest.setSystemTime(5000);
+    expect(recordingRegistry.markEnded('win-1')).toMatchObject({
+      state: 'ended',
+      endedAt: 5000,
+      pauses: [{ pausedAt: 3000, resumedAt: 4000 }],
+    });
+    expect(recordingRegistry.getActive()).toEqual([]);
+
+    // A new recording in the same window starts afresh
+    jest.setSystemTime(6000);
+    expect(recordingRegistry.markRecording(window)).toMatchObject({
+      state: 'recording',
+      startedAt: 6000,
+      endedAt: undefined,
+      pauses: [],
+    });
+  });
+
+  test('flags sessions interrupted by an SDK stop and keeps the last error', () => {
+    recordingRegistry.markRecording(window);
+    recordingRegistry.markRecording({ id: 'win-2' });
+    recordingRegistry.markPaused('win-2');
+    recordingRegistry.markDetected({ id: 'win-3' });
+    recordingRegistry.setError('win-1', 'audio device lost');
+    recordingRegistry.setError('unknown', 'ignored');
+
+    const ended = recordingRegistry.endActive(true);
+
+    expect(ended.map((session) => [session.windowId, session.state, session.interrupted])).toEqual([
+      ['win-1', 'ended', true],
+      ['win-2', 'ended', true],
+    ]);
+    expect(recordingRegistry.get('win-1')?.lastError).toBe('audio device lost');
+    expect(recordingRegistry.get('win-3')?.state).toBe('detected');
+    expect(recordingRegistry.get('unknown')).toBeUndefined();
+  });
+
+  test('drops closed meetings that never recorded and trims old ended sessions', () => {
+    recordingRegistry.markDetected({ id: 'closed' });
+    recordingRegistry.markClosed('closed');
+    expect(recordingRegistry.get('closed')).toBeUndefined();
+
+    for (let index = 0; index < 22; index++) {
+      jest.setSystemTime(10000 + index);
+      recordingRegistry.markRecording({ id: `win-${index}` });
+      recordingRegistry.markEnded(`win-${index}`);
+    }
+
+    const remaining = recordingRegistry.getAll().map((session) => session.windowId);
+    expect(remaining).toHaveLength(20);
+    expect(remaining).not.toContain('win-0');
+    expect(remaining).not.toContain('win-1');
+    expect(remaining).toContain('win-21');
+  });
+});
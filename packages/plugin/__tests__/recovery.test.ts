@@ -0,0 +1,59 @@
+import { SdkRecoverySupervisor } from '../src/recovery';
+
+const options = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 250 };
+
+describe('SdkRecoverySupervisor', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('retries with exponential backoff until the restart succeeds', async () => {
+    const restart = jest
+      .fn<Promise<void>, []>()
+      .mockRejectedValueOnce(new Error('native crash'))
+      .mockResolvedValueOnce(undefined);
+    const onRecovered = jest.fn();
+    const supervisor = new SdkRecoverySupervisor(restart, { onRecovered, onFailed: jest.fn() }, options);
+
+    expect([1, 2, 3, 4].map((attempt) => supervisor.getDelay(attempt))).toEqual([100, 200, 250, 250]);
+
+    supervisor.start();
+    supervisor.start();
+    await jest.advanceTimersByTimeAsync(99);
+    expect(restart).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(restart).toHaveBeenCalledTimes(1);
+    expect(supervisor.getStatus()).toMatchObject({ recovering: true, attempt: 1, lastError: 'native crash' });
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(restart).toHaveBeenCalledTimes(2);
+    expect(onRecovered).toHaveBeenCalledWith(2);
+    expect(supervisor.getStatus()).toMatchObject({ recovering: false, attempt: 0, restartCount: 1 });
+  });
+
+  test('gives up after the last attempt and can be cancelled', async () => {
+    const restart = jest.fn<Promise<void>, []>().mockRejectedValue(new Error('still down'));
+    const onFailed = jest.fn();
+    const supervisor = new SdkRecoverySupervisor(restart, { onRecovered: jest.fn(), onFailed }, options);
+
+    supervisor.start();
+    await jest.advanceTimersByTimeAsync(100 + 200 + 250);
+    expect(restart).toHaveBeenCalledTimes(3);
+    expect(onFailed).toHaveBeenCalledWith(3, expect.any(Error));
+    expect(supervisor.getStatus()).toMatchObject({ recovering: false, failedRecoveries: 1, restartCount: 0 });
+
+    supervisor.start();
+    supervisor.cancel();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(restart).toHaveBeenCalledTimes(3);
+    expect(supervisor.isRecovering()).toBe(false);
+  });
+});
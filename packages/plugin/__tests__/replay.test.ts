@@ -0,0 +1,71 @@
+import { eventReplayBuffer, ReplayState } from '../src/replay';
+
+const zoom = { id: 'win-1', platform: 'zoom' };
+const teams = { id: 'win-2', platform: 'teams' };
+
+const session = (window: typeof zoom) => ({
+  windowId: window.id,
+  state: 'recording' as const,
+  window,
+  detectedAt: 0,
+  updatedAt: 0,
+});
+
+const idle: ReplayState = { openMeetings: [], activeRecordings: [], permissionStatuses: {} };
+
+describe('event replay buffer', () => {
+  beforeEach(() => {
+    eventReplayBuffer.clear();
+  });
+
+  test('keeps the most recent events per type up to its capacity', () => {
+    for (let index = 0; index < 12; index++) {
+      eventReplayBuffer.record('upload-progress', { progress: index });
+    }
+
+    expect(eventReplayBuffer.get('upload-progress')).toHaveLength(10);
+    expect(eventReplayBuffer.get('upload-progress', 2)).toEqual([{ progress: 10 }, { progress: 11 }]);
+    expect(eventReplayBuffer.replay('upload-progress', idle, 1)).toEqual([{ progress: 11 }]);
+    expect(eventReplayBuffer.get('upload-progress', 0)).toEqual([]);
+    expect(Object.keys(eventReplayBuffer.snapshot())).toEqual(['upload-progress']);
+  });
+
+  test('replays state events from live state rather than history', () => {
+    eventReplayBuffer.record('meeting-detected', { window: teams });
+    eventReplayBuffer.record('recording-started', { window: teams });
+    eventReplayBuffer.record('sdk-state-change', { sdk: { state: { code: 'recording' } } });
+    eventReplayBuffer.record('permission-status', { permission: 'microphone', status: 'denied' });
+
+    // The Teams recording ended and the SDK was shut down
+    expect(eventReplayBuffer.replay('recording-started', idle)).toEqual([]);
+    expect(eventReplayBuffer.replay('meeting-detected', idle)).toEqual([]);
+    expect(eventReplayBuffer.replay('sdk-state-change', idle)).toEqual([]);
+
+    const state: ReplayState = {
+      openMeetings: [zoom, teams],
+      activeRecordings: [session(zoom)],
+      sdkState: 'paused',
+      permissionStatuses: { microphone: 'granted' },
+    };
+    expect(eventReplayBuffer.replay('meeting-detected', state, 1)).toEqual([{ window: teams }]);
+    expect(eventReplayBuffer.replay('recording-started', state)).toEqual([{ window: zoom }]);
+    expect(eventReplayBuffer.replay('sdk-state-change', state)).toEqual([{ sdk: { state: { code: 'paused' } } }]);
+    expect(eventReplayBuffer.replay('permission-status', state)).toEqual([
+      { permission: 'microphone', status: 'granted' },
+    ]);
+  });
+
+  test('replays the latest capture status per stream for windows still recording', () => {
+    eventReplayBuffer.record('media-capture-status', { window: zoom, type: 'audio', capturing: true });
+    eventReplayBuffer.record('media-capture-status', { window: zoom, type: 'video', capturing: true });
+    eventReplayBuffer.record('media-capture-status', { window: teams, type: 'audio', capturing: true });
+    eventReplayBuffer.record('media-capture-status', { window: zoom, type: 'audio', capturing: false });
+
+    const state: ReplayState = { ...idle, activeRecordings: [session(zoom)] };
+    expect(eventReplayBuffer.replay('media-capture-status', state)).toEqual([
+      { window: zoom, type: 'video', capturing: true },
+      { window: zoom, type: 'audio', capturing: false },
+    ]);
+    expect(eventReplayBuffer.replay('media-capture-status', idle)).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let userDataDir = '';
+
+jest.mock('electron', () => ({ app: { getPath: () => userDataDir } }), { virtual: true });
+
+const loadStore = async () => {
+  let store!: typeof import('../src/store');
+  jest.isolateModules(() => {
+    store = require('../src/store');
+  });
+  return store;
+};
+
+const configPath = () => path.join(userDataDir, 'recall-desktop', 'config.json');
+
+describe('RecallSdkStore configuration persistence', () => {
+  beforeEach(async () => {
+    userDataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recall-store-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(userDataDir, { recursive: true, force: true });
+  });
+
+  test('runtime overrides persist and take precedence over preferences', async () => {
+    const first = await loadStore();
+    first.recallSdkStore.loadFromPreferences({ apiUrl: 'https://us-west-2.recall.ai' });
+    await first.recallSdkStore.initialize();
+    await first.recallSdkStore.setConfig({ apiUrl: 'https://eu-central-1.recall.ai' });
+
+    const second = await loadStore();
+    second.recallSdkStore.loadFromPreferences({ apiUrl: 'https://us-west-2.recall.ai' });
+    await second.recallSdkStore.initialize();
+    expect(second.recallSdkStore.getConfig().apiUrl).toBe('https://eu-central-1.recall.ai');
+
+    await second.recallSdkStore.resetConfig();
+    expect(second.recallSdkStore.getConfig().apiUrl).toBe('https://us-west-2.recall.ai');
+    await expect(fs.stat(configPath())).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  test('a runtime disable lasts until relaunch, when the preference decides again', async () => {
+    const first = await loadStore();
+    first.recallSdkStore.loadFromPreferences({ enabled: true });
+    await first.recallSdkStore.initialize();
+    await first.recallSdkStore.setConfig({ enabled: false, apiUrl: 'https://eu-central-1.recall.ai' });
+    expect(first.recallSdkStore.isEnabled()).toBe(false);
+    expect(JSON.parse(await fs.readFile(configPath(), 'utf8'))).toEqual({ apiUrl: 'https://eu-central-1.recall.ai' });
+
+    // Files written by older versions may still contain it
+    await fs.writeFile(configPath(), JSON.stringify({ enabled: false }));
+
+    const second = await loadStore();
+    second.recallSdkStore.loadFromPreferences({ enabled: true });
+    await second.recallSdkStore.initialize();
+    expect(second.recallSdkStore.isEnabled()).toBe(true);
+    expect(second.recallSdkStore.getOverrides()).toEqual({});
+
+    await second.recallSdkStore.setConfig({ enabled: false });
+    await second.recallSdkStore.setConfig({ enabled: true });
+    expect(second.recallSdkStore.isEnabled()).toBe(true);
+    await expect(fs.stat(configPath())).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  test('corrupt files are moved aside and ignored', async () => {
+    await fs.mkdir(path.dirname(configPath()), { recursive: true });
+    await fs.writeFile(configPath(), '{ not json');
+
+    const { recallSdkStore } = await loadStore();
+    await recallSdkStore.initialize();
+
+    expect(recallSdkStore.getConfig().apiUrl).toBe('https://us-east-1.recall.ai');
+    const files = await fs.readdir(path.dirname(configPath()));
+    expect(files.some((file) => file.startsWith('config.json.corrupt-'))).toBe(true);
+  });
+});
+
+describe('RecallSdkStore runtime state', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('tracks permission statuses and derives granted flags', async () => {
+    const { recallSdkStore } = await loadStore();
+    expect(recallSdkStore.getPermissions()).toMatchObject({ microphone: false, screenCapture: false });
+
+    recallSdkStore.setPermissionStatus('microphone', 'Granted');
+    recallSdkStore.setPermissionStatus('screen-capture', 'denied');
+    recallSdkStore.setPermissionStatus('screen-capture', 'granted');
+    recallSdkStore.setPermissionStatus('accessibility', 'not_determined');
+
+    expect(recallSdkStore.getPermissionStatuses()).toEqual({
+      microphone: 'Granted',
+      'screen-capture': 'granted',
+      accessibility: 'not_determined',
+    });
+    expect(recallSdkStore.getPermissions()).toEqual({
+      accessibility: false,
+      screenCapture: true,
+      microphone: true,
+      systemAudio: false,
+      fullDiskAccess: false,
+    });
+
+    // Callers get a copy
+    recallSdkStore.getPermissionStatuses().microphone = 'denied';
+    expect(recallSdkStore.getPermissionStatuses().microphone).toBe('Granted');
+  });
+
+  test('tracks the recording state summary and resets it with clearState', async () => {
+    const { recallSdkStore } = await loadStore();
+    expect(recallSdkStore.getSdkState()).toBe('idle');
+
+    recallSdkStore.setSdkInitialized(true);
+    recallSdkStore.setSdkState('recording');
+    expect(recallSdkStore.getSdkState()).toBe('recording');
+    recallSdkStore.setSdkState('paused');
+    expect(recallSdkStore.getSdkState()).toBe('paused');
+
+    recallSdkStore.clearState();
+    expect(recallSdkStore.getSdkState()).toBe('idle');
+    expect(recallSdkStore.isSdkInitialized()).toBe(false);
+  });
+});
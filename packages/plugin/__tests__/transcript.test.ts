@@ -0,0 +1,97 @@
+import { transcriptAssembler } from '../src/transcript';
+import { exportTranscript, formatTimestamp } from '../src/transcriptFormats';
+
+const window = { id: 'win-1', platform: 'zoom', title: 'Weekly Standup' };
+
+const realtime = (event: string, words: Array<[string, number, number]>, participant: any) => ({
+  window,
+  event,
+  data: {
+    data: {
+      words: words.map(([text, start, end]) => ({
+        text,
+        start_timestamp: { relative: start },
+        end_timestamp: { relative: end },
+      })),
+      participant,
+    },
+  },
+});
+
+const alice = { id: 1, name: 'Alice' };
+const bob = { id: 2, name: 'Bob <host>' };
+
+describe('transcript assembler', () => {
+  beforeEach(() => {
+    transcriptAssembler.clear();
+    transcriptAssembler.start(window);
+  });
+
+  test('replaces partial results in place and orders segments by time', () => {
+    const partial = transcriptAssembler.handleRealtimeEvent(
+      realtime('transcript.partial_data', [['Hello', 1, 1.4]], alice)
+    );
+    transcriptAssembler.handleRealtimeEvent(realtime('transcript.data', [['Hi', 0.2, 0.5]], bob));
+    const final = transcriptAssembler.handleRealtimeEvent(
+      realtime('transcript.data', [['Hello', 1, 1.4], ['everyone', 1.5, 2]], alice)
+    );
+
+    expect(final?.segment).toMatchObject({ id: partial?.segment.id, text: 'Hello everyone', final: true });
+    const { segments } = transcriptAssembler.get('win-1')!;
+    expect(segments.map((segment) => [segment.speaker, segment.text, segment.start, segment.end])).toEqual([
+      ['Bob <host>', 'Hi', 0.2, 0.5],
+      ['Alice', 'Hello everyone', 1, 2],
+    ]);
+  });
+
+  test('ignores other realtime events and keeps transcripts after the recording ends', () => {
+    expect(transcriptAssembler.handleRealtimeEvent({ window, event: 'participant_events.join', data: {} })).toBeUndefined();
+
+    transcriptAssembler.handleRealtimeEvent(realtime('transcript.data', [['Done', 3, 3.5]], alice));
+    transcriptAssembler.handleRealtimeEvent(realtime('transcript.partial_data', [['And', 4, 4.2]], bob));
+    transcriptAssembler.end('win-1');
+
+    const transcript = transcriptAssembler.get('win-1')!;
+    expect(transcript.endedAt).toEqual(expect.any(Number));
+    expect(transcript.segments.map((segment) => segment.text)).toEqual(['Done']);
+    expect(
+      transcriptAssembler.handleRealtimeEvent(realtime('transcript.partial_data', [['Late', 5, 5.1]], bob))
+    ).toBeUndefined();
+  });
+});
+
+describe('transcript exporters', () => {
+  beforeEach(() => {
+    transcriptAssembler.clear();
+    transcriptAssembler.start(window);
+    transcriptAssembler.handleRealtimeEvent(realtime('transcript.data', [['Hi', 0.2, 0.5]], bob));
+    transcriptAssembler.handleRealtimeEvent(realtime('transcript.data', [['Morning', 61, 61.75]], alice));
+    transcriptAssembler.handleRealtimeEvent(realtime('transcript.data', [['all', 62, 62.3]], alice));
+    transcriptAssembler.handleRealtimeEvent(realtime('transcript.partial_data', [['So', 63, 63.1]], bob));
+  });
+
+  test('formats timestamps', () => {
+    expect(formatTimestamp(3723.4567)).toBe('01:02:03,457');
+    expect(formatTimestamp(0.5, '.')).toBe('00:00:00.500');
+  });
+
+  test('exports final segments as SRT, WebVTT, Markdown and JSON', () => {
+    const transcript = transcriptAssembler.get('win-1')!;
+
+    expect(exportTranscript(transcript, 'srt').content).toBe(
+      '1\n00:00:00,200 --> 00:00:00,500\nBob <host>: Hi\n\n' +
+        '2\n00:01:01,000 --> 00:01:01,750\nAlice: Morning\n\n' +
+        '3\n00:01:02,000 --> 00:01:02,300\nAlice: all\n'
+    );
+    expect(exportTranscript(transcript, 'vtt').content).toContain(
+      'WEBVTT\n\n00:00:00.200 --> 00:00:00.500\n<v Bob &lt;host&gt;>Hi\n'
+    );
+    expect(exportTranscript(transcript, 'markdown').content).toBe(
+      '# Weekly Standup\n\n**Bob <host>** (00:00:00): Hi\n\n**Alice** (00:01:01): Morning all\n'
+    );
+
+    const json = exportTranscript(transcript, 'json');
+    expect(json.fileName).toMatch(/^recall-desktop-transcript-.*\.json$/);
+    expect(JSON.parse(json.content).segments).toHaveLength(3);
+  });
+});
@@ -0,0 +1,60 @@
+import { findUnsafePattern, transcriptRules } from '../src/transcriptRules';
+
+const window = { id: 'win-1', platform: 'zoom', title: 'Pipeline Review' };
+
+const update = (text: string, final = true, windowId = 'win-1') => {
+  const words = text.split(' ').map((word, index) => ({ text: word, start: 10 + index, end: 10.5 + index }));
+  return {
+    windowId,
+    window: { ...window, id: windowId },
+    segment: { id: 7, speaker: 'Alice', participantId: 1, text, words, start: 10, end: 10.5 + words.length - 1, final },
+  };
+};
+
+describe('transcript rules', () => {
+  beforeEach(() => {
+    transcriptRules.clear();
+  });
+
+  test('matches phrases on word boundaries with context and timestamps', () => {
+    transcriptRules.set({ id: 'commitments', phrases: ["let's follow up", 'action item'] });
+
+    const matches = transcriptRules.match(
+      update("Great so one Action Item for me and then let's follow up next week about pricing")
+    );
+    expect(matches.map((match) => match.text)).toEqual(['Action Item', "let's follow up"]);
+    expect(matches[0]).toMatchObject({
+      ruleId: 'commitments',
+      windowId: 'win-1',
+      speaker: 'Alice',
+      participantId: 1,
+      segmentId: 7,
+      context: "Great so one Action Item for me and then let's follow up next",
+      start: 13,
+      end: 14.5,
+    });
+    expect(transcriptRules.match(update('these action items are done'))).toEqual([]);
+  });
+
+  test('matches regular expressions and honours window scope and partial results', () => {
+    transcriptRules.set({ id: 'budget', pattern: '\\$\\d+k', caseSensitive: true, windowId: 'win-1' });
+
+    expect(transcriptRules.match(update('we can do $50k this quarter'))).toEqual([
+      expect.objectContaining({ ruleId: 'budget', text: '$50k', start: 13 }),
+    ]);
+    expect(transcriptRules.match(update('we can do $50k this quarter', false))).toEqual([]);
+    expect(transcriptRules.match(update('we can do $50k this quarter', true, 'win-2'))).toEqual([]);
+
+    expect(transcriptRules.remove('budget')).toBe(true);
+    expect(transcriptRules.getAll()).toEqual([]);
+  });
+
+  test('refuses patterns that can backtrack exponentially', () => {
+    ['(a+)+$', '(a|aa)*b', '(?:\\w+\\s?){2,}', '(?<word>x*)+', '(\\w)\\1'].forEach((pattern) => {
+      expect(findUnsafePattern(pattern)).toBeDefined();
+    });
+    ['\\$\\d+k', '(follow|circle) back', '(?:next )?steps?', '[(+]+\\d{3}', '(ab|cd)? x', '\\p{Lu}+'].forEach((pattern) => {
+      expect(findUnsafePattern(pattern)).toBeUndefined();
+    });
+  });
+});
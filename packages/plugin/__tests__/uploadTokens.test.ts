@@ -0,0 +1,86 @@
+import { UploadTokenProvider } from '../src/uploadTokens';
+
+const respond = (status: number, body: unknown = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => body,
+  }) as Response;
+
+const options = {
+  maxAttempts: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 4,
+  requestTimeoutMs: 1000,
+  maxTokenAgeMs: 60000,
+};
+
+describe('UploadTokenProvider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('requires an endpoint when no token is passed', async () => {
+    const provider = new UploadTokenProvider(jest.fn(), options);
+
+    await expect(provider.take()).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  test('sends the host request and retries server errors with backoff', async () => {
+    const fetchImpl = jest
+      .fn()
+      .mockResolvedValueOnce(respond(503))
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(respond(200, { upload_token: 'token-1' }));
+    const provider = new UploadTokenProvider(fetchImpl, options);
+    provider.configure({ url: 'https://backend.example.com/api/create-sdk-upload', poolSize: 0 });
+    provider.setRequest({ headers: { Authorization: 'Bearer abc' }, body: { recording_config: {} } });
+
+    await expect(provider.take()).resolves.toBe('token-1');
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://backend.example.com/api/create-sdk-upload');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer abc' });
+    expect(JSON.parse(init.body)).toEqual({ recording_config: {} });
+    expect(provider.getDelay(1)).toBe(1);
+    expect(provider.getDelay(5)).toBe(4);
+  });
+
+  test('does not retry client errors', async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(respond(401));
+    const provider = new UploadTokenProvider(fetchImpl, options);
+    provider.configure({ url: 'https://backend.example.com/token', poolSize: 0 });
+
+    await expect(provider.take()).rejects.toMatchObject({
+      code: 'UPLOAD_TOKEN_UNAVAILABLE',
+      sdkMessage: 'Token endpoint responded with 401 Error',
+    });
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  test('hands out prefetched tokens and refills the pool', async () => {
+    let count = 0;
+    const fetchImpl = jest.fn().mockImplementation(async () => respond(200, { upload_token: `token-${++count}` }));
+    const provider = new UploadTokenProvider(fetchImpl, options);
+    provider.configure({ url: 'https://backend.example.com/token', poolSize: 2 });
+
+    provider.prefetch();
+    await provider.whenIdle();
+    expect(provider.getPoolSize()).toBe(2);
+
+    await expect(provider.take()).resolves.toBe('token-1');
+    await provider.whenIdle();
+    expect(provider.getPoolSize()).toBe(2);
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+
+    provider.setRequest({ headers: { Authorization: 'Bearer other-user' } });
+    await provider.whenIdle();
+    await expect(provider.take()).resolves.toBe('token-4');
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  authorizeSender,
+  validateConfigUpdate,
+  validateEventType,
+  validateHistoryQuery,
+  validateLogFilter,
+  validateQuitResponse,
+  validateStartRecordingRequest,
+  validateSubscribeOptions,
+  validateTranscriptRule,
+  validateUploadTokenRequest,
+  validateWindowRequest,
+} from '../src/validation';
+
+const frame = (origin: string) => ({ origin, url: `${origin}/page` });
+
+const invokeEvent = (senderFrame: any, mainFrame: any = senderFrame) =>
+  ({ senderFrame, sender: { mainFrame } }) as any;
+
+describe('IPC payload validation', () => {
+  test('accepts well-formed requests', () => {
+    expect(validateStartRecordingRequest({ windowId: 'win-1', uploadToken: 'tok' })).toEqual({
+      windowId: 'win-1',
+      uploadToken: 'tok',
+    });
+    expect(validateStartRecordingRequest({ windowId: 'win-1' })).toEqual({ windowId: 'win-1' });
+    expect(validateWindowRequest({ windowId: 'win-1' })).toEqual({ windowId: 'win-1' });
+    expect(validateEventType('meeting-detected')).toBe('meeting-detected');
+    expect(validateSubscribeOptions(undefined)).toBeUndefined();
+    expect(validateSubscribeOptions({ replay: 5 })).toEqual({ replay: 5 });
+    expect(validateConfigUpdate({ apiUrl: 'https://eu-central-1.recall.ai' })).toEqual({
+      apiUrl: 'https://eu-central-1.recall.ai',
+    });
+  });
+
+  test.each([
+    ['empty token', () => validateStartRecordingRequest({ windowId: 'win-1', uploadToken: '' })],
+    ['invalid token header', () => validateUploadTokenRequest({ headers: { 'Bad Header': 'x' } })],
+    ['non-string windowId', () => validateWindowRequest({ windowId: 42 })],
+    ['extra fields', () => validateWindowRequest({ windowId: 'win-1', extra: true })],
+    ['control characters', () => validateWindowRequest({ windowId: 'win\n1' })],
+    ['unknown event type', () => validateEventType('not-an-event')],
+    ['negative replay', () => validateSubscribeOptions({ replay: -1 })],
+    ['unknown config key', () => validateConfigUpdate({ apiUrl: 'https://x.recall.ai', evil: 1 })],
+    ['non-http apiUrl', () => validateConfigUpdate({ apiUrl: 'file:///etc/passwd' })],
+    ['non-boolean flag', () => validateConfigUpdate({ enabled: 'yes' })],
+    ['unknown log level', () => validateConfigUpdate({ logLevel: 'verbose' })],
+    ['oversized log limit', () => validateLogFilter({ limit: 5000 })],
+    ['negative history since', () => validateHistoryQuery({ since: -1 })],
+    ['non-boolean quit answer', () => validateQuitResponse({ requestId: 'quit-1', proceed: 'no' })],
+    ['transcript rule with phrases and pattern', () => validateTranscriptRule({ id: 'r', phrases: ['a'], pattern: 'a' })],
+    ['invalid transcript pattern', () => validateTranscriptRule({ id: 'r', pattern: 'follow (up' })],
+    ['pathological transcript pattern', () => validateTranscriptRule({ id: 'r', pattern: '(a+)+$' })],
+  ])('rejects %s with VALIDATION_ERROR', (_name, run) => {
+    expect(run).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+  });
+});
+
+describe('authorizeSender', () => {
+  test('rejects subframes when mainFrameOnly is set', () => {
+    const main = frame('https://app.example.com');
+    const iframe = frame('https://ads.example.net');
+    expect(() => authorizeSender(invokeEvent(main), { mainFrameOnly: true })).not.toThrow();
+    expect(() => authorizeSender(invokeEvent(iframe, main), { mainFrameOnly: true })).toThrow(
+      expect.objectContaining({ code: 'SENDER_NOT_ALLOWED' })
+    );
+    expect(() => authorizeSender(invokeEvent(iframe, main), { mainFrameOnly: false })).not.toThrow();
+  });
+
+  test('matches exact and wildcard origins', () => {
+    const policy = { mainFrameOnly: false, allowedOrigins: ['https://app.example.com', 'https://*.example.org'] };
+    expect(() => authorizeSender(invokeEvent(frame('https://app.example.com')), policy)).not.toThrow();
+    expect(() => authorizeSender(invokeEvent(frame('https://eu.example.org')), policy)).not.toThrow();
+    expect(() => authorizeSender(invokeEvent(frame('https://evil.com')), policy)).toThrow(
+      expect.objectContaining({ code: 'SENDER_NOT_ALLOWED' })
+    );
+    expect(() => authorizeSender(invokeEvent(null), policy)).toThrow(
+      expect.objectContaining({ code: 'SENDER_NOT_ALLOWED' })
+    );
+  });
+});
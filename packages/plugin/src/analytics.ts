@@ -0,0 +1,265 @@
+/**
+ * Recall Desktop SDK plugin meeting analytics
+ *
+ * Computes a post-call summary locally from a window's transcript,
+ * participant roster and recording session: talk time and words per
+ * speaker, overlapping speech, interruptions, silence gaps, and recorded
+ * versus paused time. Transcript timings are seconds since the recording
+ * started; only final segments with both timestamps count towards talk
+ * time.
+ */
+
+import { UNKNOWN_SPEAKER } from "./transcript";
+import type {
+  MeetingAnalytics,
+  ParticipantRoster,
+  RecordingSession,
+  SilenceGapAnalytics,
+  SpeakerAnalytics,
+  Transcript,
+} from "./shared";
+
+// Shorter pauses between utterances are part of normal conversation
+export const SILENCE_GAP_SECONDS = 5;
+
+export interface AnalyticsSources {
+  transcript?: Transcript;
+  roster?: ParticipantRoster;
+  // A recording without endedAt is still running and counts up to now
+  recording?: Pick<RecordingSession, "startedAt" | "endedAt" | "pauses">;
+}
+
+interface Utterance {
+  key: string;
+  start: number;
+  end: number;
+  words: number;
+}
+
+type Interval = [number, number];
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const perMinute = (count: number, seconds: number): number =>
+  seconds > 0 ? round((count * 60) / seconds) : 0;
+
+const sum = (values: number[]): number =>
+  values.reduce((total, value) => total + value, 0);
+
+const speakerKey = (participantId: number | undefined, speaker: string) =>
+  participantId !== undefined ? `id:${participantId}` : `name:${speaker}`;
+
+// Merge overlapping intervals, sorted by start
+const mergeIntervals = (intervals: Interval[]): Interval[] =>
+  [...intervals]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Interval[]>((merged, [start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+      return merged;
+    }, []);
+
+const intervalSeconds = (intervals: Interval[]): number =>
+  sum(intervals.map(([start, end]) => end - start));
+
+const recordingTimes = (
+  recording: AnalyticsSources["recording"],
+  now: number
+): { recordedSeconds: number; pausedSeconds: number } => {
+  if (recording?.startedAt === undefined) {
+    return { recordedSeconds: 0, pausedSeconds: 0 };
+  }
+  const endedAt = recording.endedAt ?? now;
+  const totalMs = Math.max(0, endedAt - recording.startedAt);
+  const pausedMs = Math.min(
+    totalMs,
+    sum(
+      (recording.pauses ?? []).map((pause) =>
+        Math.max(
+          0,
+          Math.min(pause.resumedAt ?? endedAt, endedAt) - pause.pausedAt
+        )
+      )
+    )
+  );
+  return {
+    recordedSeconds: round((totalMs - pausedMs) / 1000),
+    pausedSeconds: round(pausedMs / 1000),
+  };
+};
+
+/**
+ * Talk time with overlaps counted once, time with two or more speakers
+ * talking, and the silences between utterances
+ */
+const coverage = (
+  bySpeaker: Interval[][]
+): { talk: number; overlap: number; gaps: SilenceGapAnalytics } => {
+  // +1 when a speaker starts, -1 when they stop; stops sort first
+  const boundaries = bySpeaker
+    .flat()
+    .flatMap(([start, end]): Array<[number, number]> => [
+      [start, 1],
+      [end, -1],
+    ])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let talking = 0;
+  let previous = 0;
+  let talk = 0;
+  let overlap = 0;
+  const gaps: number[] = [];
+  boundaries.forEach(([time, delta], index) => {
+    const elapsed = time - previous;
+    if (talking >= 1) talk += elapsed;
+    if (talking >= 2) overlap += elapsed;
+    if (talking === 0 && index > 0 && elapsed >= SILENCE_GAP_SECONDS) {
+      gaps.push(elapsed);
+    }
+    talking += delta;
+    previous = time;
+  });
+
+  return {
+    talk,
+    overlap,
+    gaps: {
+      count: gaps.length,
+      totalSeconds: round(sum(gaps)),
+      longestSeconds: round(Math.max(0, ...gaps)),
+    },
+  };
+};
+
+/**
+ * Compute the analytics of one meeting window
+ */
+export const computeMeetingAnalytics = (
+  windowId: string,
+  { transcript, roster, recording }: AnalyticsSources,
+  now = Date.now()
+): MeetingAnalytics => {
+  const speakers = new Map<string, SpeakerAnalytics>();
+  const addSpeaker = (key: string, stats: SpeakerAnalytics) => {
+    if (!speakers.has(key)) speakers.set(key, stats);
+    return speakers.get(key)!;
+  };
+  const emptyStats = (
+    speaker: string,
+    participantId?: number
+  ): SpeakerAnalytics => {
+    const stats: SpeakerAnalytics = {
+      speaker,
+      talkTimeSeconds: 0,
+      talkTimePercent: 0,
+      segments: 0,
+      words: 0,
+      wordsPerMinute: 0,
+      interruptions: 0,
+    };
+    if (participantId !== undefined) stats.participantId = participantId;
+    return stats;
+  };
+  // The roster has the latest names for participants the transcript
+  // labelled before the platform reported them
+  const rosterNames = new Map(
+    (roster?.participants ?? [])
+      .filter((participant) => participant.name)
+      .map((participant) => [participant.id, participant.name])
+  );
+
+  const utterances: Utterance[] = [];
+  for (const segment of transcript?.segments ?? []) {
+    if (!segment.final) continue;
+    const key = speakerKey(segment.participantId, segment.speaker);
+    const name =
+      (segment.participantId !== undefined &&
+        rosterNames.get(segment.participantId)) ||
+      segment.speaker;
+    const speaker = addSpeaker(key, emptyStats(name, segment.participantId));
+    speaker.segments += 1;
+    speaker.words += segment.words.length;
+    if (
+      segment.start !== undefined &&
+      segment.end !== undefined &&
+      segment.end >= segment.start
+    ) {
+      utterances.push({
+        key,
+        start: segment.start,
+        end: segment.end,
+        words: segment.words.length,
+      });
+    }
+  }
+  for (const participant of roster?.participants ?? []) {
+    addSpeaker(
+      speakerKey(participant.id, ""),
+      emptyStats(participant.name || UNKNOWN_SPEAKER, participant.id)
+    );
+  }
+
+  // Someone interrupts when they start while another speaker's utterance
+  // that began earlier is still going
+  const latestEnd = new Map<string, number>();
+  utterances
+    .sort((a, b) => a.start - b.start)
+    .forEach((utterance) => {
+      const interrupting = Array.from(latestEnd).some(
+        ([key, end]) => key !== utterance.key && end > utterance.start
+      );
+      if (interrupting) {
+        speakers.get(utterance.key)!.interruptions += 1;
+      }
+      latestEnd.set(
+        utterance.key,
+        Math.max(latestEnd.get(utterance.key) ?? 0, utterance.end)
+      );
+    });
+
+  const timed = Array.from(speakers.keys()).map((key) =>
+    utterances.filter((utterance) => utterance.key === key)
+  );
+  const bySpeaker = timed.map((own) =>
+    mergeIntervals(
+      own.map((utterance): Interval => [utterance.start, utterance.end])
+    )
+  );
+  const { talk, overlap, gaps } = coverage(bySpeaker);
+  const talkTimes = bySpeaker.map(intervalSeconds);
+  const totalSpeakerTalk = sum(talkTimes);
+  const timedWords = (own: Utterance[]) =>
+    sum(own.map((utterance) => utterance.words));
+
+  // Words without timestamps count as words but not towards the rate
+  const stats = Array.from(speakers.values()).map((speaker, index) => ({
+    ...speaker,
+    talkTimeSeconds: round(talkTimes[index]),
+    talkTimePercent:
+      totalSpeakerTalk > 0
+        ? round((talkTimes[index] * 100) / totalSpeakerTalk)
+        : 0,
+    wordsPerMinute: perMinute(timedWords(timed[index]), talkTimes[index]),
+  }));
+
+  return {
+    windowId,
+    computedAt: now,
+    ...recordingTimes(recording, now),
+    talkTimeSeconds: round(talk),
+    overlapSeconds: round(overlap),
+    interruptions: sum(stats.map((speaker) => speaker.interruptions)),
+    words: sum(stats.map((speaker) => speaker.words)),
+    wordsPerMinute: perMinute(timedWords(utterances), talk),
+    silenceGaps: gaps,
+    speakers: stats.sort(
+      (a, b) =>
+        b.talkTimeSeconds - a.talkTimeSeconds ||
+        a.speaker.localeCompare(b.speaker)
+    ),
+  };
+};
@@ -0,0 +1,131 @@
+/**
+ * Recall Desktop SDK plugin auto-record policy
+ *
+ * Decides what to do with a detected meeting from declarative rules set
+ * through setConfig({ autoRecord }). The main process acts on the decision
+ * and reports it as an `auto-record-decision` event.
+ */
+
+import type {
+  AutoRecordConfig,
+  AutoRecordDecision,
+  AutoRecordRule,
+  MeetingWindow,
+} from "./shared";
+
+export const DEFAULT_AUTO_RECORD_CONFIG: AutoRecordConfig = {
+  enabled: false,
+  rules: [],
+  defaultAction: "ignore",
+};
+
+export interface AutoRecordEvaluation
+  extends Omit<AutoRecordDecision, "recordingStarted" | "error"> {
+  rule?: AutoRecordRule;
+}
+
+/**
+ * Whole-string, case-insensitive match where `*` matches anything. Patterns
+ * come from the renderer, so they are matched without a RegExp: only the
+ * last `*` is ever backtracked to, which bounds the work by the value
+ * length times the pattern length.
+ */
+export const matchesPattern = (value: string, pattern: string): boolean => {
+  const text = value.toLowerCase();
+  const glob = pattern.toLowerCase();
+  let t = 0;
+  let p = 0;
+  // Position of the last star seen, and where in the text it started
+  let star = -1;
+  let starText = 0;
+
+  while (t < text.length) {
+    if (p < glob.length && glob[p] === "*") {
+      star = p++;
+      starText = t;
+    } else if (p < glob.length && glob[p] === text[t]) {
+      p++;
+      t++;
+    } else if (star !== -1) {
+      // Let the last star swallow one more character and retry
+      p = star + 1;
+      t = ++starText;
+    } else {
+      return false;
+    }
+  }
+  while (p < glob.length && glob[p] === "*") {
+    p++;
+  }
+  return p === glob.length;
+};
+
+const describeRule = (rule: AutoRecordRule): string[] => {
+  const criteria: string[] = [];
+  if (rule.platforms) {
+    criteria.push(`platform in [${rule.platforms.join(", ")}]`);
+  }
+  if (rule.urlPattern) {
+    criteria.push(`URL matches "${rule.urlPattern}"`);
+  }
+  if (rule.titlePattern) {
+    criteria.push(`title matches "${rule.titlePattern}"`);
+  }
+  return criteria;
+};
+
+const matchesRule = (window: MeetingWindow, rule: AutoRecordRule): boolean => {
+  if (
+    rule.platforms &&
+    !rule.platforms.some(
+      (platform) => platform.toLowerCase() === window.platform?.toLowerCase()
+    )
+  ) {
+    return false;
+  }
+  if (
+    rule.urlPattern &&
+    (!window.url || !matchesPattern(window.url, rule.urlPattern))
+  ) {
+    return false;
+  }
+  if (
+    rule.titlePattern &&
+    (!window.title || !matchesPattern(window.title, rule.titlePattern))
+  ) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Pick the action for a detected meeting: the first matching rule wins,
+ * otherwise the default action applies
+ */
+export const evaluateAutoRecord = (
+  window: MeetingWindow,
+  config: AutoRecordConfig
+): AutoRecordEvaluation => {
+  const ruleIndex = config.rules.findIndex((rule) => matchesRule(window, rule));
+  if (ruleIndex === -1) {
+    return {
+      window: { ...window },
+      action: config.defaultAction,
+      reason: `No rule matched; default action is "${config.defaultAction}"`,
+    };
+  }
+
+  const rule = config.rules[ruleIndex];
+  const criteria = describeRule(rule);
+  const label = rule.id ? `"${rule.id}"` : `#${ruleIndex + 1}`;
+  return {
+    window: { ...window },
+    action: rule.action,
+    ruleIndex,
+    ruleId: rule.id,
+    rule,
+    reason: criteria.length
+      ? `Rule ${label} matched (${criteria.join(", ")})`
+      : `Rule ${label} matches every meeting`,
+  };
+};
@@ -0,0 +1,184 @@
+/**
+ * Recall Desktop SDK plugin auto-stop safeguards
+ *
+ * Stops recordings that would otherwise run on unattended: when the meeting
+ * window closes, when a recording exceeds the maximum duration, and when
+ * media capture has been lost for longer than a grace period. Each stop is
+ * reported once with the reason that triggered it.
+ */
+
+import { toApiError } from "./errors";
+import { createLogger } from "./logger";
+import type {
+  AutoStopConfig,
+  AutoStopReason,
+  RecordingAutoStoppedEvent,
+  RecordingSession,
+} from "./shared";
+
+export interface AutoStopSteps {
+  getConfig: () => AutoStopConfig;
+  getRecording: (windowId: string) => RecordingSession | undefined;
+  stopRecording: (windowId: string) => Promise<void>;
+  onStopped: (event: RecordingAutoStoppedEvent) => void;
+}
+
+type Timer = ReturnType<typeof setTimeout>;
+
+const log = createLogger("RecallAutoStop");
+
+export const DEFAULT_AUTO_STOP_CONFIG: AutoStopConfig = {
+  onMeetingClosed: true,
+  maxDurationMinutes: 0,
+  captureLossGraceSeconds: 0,
+};
+
+export class AutoStopMonitor {
+  private durationTimers = new Map<string, Timer>();
+  // Keyed by `${windowId}:${type}`, one per media type that stopped capturing
+  private captureLossTimers = new Map<string, Timer>();
+  // Same keys, for media types last reported as not capturing
+  private captureLost = new Set<string>();
+  private stopping = new Set<string>();
+
+  constructor(private readonly steps: AutoStopSteps) {}
+
+  /**
+   * Arm the maximum duration timer for a recording that just started
+   */
+  recordingStarted(windowId: string): void {
+    this.clear(windowId);
+    const { maxDurationMinutes } = this.steps.getConfig();
+    if (maxDurationMinutes > 0) {
+      this.durationTimers.set(
+        windowId,
+        setTimeout(
+          () => void this.stop(windowId, "max-duration"),
+          maxDurationMinutes * 60 * 1000
+        )
+      );
+    }
+  }
+
+  recordingEnded(windowId: string): void {
+    this.clear(windowId);
+    this.stopping.delete(windowId);
+  }
+
+  /**
+   * Capture loss is ignored while paused, so a grace period that ran out
+   * during the pause starts again for media types still not capturing
+   */
+  recordingResumed(windowId: string): void {
+    this.captureLost.forEach((key) => {
+      if (key.startsWith(`${windowId}:`)) {
+        this.armCaptureLoss(windowId, key);
+      }
+    });
+  }
+
+  meetingClosed(windowId: string): void {
+    if (this.steps.getConfig().onMeetingClosed) {
+      void this.stop(windowId, "meeting-closed");
+    }
+  }
+
+  /**
+   * Track `media-capture-status`: capture lost for longer than the grace
+   * period stops the recording, capture coming back cancels that
+   */
+  captureStatusChanged(
+    windowId: string,
+    type: string,
+    capturing: boolean
+  ): void {
+    const key = `${windowId}:${type}`;
+    if (capturing) {
+      this.captureLost.delete(key);
+      const pending = this.captureLossTimers.get(key);
+      if (pending) {
+        clearTimeout(pending);
+        this.captureLossTimers.delete(key);
+      }
+      return;
+    }
+
+    this.captureLost.add(key);
+    this.armCaptureLoss(windowId, key);
+  }
+
+  reset(): void {
+    this.durationTimers.forEach((timer) => clearTimeout(timer));
+    this.durationTimers.clear();
+    this.captureLossTimers.forEach((timer) => clearTimeout(timer));
+    this.captureLossTimers.clear();
+    this.captureLost.clear();
+    this.stopping.clear();
+  }
+
+  private armCaptureLoss(windowId: string, key: string): void {
+    const { captureLossGraceSeconds } = this.steps.getConfig();
+    if (this.captureLossTimers.has(key) || captureLossGraceSeconds <= 0) {
+      return;
+    }
+    this.captureLossTimers.set(
+      key,
+      setTimeout(() => {
+        this.captureLossTimers.delete(key);
+        void this.stop(windowId, "capture-lost");
+      }, captureLossGraceSeconds * 1000)
+    );
+  }
+
+  private clear(windowId: string): void {
+    const timer = this.durationTimers.get(windowId);
+    if (timer) {
+      clearTimeout(timer);
+      this.durationTimers.delete(windowId);
+    }
+    this.captureLossTimers.forEach((pending, key) => {
+      if (key.startsWith(`${windowId}:`)) {
+        clearTimeout(pending);
+        this.captureLossTimers.delete(key);
+      }
+    });
+    this.captureLost.forEach((key) => {
+      if (key.startsWith(`${windowId}:`)) {
+        this.captureLost.delete(key);
+      }
+    });
+  }
+
+  private async stop(windowId: string, reason: AutoStopReason): Promise<void> {
+    const session = this.steps.getRecording(windowId);
+    // Capture is expected to stop while paused
+    const stoppable =
+      session?.state === "recording" ||
+      (session?.state === "paused" && reason !== "capture-lost");
+    if (!session || !stoppable || this.stopping.has(windowId)) {
+      return;
+    }
+
+    this.stopping.add(windowId);
+    this.clear(windowId);
+    log.info(`Auto-stopping recording ${windowId}: ${reason}`);
+
+    const event: RecordingAutoStoppedEvent = {
+      windowId,
+      window: session.window,
+      reason,
+    };
+    try {
+      await this.steps.stopRecording(windowId);
+    } catch (error) {
+      log.error(`Failed to auto-stop recording ${windowId}`, error);
+      this.stopping.delete(windowId);
+      event.error = toApiError(
+        error,
+        "RECORDING_ERROR",
+        "Failed to stop recording"
+      );
+    }
+    this.steps.onStopped(event);
+  }
+}
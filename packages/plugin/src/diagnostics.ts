@@ -0,0 +1,140 @@
+/**
+ * Recall Desktop SDK plugin diagnostics bundle
+ *
+ * Assembles the state support needs into a single JSON document and strips
+ * anything secret (upload tokens, credentials, URL query strings such as
+ * meeting passcodes) and any meeting content (transcript text) first.
+ */
+
+import type { DiagnosticsBundle, LogEntry } from "./shared";
+
+const REDACTED = "[REDACTED]";
+
+// Events whose payloads are meeting content (transcript text, audio,
+// frames); they are never logged or exported in full
+export const CONTENT_EVENT_TYPES: ReadonlySet<string> = new Set([
+  "realtime-event",
+  "transcript-updated",
+  "transcript-match",
+]);
+
+// Object keys holding URLs, e.g. "url" or "meetingUrl"
+const URL_KEY_PATTERN = /url$/i;
+
+// Object keys whose values are never exported
+const SECRET_KEY_PATTERN =
+  /token|secret|password|passwd|authori[sz]ation|api[_-]?key|cookie|credential/i;
+
+// Secrets embedded in free text, e.g. log messages
+const SECRET_TEXT_PATTERNS: Array<[RegExp, string]> = [
+  [/(bearer\s+)[\w.~+/-]+=*/gi, `$1${REDACTED}`],
+  [
+    /((?:upload[_-]?)?token["']?\s*[:=]\s*["']?)[^\s"'&,}]+/gi,
+    `$1${REDACTED}`,
+  ],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED],
+];
+
+const MAX_DEPTH = 20;
+
+const redactText = (value: string): string =>
+  SECRET_TEXT_PATTERNS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    value
+  );
+
+/**
+ * Deep-copy a value, replacing secrets with "[REDACTED]"
+ */
+export const redactSecrets = <T>(value: T, depth = 0): T => {
+  if (typeof value === "string") {
+    return redactText(value) as unknown as T;
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Truncated]" as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item, depth + 1)) as unknown as T;
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && item !== undefined && item !== null
+        ? REDACTED
+        : redactSecrets(item, depth + 1),
+    ])
+  ) as T;
+};
+
+/**
+ * Drop the query string and fragment, which may carry tokens
+ */
+export const stripUrlSecrets = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.search = "";
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+};
+
+/**
+ * Deep-copy a value, stripping the query string from every URL field
+ */
+const stripUrlFields = <T>(value: T, depth = 0): T => {
+  if (!value || typeof value !== "object" || depth >= MAX_DEPTH) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => stripUrlFields(item, depth + 1)) as unknown as T;
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      URL_KEY_PATTERN.test(key) && typeof item === "string"
+        ? stripUrlSecrets(item)
+        : stripUrlFields(item, depth + 1),
+    ])
+  ) as T;
+};
+
+// Log entries written by older versions may carry content event payloads
+const withoutContent = (entries: LogEntry[]): LogEntry[] =>
+  entries.map((entry) =>
+    CONTENT_EVENT_TYPES.has(entry.message)
+      ? { ...entry, data: undefined }
+      : entry
+  );
+
+/**
+ * Remove meeting content and secrets from a bundle
+ */
+export const scrubDiagnostics = (
+  bundle: DiagnosticsBundle
+): DiagnosticsBundle =>
+  redactSecrets(
+    stripUrlFields({
+      ...bundle,
+      recentEvents: Object.fromEntries(
+        Object.entries(bundle.recentEvents).filter(
+          ([type]) => !CONTENT_EVENT_TYPES.has(type)
+        )
+      ),
+      errors: withoutContent(bundle.errors),
+      logs: withoutContent(bundle.logs),
+    })
+  );
+
+/**
+ * Scrub a bundle and encode it as UTF-8 JSON
+ */
+export const serializeDiagnostics = (bundle: DiagnosticsBundle): Uint8Array =>
+  new TextEncoder().encode(JSON.stringify(scrubDiagnostics(bundle), null, 2));
+
+export const getDiagnosticsFileName = (date = new Date()): string =>
+  `recall-desktop-diagnostics-${date.toISOString().replace(/[:.]/g, "-")}.json`;
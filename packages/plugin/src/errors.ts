@@ -0,0 +1,84 @@
+/**
+ * Recall Desktop SDK plugin error mapping
+ *
+ * Turns thrown errors (our own RecallSdkError or whatever the native SDK
+ * rejects with) into the structured `ApiError` sent back over IPC.
+ */
+
+import {
+  ApiError,
+  ApiResponse,
+  RECALL_ERROR_CODES,
+  RecallErrorCode,
+  RecallSdkError,
+} from "./shared";
+
+// Best-effort classification of native SDK error messages
+const SDK_MESSAGE_PATTERNS: Array<[RegExp, RecallErrorCode]> = [
+  [/permission|not authori[sz]ed|access denied/i, "PERMISSION_MISSING"],
+  [
+    /upload[ _-]?token|invalid token|token (is )?(invalid|expired)/i,
+    "INVALID_UPLOAD_TOKEN",
+  ],
+  [
+    /window.*(not found|unknown|invalid|does not exist)|no such window/i,
+    "WINDOW_NOT_FOUND",
+  ],
+  [/not initiali[sz]ed/i, "SDK_NOT_INITIALIZED"],
+];
+
+const getErrorMessage = (error: unknown): string | undefined => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  if (error && typeof (error as any).message === "string") {
+    return (error as any).message;
+  }
+  return undefined;
+};
+
+/**
+ * Build the structured error for a failure
+ * @param error The thrown value
+ * @param fallbackCode Code to use when the error cannot be classified
+ * @param fallbackMessage Message to use for errors that are not RecallSdkError
+ */
+export const toApiError = (
+  error: unknown,
+  fallbackCode: RecallErrorCode,
+  fallbackMessage: string
+): ApiError => {
+  if (error instanceof RecallSdkError) {
+    const code = error.code ?? fallbackCode;
+    return {
+      code,
+      message: error.message,
+      sdkMessage: error.sdkMessage,
+      retryable: RECALL_ERROR_CODES[code].retryable,
+    };
+  }
+
+  const sdkMessage = getErrorMessage(error);
+  const match = sdkMessage
+    ? SDK_MESSAGE_PATTERNS.find(([pattern]) => pattern.test(sdkMessage))
+    : undefined;
+  const code = match ? match[1] : fallbackCode;
+
+  return {
+    code,
+    message: fallbackMessage,
+    sdkMessage,
+    retryable: RECALL_ERROR_CODES[code].retryable,
+  };
+};
+
+/**
+ * Build a failed ApiResponse for a caught error
+ */
+export const errorResponse = <T = any>(
+  error: unknown,
+  fallbackCode: RecallErrorCode,
+  fallbackMessage: string
+): ApiResponse<T> => {
+  const apiError = toApiError(error, fallbackCode, fallbackMessage);
+  return { success: false, message: apiError.message, error: apiError };
+};
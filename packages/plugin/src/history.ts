@@ -0,0 +1,249 @@
+/**
+ * Recall Desktop SDK plugin recording history journal
+ *
+ * Every finished recording is appended as a JSON line to
+ * `<userData>/recall-desktop/history.jsonl`, so the app can show recent
+ * meetings without a network connection. Entries older than the retention
+ * period, or beyond the entry cap, are pruned by rewriting the file.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { createLogger } from "./logger";
+import type {
+  MeetingAnalytics,
+  MeetingWindow,
+  RecordingHistoryEntry,
+  RecordingHistoryQuery,
+  RecordingOutcome,
+  RecordingSession,
+} from "./shared";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_QUERY_LIMIT = 50;
+
+const log = createLogger("RecordingHistory");
+
+export interface HistoryRetention {
+  maxAgeDays: number;
+  maxEntries: number;
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxAgeDays: 90,
+  maxEntries: 500,
+};
+
+/**
+ * Build the journal entry for a recording session that has ended
+ */
+export const toHistoryEntry = (
+  session: RecordingSession,
+  outcome: RecordingOutcome,
+  analytics?: MeetingAnalytics
+): RecordingHistoryEntry => {
+  const endedAt = session.endedAt ?? Date.now();
+  return {
+    id: `${session.windowId}-${session.startedAt ?? endedAt}`,
+    windowId: session.windowId,
+    platform: session.window.platform,
+    title: session.window.title,
+    url: session.window.url,
+    startedAt: session.startedAt,
+    endedAt,
+    pauses: (session.pauses ?? []).map((pause) => ({ ...pause })),
+    initiatorWebContentsId: session.initiatorWebContentsId,
+    outcome,
+    lastError: session.lastError,
+    analytics,
+  };
+};
+
+/**
+ * Build the journal entry for a recording that failed to start
+ */
+export const toFailedStartEntry = (
+  window: MeetingWindow,
+  lastError: string,
+  initiatorWebContentsId?: number
+): RecordingHistoryEntry => {
+  const endedAt = Date.now();
+  return {
+    id: `${window.id}-${endedAt}`,
+    windowId: window.id,
+    platform: window.platform,
+    title: window.title,
+    url: window.url,
+    endedAt,
+    pauses: [],
+    initiatorWebContentsId,
+    outcome: "failed",
+    lastError,
+  };
+};
+
+class RecordingHistory {
+  private filePath: string | null = null;
+  private entries: RecordingHistoryEntry[] = [];
+  private writeQueue: Promise<void> = Promise.resolve();
+  private retention: HistoryRetention = DEFAULT_HISTORY_RETENTION;
+
+  /**
+   * Load the journal, pruning anything outside the retention limits
+   * @param filePath Journal file, normally `<userData>/recall-desktop/history.jsonl`
+   */
+  async initialize(filePath: string): Promise<void> {
+    this.filePath = filePath;
+    this.entries = await this.readEntries(filePath);
+    log.info(`Loaded ${this.entries.length} recording(s) from history`);
+    if (this.prune()) {
+      await this.rewrite();
+    }
+  }
+
+  /**
+   * Change the retention limits; unset limits keep their current value
+   */
+  setRetention(retention: Partial<HistoryRetention>): void {
+    this.retention = {
+      maxAgeDays: retention.maxAgeDays ?? this.retention.maxAgeDays,
+      maxEntries: retention.maxEntries ?? this.retention.maxEntries,
+    };
+    if (this.filePath && this.prune()) {
+      void this.rewrite();
+    }
+  }
+
+  getRetention(): HistoryRetention {
+    return { ...this.retention };
+  }
+
+  /**
+   * Append a finished recording to the journal
+   */
+  append(entry: RecordingHistoryEntry): Promise<void> {
+    this.entries.push(entry);
+    log.info("Recording added to history", {
+      windowId: entry.windowId,
+      outcome: entry.outcome,
+    });
+
+    if (this.prune()) {
+      return this.rewrite();
+    }
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    return this.enqueue(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8");
+    });
+  }
+
+  /**
+   * Journal entries, most recent first
+   */
+  query(query: RecordingHistoryQuery = {}): RecordingHistoryEntry[] {
+    return this.entries
+      .filter(
+        (entry) =>
+          (query.since === undefined || entry.endedAt >= query.since) &&
+          (!query.platform || entry.platform === query.platform)
+      )
+      .sort((a, b) => b.endedAt - a.endedAt)
+      .slice(0, query.limit ?? DEFAULT_QUERY_LIMIT)
+      .map((entry) => ({
+        ...entry,
+        pauses: entry.pauses.map((pause) => ({ ...pause })),
+      }));
+  }
+
+  /**
+   * Most recent journal entry for a meeting window
+   */
+  latest(windowId: string): RecordingHistoryEntry | undefined {
+    return this.query({ limit: Infinity }).find(
+      (entry) => entry.windowId === windowId
+    );
+  }
+
+  /**
+   * Resolve once every pending write is on disk
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  /**
+   * Drop entries outside the retention limits
+   * @returns whether anything was dropped
+   */
+  private prune(): boolean {
+    const cutoff = Date.now() - this.retention.maxAgeDays * DAY_MS;
+    const kept = this.entries
+      .filter((entry) => entry.endedAt >= cutoff)
+      .sort((a, b) => a.endedAt - b.endedAt)
+      .slice(-this.retention.maxEntries);
+    const pruned = kept.length !== this.entries.length;
+    this.entries = kept;
+    return pruned;
+  }
+
+  private async readEntries(
+    filePath: string
+  ): Promise<RecordingHistoryEntry[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log.error("Failed to read recording history", error);
+      }
+      return [];
+    }
+
+    const entries: RecordingHistoryEntry[] = [];
+    for (const line of contents.split("\n")) {
+      if (!line) continue;
+      try {
+        const entry = JSON.parse(line) as RecordingHistoryEntry;
+        if (typeof entry.windowId === "string" && entry.endedAt) {
+          entries.push({ ...entry, pauses: entry.pauses ?? [] });
+        }
+      } catch {
+        // Skip lines cut short by a crash mid-write
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Replace the journal with the in-memory entries (temp file + rename)
+   */
+  private rewrite(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    const contents = this.entries
+      .map((entry) => `${JSON.stringify(entry)}\n`)
+      .join("");
+    return this.enqueue(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, contents, "utf8");
+      await fs.rename(tempPath, filePath);
+    });
+  }
+
+  // Writes are best effort: failures are logged, never thrown
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write).catch((error) => {
+      log.error("Failed to write recording history", error);
+    });
+    return this.writeQueue;
+  }
+}
+
+export const recordingHistory = new RecordingHistory();
@@ -0,0 +1,182 @@
+/**
+ * Recall Desktop SDK plugin lifecycle state machine
+ *
+ * Serializes SDK init/shutdown/reinit so that concurrent callers (several
+ * windows calling initSdk, a setConfig reinit racing startRecording, ...)
+ * never leave the SDK half-initialized.
+ *
+ *   uninitialized -> initializing -> ready -> shutting-down -> uninitialized
+ *                         \-> failed -> initializing ...
+ */
+
+import { RecallSdkError, SdkLifecycleState } from "./shared";
+
+type LifecycleOperation = () => Promise<void>;
+
+export class SdkLifecycle {
+  private state: SdkLifecycleState = "uninitialized";
+  private queue: Promise<void> = Promise.resolve();
+  private pendingInit: Promise<void> | null = null;
+  private pendingShutdown: Promise<void> | null = null;
+  private pendingReinit: Promise<void> | null = null;
+
+  constructor(
+    private readonly onStateChange?: (state: SdkLifecycleState) => void
+  ) {}
+
+  getState(): SdkLifecycleState {
+    return this.state;
+  }
+
+  isReady(): boolean {
+    return this.state === "ready";
+  }
+
+  /**
+   * Initialize the SDK. Concurrent calls share the same in-flight operation
+   * and calls made while ready resolve immediately.
+   */
+  init(initialize: LifecycleOperation): Promise<void> {
+    if (this.pendingInit) {
+      return this.pendingInit;
+    }
+
+    const operation = this.enqueue(async () => {
+      if (this.state === "ready") {
+        return;
+      }
+      await this.runInit(initialize);
+    });
+
+    this.pendingInit = operation;
+    const clear = () => {
+      if (this.pendingInit === operation) this.pendingInit = null;
+    };
+    operation.then(clear, clear);
+    return operation;
+  }
+
+  /**
+   * Shut the SDK down. Concurrent calls share the same in-flight operation
+   * and calls made while already shut down resolve immediately.
+   */
+  shutdown(shutdown: LifecycleOperation): Promise<void> {
+    if (this.pendingShutdown) {
+      return this.pendingShutdown;
+    }
+
+    const operation = this.enqueue(async () => {
+      if (this.state === "uninitialized") {
+        return;
+      }
+      await this.runShutdown(shutdown);
+    });
+
+    this.pendingShutdown = operation;
+    const clear = () => {
+      if (this.pendingShutdown === operation) this.pendingShutdown = null;
+    };
+    operation.then(clear, clear);
+    return operation;
+  }
+
+  /**
+   * Shut down and initialize again as a single queued operation, so that
+   * no other command can observe the SDK in between. No-op unless ready.
+   */
+  reinit(
+    shutdown: LifecycleOperation,
+    initialize: LifecycleOperation
+  ): Promise<void> {
+    const operation = this.enqueue(async () => {
+      if (this.state !== "ready") {
+        return;
+      }
+      await this.runShutdown(shutdown);
+      await this.runInit(initialize);
+    });
+
+    this.pendingReinit = operation;
+    const clear = () => {
+      if (this.pendingReinit === operation) this.pendingReinit = null;
+    };
+    operation.then(clear, clear);
+    return operation;
+  }
+
+  /**
+   * Resolve once the SDK is ready for commands. Waits for an in-flight
+   * initialization or reinitialization; fails with a stable code in every
+   * other state.
+   */
+  async whenReady(): Promise<void> {
+    const transition =
+      this.pendingReinit ??
+      (this.state === "initializing" ? this.pendingInit : null);
+    if (transition) {
+      await transition.catch(() => undefined);
+    }
+
+    switch (this.state) {
+      case "ready":
+        return;
+      case "initializing":
+        throw new RecallSdkError(
+          "SDK is still initializing",
+          "SDK_INITIALIZING"
+        );
+      case "shutting-down":
+        throw new RecallSdkError("SDK is shutting down", "SDK_SHUTTING_DOWN");
+      case "failed":
+        throw new RecallSdkError(
+          "SDK initialization failed; call initSdk() again",
+          "SDK_INIT_ERROR"
+        );
+      default:
+        throw new RecallSdkError("SDK not initialized", "SDK_NOT_INITIALIZED");
+    }
+  }
+
+  /**
+   * Record that the SDK stopped on its own (e.g. the native process exited)
+   */
+  markStopped(): void {
+    if (this.state === "ready") {
+      this.setState("uninitialized");
+    }
+  }
+
+  private async runInit(initialize: LifecycleOperation): Promise<void> {
+    this.setState("initializing");
+    try {
+      await initialize();
+      this.setState("ready");
+    } catch (error) {
+      this.setState("failed");
+      throw error;
+    }
+  }
+
+  private async runShutdown(shutdown: LifecycleOperation): Promise<void> {
+    this.setState("shutting-down");
+    try {
+      await shutdown();
+    } finally {
+      // The native SDK is in an unknown state after a failed shutdown;
+      // treat it as stopped so a later init starts clean.
+      this.setState("uninitialized");
+    }
+  }
+
+  private enqueue(operation: LifecycleOperation): Promise<void> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private setState(state: SdkLifecycleState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.onStateChange?.(state);
+  }
+}
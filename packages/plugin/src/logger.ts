@@ -0,0 +1,260 @@
+/**
+ * Recall Desktop SDK plugin logger
+ *
+ * Structured entries from the plugin and from the SDK's `log` event are
+ * mirrored to the console, kept in memory and, once initialize() has run,
+ * appended as JSON lines to size-capped rotating files in
+ * `<userData>/recall-desktop/logs`.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { LOG_LEVELS, LogEntry, LogFilter, LogLevel } from "./shared";
+
+const LOG_FILE_NAME = "recall-desktop.log";
+// Rotate once the current file would grow past this size
+const MAX_FILE_SIZE = 1024 * 1024;
+// Current file plus rotated ones (recall-desktop.log.1, .2, ...)
+const MAX_FILES = 5;
+const MAX_MEMORY_ENTRIES = 1000;
+const DEFAULT_READ_LIMIT = 200;
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const SDK_LEVELS: Record<string, LogLevel> = {
+  debug: "debug",
+  info: "info",
+  warning: "warn",
+  error: "error",
+};
+
+export interface ScopedLogger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+// Errors do not survive JSON.stringify or IPC on their own
+const toSerializable = (data: unknown): unknown => {
+  if (data === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(
+      JSON.stringify(data, (_key, value) =>
+        value instanceof Error
+          ? { ...value, name: value.name, message: value.message }
+          : value
+      )
+    );
+  } catch {
+    return String(data);
+  }
+};
+
+// Pick up the meeting window an entry is about from its payload
+const getWindowId = (data: unknown): string | undefined => {
+  if (!data || typeof data !== "object") {
+    return undefined;
+  }
+  const { windowId, window } = data as { windowId?: unknown; window?: any };
+  if (typeof windowId === "string") return windowId;
+  if (window && typeof window.id === "string") return window.id;
+  return undefined;
+};
+
+class PluginLogger {
+  private level: LogLevel = "info";
+  private directory: string | null = null;
+  private currentSize = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private recent: LogEntry[] = [];
+
+  /**
+   * Start writing to disk. Entries logged before this are written first.
+   * @param directory Log directory, normally `<userData>/recall-desktop/logs`
+   */
+  async initialize(directory: string): Promise<void> {
+    await fs.mkdir(directory, { recursive: true });
+    try {
+      this.currentSize = (await fs.stat(path.join(directory, LOG_FILE_NAME)))
+        .size;
+    } catch {
+      this.currentSize = 0;
+    }
+    this.directory = directory;
+    this.recent.forEach((entry) => this.enqueueWrite(entry));
+  }
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_RANK[level] >= LEVEL_RANK[this.level];
+  }
+
+  /**
+   * Get a logger that tags every entry with a plugin subsystem
+   */
+  scope(subsystem: string): ScopedLogger {
+    const write = (level: LogLevel) => (message: string, data?: unknown) =>
+      this.write({ level, source: "plugin", subsystem, message, data });
+    return {
+      debug: write("debug"),
+      info: write("info"),
+      warn: write("warn"),
+      error: write("error"),
+    };
+  }
+
+  /**
+   * Capture a payload of the SDK's `log` event
+   */
+  captureSdkLog(evt: any): void {
+    this.write({
+      level: SDK_LEVELS[evt?.level] ?? "info",
+      source: "sdk",
+      subsystem: evt?.subsystem || "sdk",
+      category: evt?.category || undefined,
+      windowId: evt?.window_id || undefined,
+      message: String(evt?.message ?? ""),
+    });
+  }
+
+  /**
+   * Recent entries, oldest first. Reads the log files (so entries from
+   * previous runs are included) once the logger has been initialized.
+   */
+  async getEntries(filter: LogFilter = {}): Promise<LogEntry[]> {
+    const entries = this.directory
+      ? await this.readFiles(this.directory)
+      : [...this.recent];
+    const minimum = LEVEL_RANK[filter.level ?? "debug"];
+    const matching = entries.filter(
+      (entry) =>
+        LEVEL_RANK[entry.level] >= minimum &&
+        (!filter.subsystem || entry.subsystem === filter.subsystem) &&
+        (!filter.windowId || entry.windowId === filter.windowId)
+    );
+    return matching.slice(-(filter.limit ?? DEFAULT_READ_LIMIT));
+  }
+
+  /**
+   * Resolve once every entry logged so far is on disk
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  private write(entry: Omit<LogEntry, "timestamp">): void {
+    if (!this.isEnabled(entry.level)) {
+      return;
+    }
+
+    const prefix = `${entry.subsystem}: ${entry.message}`;
+    const args = entry.data === undefined ? [prefix] : [prefix, entry.data];
+    if (entry.level === "error") console.error(...args);
+    else if (entry.level === "warn") console.warn(...args);
+    else console.log(...args);
+
+    const logged: LogEntry = {
+      timestamp: Date.now(),
+      ...entry,
+      windowId: entry.windowId ?? getWindowId(entry.data),
+      data: toSerializable(entry.data),
+    };
+    this.recent.push(logged);
+    if (this.recent.length > MAX_MEMORY_ENTRIES) {
+      this.recent.splice(0, this.recent.length - MAX_MEMORY_ENTRIES);
+    }
+    this.enqueueWrite(logged);
+  }
+
+  private enqueueWrite(entry: LogEntry): void {
+    const directory = this.directory;
+    if (!directory) {
+      return;
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writeQueue = this.writeQueue
+      .then(() => this.append(directory, line))
+      .catch((error) => {
+        // Not through the logger itself, to avoid looping on a broken disk
+        console.error("PluginLogger: Failed to write log file:", error);
+      });
+  }
+
+  private async append(directory: string, line: string): Promise<void> {
+    const size = Buffer.byteLength(line);
+    if (this.currentSize > 0 && this.currentSize + size > MAX_FILE_SIZE) {
+      await this.rotate(directory);
+    }
+    await fs.appendFile(path.join(directory, LOG_FILE_NAME), line, "utf8");
+    this.currentSize += size;
+  }
+
+  private async rotate(directory: string): Promise<void> {
+    const file = path.join(directory, LOG_FILE_NAME);
+    await fs.rm(`${file}.${MAX_FILES - 1}`, { force: true });
+    for (let index = MAX_FILES - 2; index >= 1; index--) {
+      await fs
+        .rename(`${file}.${index}`, `${file}.${index + 1}`)
+        .catch(() => undefined);
+    }
+    await fs.rename(file, `${file}.1`);
+    this.currentSize = 0;
+  }
+
+  private async readFiles(directory: string): Promise<LogEntry[]> {
+    await this.writeQueue;
+    const file = path.join(directory, LOG_FILE_NAME);
+    const files = [
+      ...Array.from(
+        { length: MAX_FILES - 1 },
+        (_value, index) => `${file}.${MAX_FILES - 1 - index}`
+      ),
+      file,
+    ];
+
+    const entries: LogEntry[] = [];
+    for (const filePath of files) {
+      let contents: string;
+      try {
+        contents = await fs.readFile(filePath, "utf8");
+      } catch {
+        continue;
+      }
+      for (const line of contents.split("\n")) {
+        if (!line) continue;
+        try {
+          const entry = JSON.parse(line) as LogEntry;
+          if (LOG_LEVELS.includes(entry.level)) {
+            entries.push(entry);
+          }
+        } catch {
+          // Skip lines cut short by a crash mid-write
+        }
+      }
+    }
+    return entries;
+  }
+}
+
+export const logger = new PluginLogger();
+
+/**
+ * Logger for a plugin subsystem, e.g. `createLogger("RecallDesktopMain")`
+ */
+export const createLogger = (subsystem: string): ScopedLogger =>
+  logger.scope(subsystem);
@@ -8,7 +8,9 @@
  * - Event forwarding from SDK to frontend
  */
 
-import { ipcMain } from "electron";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { app, BrowserWindow, dialog, ipcMain, powerMonitor } from "electron";
 import {
   IPC_CHANNELS,
   ApiResponse,
@@ -16,32 +18,321 @@ import {
   RecallSdkError,
   StartRecordingRequest,
   StopRecordingRequest,
+  UploadTokenRequestOptions,
   PauseRecordingRequest,
   ResumeRecordingRequest,
   UploadRecordingRequest,
+  GetRecordingRequest,
+  RecordingSession,
+  RecordingHistoryEntry,
+  RecordingHistoryQuery,
   PermissionType,
+  PermissionStatusMap,
+  MeetingWindow,
+  SubscribeOptions,
+  SubscribeResponse,
   SdkInitOptions,
   PrepareDesktopAudioRecordingConfig,
   PrepareDesktopAudioResponse,
   RecallSdkConfig,
   RecallSdkEventType,
+  RecallEventType,
+  PLUGIN_EVENT_TYPES,
+  PluginEventType,
+  SdkRecoveredEvent,
+  SdkRecoveryFailedEvent,
+  AutoRecordDecision,
+  QuitRequestedEvent,
+  PowerPauseReason,
+  Transcript,
+  TranscriptExport,
+  ParticipantRoster,
+  MeetingAnalytics,
+  TranscriptRule,
+  ExportTranscriptRequest,
+  LogEntry,
+  LogFilter,
+  DiagnosticsBundle,
+  DiagnosticsDebugDumps,
+  DiagnosticsExport,
+  ExportDiagnosticsOptions,
   PluginContext,
 } from "./shared";
 import { recallSdkStore, setPluginContext } from "./store";
-import RecallAiSdk from "@recallai/desktop-sdk";
+import { recordingRegistry } from "./recordings";
+import { detectedMeetings } from "./meetings";
+import {
+  recordingHistory,
+  toFailedStartEntry,
+  toHistoryEntry,
+} from "./history";
+import { eventReplayBuffer } from "./replay";
+import { SdkLifecycle } from "./lifecycle";
+import { SdkRecoverySupervisor } from "./recovery";
+import { QuitCoordinator } from "./quit";
+import { PowerActionController } from "./power";
+import { AutoStopMonitor } from "./autoStop";
+import { transcriptAssembler } from "./transcript";
+import { participantRosters } from "./participants";
+import { computeMeetingAnalytics } from "./analytics";
+import { MAX_TRANSCRIPT_RULES, transcriptRules } from "./transcriptRules";
+import { exportTranscript } from "./transcriptFormats";
+import { errorResponse, toApiError } from "./errors";
+import { uploadTokenProvider } from "./uploadTokens";
+import { evaluateAutoRecord } from "./autoRecord";
+import { findBlockedPattern, redactMeetingDetails } from "./privacy";
+import { createLogger, logger } from "./logger";
+import { getPluginDataPath } from "./paths";
+import {
+  CONTENT_EVENT_TYPES,
+  getDiagnosticsFileName,
+  serializeDiagnostics,
+} from "./diagnostics";
+import {
+  authorizeSender,
+  validateConfigUpdate,
+  validateDesktopAudioConfig,
+  validateDiagnosticsOptions,
+  validateEventType,
+  validateExportTranscriptRequest,
+  validateHistoryQuery,
+  validateUploadTokenRequest,
+  validateLogFilter,
+  validateProcessName,
+  validatePermissionType,
+  validateQuitResponse,
+  validateRemoveTranscriptRuleRequest,
+  validateStartRecordingRequest,
+  validateSubscribeOptions,
+  validateTranscriptRule,
+  validateWindowRequest,
+} from "./validation";
+import RecallAiSdk, {
+  dumpAllApplications,
+  dumpAXTree,
+} from "@recallai/desktop-sdk";
+
+// SDK events the main process always listens to, regardless of renderer
+// subscriptions, so that internal state stays accurate
+const TRACKED_EVENT_TYPES: RecallSdkEventType[] = [
+  "meeting-detected",
+  "meeting-updated",
+  "meeting-closed",
+  "recording-started",
+  "recording-ended",
+  "media-capture-status",
+  "realtime-event",
+  "participant-capture-status",
+  "permission-status",
+  "permissions-granted",
+  "shutdown",
+  "log",
+  "error",
+];
+
+const log = createLogger("RecallDesktopMain");
+
+// How long a "quit-requested" subscriber has to answer before the quit proceeds
+const QUIT_CONFIRMATION_TIMEOUT_MS = 30000;
+
+const isPluginEventType = (
+  eventType: RecallEventType
+): eventType is PluginEventType =>
+  (PLUGIN_EVENT_TYPES as readonly string[]).includes(eventType);
+
+// Permissions acquired on startup when requestPermissionsOnStartup is set
+const STARTUP_PERMISSIONS: PermissionType[] = [
+  "accessibility",
+  "screen-capture",
+  "microphone",
+  "system-audio",
+];
 
 class RecallDesktopMain {
   private version = "1.3.10";
   private isInitialized = false;
-  private subscriptions: Map<RecallSdkEventType, Map<number, number>> =
+  private subscriptions: Map<RecallEventType, Map<number, number>> =
     new Map();
   private trackedWebContents = new Map<number, Electron.WebContents>();
   private sdkEventHandlers = new Map<RecallSdkEventType, (evt: any) => void>();
+  private readonly lifecycle = new SdkLifecycle((state) => {
+    log.info(`SDK lifecycle -> ${state}`);
+    recallSdkStore.setSdkInitialized(state === "ready");
+  });
+  // Sessions cut short by a crash, reported once recovery settles
+  private interruptedRecordings: RecordingSession[] = [];
+  // recording_config of the auto-record rule that matched each open meeting
+  private autoRecordConfigs = new Map<string, Record<string, unknown>>();
+  private readonly recovery = new SdkRecoverySupervisor(
+    () => this.lifecycle.init(() => this.initializeSdk()),
+    {
+      onRecovered: (attempts) => {
+        const event: SdkRecoveredEvent = {
+          attempts,
+          restartCount: this.recovery.getStatus().restartCount,
+          interruptedRecordings: this.takeInterruptedRecordings(),
+        };
+        this.emitPluginEvent("sdk-recovered", event);
+      },
+      onFailed: (attempts, error) => {
+        const event: SdkRecoveryFailedEvent = {
+          attempts,
+          error: toApiError(error, "SDK_INIT_ERROR", "SDK recovery failed"),
+          interruptedRecordings: this.takeInterruptedRecordings(),
+        };
+        this.emitPluginEvent("sdk-recovery-failed", event);
+      },
+    }
+  );
+  private readonly quit = new QuitCoordinator({
+    getActiveRecordings: () => recordingRegistry.getActive(),
+    isSdkRunning: () =>
+      this.lifecycle.getState() !== "uninitialized" ||
+      this.recovery.getStatus().recovering,
+    confirm: (recordings) => this.confirmQuit(recordings),
+    stopRecording: (windowId) =>
+      (RecallAiSdk.stopRecording as any)({ windowId }),
+    shutdownSdk: () => {
+      this.recovery.cancel();
+      return this.lifecycle.shutdown(() => this.shutdownSdk());
+    },
+  });
+  private readonly power = new PowerActionController({
+    getActiveRecordings: () => recordingRegistry.getActive(),
+    getRecording: (windowId) => recordingRegistry.get(windowId),
+    isMeetingDetected: (windowId) => detectedMeetings.has(windowId),
+    pauseRecording: async (windowId) => {
+      await this.lifecycle.whenReady();
+      await (RecallAiSdk.pauseRecording as any)({ windowId });
+      recordingRegistry.markPaused(windowId);
+      this.syncSdkState();
+    },
+    resumeRecording: async (windowId) => {
+      await this.lifecycle.whenReady();
+      await (RecallAiSdk.resumeRecording as any)({ windowId });
+      recordingRegistry.markResumed(windowId);
+      this.autoStop.recordingResumed(windowId);
+      this.syncSdkState();
+    },
+    stopRecording: async (windowId) => {
+      await this.lifecycle.whenReady();
+      await (RecallAiSdk.stopRecording as any)({ windowId });
+    },
+    onPaused: (event) => this.emitPluginEvent("recording-auto-paused", event),
+    onResumed: (event) =>
+      this.emitPluginEvent("recording-auto-resumed", event),
+  });
+  private readonly autoStop = new AutoStopMonitor({
+    getConfig: () => recallSdkStore.getConfig().autoStop,
+    getRecording: (windowId) => recordingRegistry.get(windowId),
+    stopRecording: async (windowId) => {
+      await this.lifecycle.whenReady();
+      await (RecallAiSdk.stopRecording as any)({ windowId });
+    },
+    onStopped: (event) => this.emitPluginEvent("recording-auto-stopped", event),
+  });
+  // Quit confirmation the host app has not answered yet
+  private pendingQuit?: {
+    requestId: string;
+    settle: (proceed: boolean) => void;
+  };
   private readonly eventSideEffects: Partial<
     Record<RecallSdkEventType, (evt: any) => void>
   > = {
+    "meeting-detected": (evt) => {
+      detectedMeetings.detected(evt.window);
+      recordingRegistry.markDetected(evt.window);
+      uploadTokenProvider.prefetch();
+      void this.applyAutoRecordPolicy(evt.window);
+    },
+    "meeting-updated": (evt) => {
+      detectedMeetings.updated(evt.window);
+      recordingRegistry.updateWindow(evt.window);
+    },
+    "meeting-closed": (evt) => {
+      this.autoStop.meetingClosed(evt.window.id);
+      detectedMeetings.closed(evt.window.id);
+      this.autoRecordConfigs.delete(evt.window.id);
+      recordingRegistry.markClosed(evt.window.id);
+    },
+    "recording-started": (evt) => {
+      recordingRegistry.markRecording(evt.window);
+      this.autoStop.recordingStarted(evt.window.id);
+      transcriptAssembler.start(evt.window);
+      participantRosters.start(evt.window);
+      this.syncSdkState();
+    },
+    "recording-ended": (evt) => {
+      this.power.forget(evt.window.id);
+      this.autoStop.recordingEnded(evt.window.id);
+      this.endRecordingData(evt.window.id);
+      const previous = recordingRegistry.get(evt.window.id);
+      const session = recordingRegistry.markEnded(evt.window.id);
+      if (session && previous && previous.state !== "ended") {
+        this.recordHistory([session]);
+      }
+      this.syncSdkState();
+    },
+    "realtime-event": (evt) => {
+      const update = transcriptAssembler.handleRealtimeEvent(evt);
+      if (update) {
+        this.emitPluginEvent("transcript-updated", update);
+        transcriptRules
+          .match(update)
+          .forEach((match) => this.emitPluginEvent("transcript-match", match));
+      }
+      const change = participantRosters.handleRealtimeEvent(evt);
+      if (change) {
+        this.emitPluginEvent("participants-changed", change);
+      }
+    },
+    "participant-capture-status": (evt) => {
+      const change = participantRosters.handleCaptureStatus(evt);
+      if (change) {
+        this.emitPluginEvent("participants-changed", change);
+      }
+    },
+    "media-capture-status": (evt) => {
+      this.autoStop.captureStatusChanged(
+        evt.window.id,
+        evt.type,
+        evt.capturing
+      );
+    },
+    error: (evt) => {
+      if (evt?.window?.id) {
+        recordingRegistry.setError(evt.window.id, String(evt.message ?? ""));
+      }
+    },
+    "permission-status": (evt) => {
+      recallSdkStore.setPermissionStatus(evt.permission, evt.status);
+    },
+    "permissions-granted": () => {
+      STARTUP_PERMISSIONS.forEach((permission) =>
+        recallSdkStore.setPermissionStatus(permission, "granted")
+      );
+    },
     shutdown: () => {
+      // Shutdowns we asked for arrive while the lifecycle is shutting down;
+      // anything that stops a ready SDK is a crash
+      const unexpected = this.lifecycle.isReady();
+      this.lifecycle.markStopped();
+      detectedMeetings.clear();
+      this.autoRecordConfigs.clear();
+      this.power.reset();
+      this.autoStop.reset();
+      const ended = recordingRegistry.endActive(unexpected);
+      ended.forEach(({ windowId }) => this.endRecordingData(windowId));
+      this.recordHistory(ended);
       recallSdkStore.clearState();
+      if (unexpected && recallSdkStore.isEnabled()) {
+        log.warn(
+          `SDK stopped unexpectedly, ${ended.length} recording(s) interrupted`,
+          this.redact(ended)
+        );
+        this.interruptedRecordings.push(...ended);
+        this.recovery.start();
+      }
     },
   };
 
@@ -50,27 +341,36 @@ class RecallDesktopMain {
       return;
     }
 
-    if (!recallSdkStore.isEnabled()) {
-      console.log("RecallDesktopMain: Plugin is disabled");
-      return;
-    }
-
     try {
-      // Initialize plugin store
+      // Log files are best effort; without them entries stay in memory
+      await logger
+        .initialize(getPluginDataPath("logs"))
+        .catch((error) => log.error("Failed to open log directory", error));
+
+      // Initialize plugin store (loads persisted configuration overrides)
       await recallSdkStore.initialize();
 
+      await recordingHistory.initialize(getPluginDataPath("history.jsonl"));
+
+      // IPC is registered even when disabled, so the app can still read the
+      // status and re-enable the plugin; initSdk refuses until it does
+      if (!recallSdkStore.isEnabled()) {
+        log.info("Plugin is disabled");
+      }
+
       // Register IPC handlers
       this.registerIpcHandlers();
 
+      app.on("before-quit", (event) => this.handleBeforeQuit(event));
+      // powerMonitor is only usable once the app is ready
+      void app.whenReady().then(() => this.watchPowerEvents());
+
       // SDK will now be initialized on-demand via IPC
 
       this.isInitialized = true;
-      console.log("RecallDesktopMain: Main process initialized");
+      log.info("Main process initialized");
     } catch (error) {
-      console.error(
-        "RecallDesktopMain: Failed to initialize main process:",
-        error
-      );
+      log.error("Failed to initialize main process", error);
       throw error;
     }
   }
@@ -82,45 +382,445 @@ class RecallDesktopMain {
       const sdkOptions: SdkInitOptions = {
         apiUrl: config.apiUrl,
         acquirePermissionsOnStartup: config.requestPermissionsOnStartup
-          ? ["accessibility", "screen-capture", "microphone", "system-audio"]
+          ? STARTUP_PERMISSIONS
           : undefined,
         restartOnError: true,
       };
 
-      console.log("RecallDesktopMain: SDK options:", sdkOptions);
+      log.info("SDK options", sdkOptions);
 
       // Initialize the Recall SDK
       await RecallAiSdk.init(sdkOptions);
 
-      recallSdkStore.setSdkInitialized(true);
-      console.log("RecallDesktopMain: SDK initialized successfully");
+      this.attachSdkListeners();
+      uploadTokenProvider.prefetch();
+
+      log.info("SDK initialized successfully");
+    } catch (error) {
+      log.error("Failed to initialize SDK", error);
+      throw new RecallSdkError(
+        "SDK initialization failed",
+        "SDK_INIT_ERROR",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  private async shutdownSdk(): Promise<void> {
+    try {
+      await (RecallAiSdk.shutdown as any)();
+    } finally {
+      detectedMeetings.clear();
+      this.autoRecordConfigs.clear();
+      this.power.reset();
+      this.autoStop.reset();
+      const ended = recordingRegistry.endActive();
+      ended.forEach(({ windowId }) => this.endRecordingData(windowId));
+      this.recordHistory(ended);
+      recallSdkStore.clearState();
+    }
+  }
+
+  /**
+   * Reinitialize the SDK if settings it was started with have changed.
+   * Queued behind any in-flight init/shutdown; commands wait for it.
+   */
+  private async reinitializeIfSdkConfigChanged(
+    previous: RecallSdkConfig
+  ): Promise<void> {
+    const current = recallSdkStore.getConfig();
+    const lifecycleState = this.lifecycle.getState();
+    if (
+      (lifecycleState === "ready" || lifecycleState === "initializing") &&
+      (current.apiUrl !== previous.apiUrl ||
+        current.requestPermissionsOnStartup !==
+          previous.requestPermissionsOnStartup)
+    ) {
+      log.info("Reinitializing SDK due to configuration change");
+      await this.lifecycle.reinit(
+        () => this.shutdownSdk(),
+        () => this.initializeSdk()
+      );
+    }
+  }
+
+  private getStatus(): PluginStatus {
+    return {
+      initialized: this.isInitialized,
+      sdkInitialized: recallSdkStore.isSdkInitialized(),
+      sdkLifecycle: this.lifecycle.getState(),
+      version: this.version,
+      config: recallSdkStore.getConfig(),
+      sdkState: recallSdkStore.getSdkState(),
+      recovery: this.recovery.getStatus(),
+      permissions: recallSdkStore.getPermissions(),
+    };
+  }
+
+  private assertDebugToolsEnabled(): void {
+    if (!recallSdkStore.isDebugToolsEnabled()) {
+      throw new RecallSdkError(
+        "Debugging tools are disabled; enable the debugTools preference",
+        "DEBUG_TOOLS_DISABLED"
+      );
+    }
+  }
+
+  /**
+   * Run the SDK debugging hooks requested for a diagnostics export. A dump
+   * that fails is reported in `errors` rather than failing the export.
+   */
+  private async collectDebugDumps(
+    options: ExportDiagnosticsOptions
+  ): Promise<DiagnosticsDebugDumps | undefined> {
+    const processes = options.includeAXTree ?? [];
+    if (!options.includeApplications && processes.length === 0) {
+      return undefined;
+    }
+    this.assertDebugToolsEnabled();
+
+    const dumps: DiagnosticsDebugDumps = {};
+    const errors: Record<string, string> = {};
+    const describe = (error: unknown) =>
+      error instanceof Error ? error.message : String(error);
+
+    try {
+      await this.lifecycle.whenReady();
     } catch (error) {
-      console.error("RecallDesktopMain: Failed to initialize SDK:", error);
-      throw new RecallSdkError("SDK initialization failed", "SDK_INIT_ERROR");
+      return { errors: { sdk: describe(error) } };
+    }
+
+    if (options.includeApplications) {
+      try {
+        dumps.applications = await dumpAllApplications();
+      } catch (error) {
+        errors.applications = describe(error);
+      }
+    }
+    for (const procName of processes) {
+      try {
+        dumps.axTrees = {
+          ...dumps.axTrees,
+          [procName]: await dumpAXTree(procName),
+        };
+      } catch (error) {
+        errors[procName] = describe(error);
+      }
+    }
+    if (Object.keys(errors).length > 0) {
+      dumps.errors = errors;
+    }
+    return dumps;
+  }
+
+  /**
+   * Collect everything a support ticket needs. Secrets, URL query strings
+   * and meeting content are removed when the bundle is serialized.
+   */
+  private async buildDiagnostics(
+    options: ExportDiagnosticsOptions
+  ): Promise<DiagnosticsBundle> {
+    const subscriptions: DiagnosticsBundle["subscriptions"] = {};
+    this.subscriptions.forEach((map, eventType) => {
+      subscriptions[eventType] = {
+        webContents: map.size,
+        listeners: Array.from(map.values()).reduce((sum, n) => sum + n, 0),
+      };
+    });
+
+    const trackedWebContents = Array.from(this.trackedWebContents.values()).map(
+      (wc) => {
+        const destroyed = wc.isDestroyed();
+        return {
+          id: wc.id,
+          url: destroyed ? "" : wc.getURL(),
+          destroyed,
+        };
+      }
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      plugin: {
+        version: this.version,
+        platform: process.platform,
+        arch: process.arch,
+        electronVersion: process.versions.electron,
+        appVersion: app.getVersion(),
+      },
+      config: recallSdkStore.getConfig(),
+      status: this.getStatus(),
+      permissions: recallSdkStore.getPermissionStatuses(),
+      recordings: this.redact(recordingRegistry.getAll()),
+      detectedMeetings: this.redact(detectedMeetings.getAll()),
+      subscriptions,
+      trackedWebContents,
+      recentEvents: this.redact(eventReplayBuffer.snapshot()),
+      errors: await logger.getEntries({ level: "error", limit: 100 }),
+      logs: await logger.getEntries({ limit: 1000 }),
+      debug: await this.collectDebugDumps(options),
+    };
+  }
+
+  /**
+   * Derive the recording state summary from the recording registry
+   */
+  private syncSdkState(): void {
+    const active = recordingRegistry.getActive();
+    if (active.some((session) => session.state === "recording")) {
+      recallSdkStore.setSdkState("recording");
+    } else if (active.length > 0) {
+      recallSdkStore.setSdkState("paused");
+    } else {
+      recallSdkStore.setSdkState("idle");
+    }
+  }
+
+  /**
+   * Journal recordings that have just ended
+   */
+  private recordHistory(sessions: RecordingSession[]): void {
+    sessions
+      .filter((session) => session.startedAt !== undefined)
+      .forEach((session) => {
+        const outcome = session.interrupted ? "interrupted" : "completed";
+        const analytics = this.computeAnalytics(session.windowId);
+        void recordingHistory.append(
+          this.redact(toHistoryEntry(session, outcome, analytics))
+        );
+      });
+  }
+
+  /**
+   * Finish the transcript and roster of a recording; both stay readable
+   */
+  private endRecordingData(windowId: string): void {
+    transcriptAssembler.end(windowId);
+    participantRosters.end(windowId);
+  }
+
+  /**
+   * Analytics of a window from its transcript, roster and recording
+   * session, or undefined if none of them is known
+   */
+  private computeAnalytics(windowId: string): MeetingAnalytics | undefined {
+    const transcript = transcriptAssembler.get(windowId);
+    const roster = participantRosters.get(windowId);
+    const recording = recordingRegistry.get(windowId);
+    if (!transcript && !roster && recording?.startedAt === undefined) {
+      return undefined;
+    }
+    return computeMeetingAnalytics(windowId, {
+      transcript,
+      roster,
+      recording,
+    });
+  }
+
+  private recordFailedStart(
+    windowId: string,
+    initiatorWebContentsId: number | undefined,
+    error: unknown
+  ): void {
+    const window = recordingRegistry.get(windowId)?.window ?? { id: windowId };
+    const message = error instanceof Error ? error.message : String(error);
+    void recordingHistory.append(
+      this.redact(toFailedStartEntry(window, message, initiatorWebContentsId))
+    );
+  }
+
+  /**
+   * Copy of a payload with meeting titles and URLs redacted as the privacy
+   * policy requires, for anything that leaves the main process
+   */
+  private redact<T>(value: T): T {
+    return redactMeetingDetails(
+      value,
+      recallSdkStore.getPrivacyPolicy().redaction
+    );
+  }
+
+  /**
+   * Refuse to record meetings on the privacy blocklist. The pattern is not
+   * reported since it may itself name a client.
+   */
+  private assertMeetingAllowed(windowId: string): void {
+    const window =
+      detectedMeetings.get(windowId) ??
+      recordingRegistry.get(windowId)?.window;
+    const policy = recallSdkStore.getPrivacyPolicy();
+    if (window && findBlockedPattern(window, policy)) {
+      throw new RecallSdkError(
+        "Recording is blocked for this meeting by the privacy blocklist",
+        "MEETING_BLOCKED"
+      );
+    }
+  }
+
+  /**
+   * Decide what to do with a newly detected meeting under the auto-record
+   * policy, start recording if the decision is "record", and report it
+   */
+  private async applyAutoRecordPolicy(window: MeetingWindow): Promise<void> {
+    const policy = recallSdkStore.getConfig().autoRecord;
+    if (!policy.enabled) {
+      return;
+    }
+
+    const { rule, ...evaluation } = evaluateAutoRecord(window, policy);
+    const decision: AutoRecordDecision = evaluation;
+    if (findBlockedPattern(window, recallSdkStore.getPrivacyPolicy())) {
+      decision.action = "ignore";
+      decision.reason = "Meeting matches the privacy blocklist";
+    }
+    // Remembered so an "ask" that the user accepts uses the rule's config
+    if (rule?.recordingConfig) {
+      this.autoRecordConfigs.set(window.id, rule.recordingConfig);
+    }
+
+    const state = recordingRegistry.get(window.id)?.state;
+    const alreadyRecording = state === "recording" || state === "paused";
+    if (decision.action === "record" && !alreadyRecording) {
+      try {
+        const uploadToken = await uploadTokenProvider.take(
+          rule?.recordingConfig
+        );
+        await this.lifecycle.whenReady();
+        await (RecallAiSdk.startRecording as any)({
+          windowId: window.id,
+          uploadToken,
+        });
+        decision.recordingStarted = true;
+        log.info("Recording started by auto-record policy", {
+          windowId: window.id,
+        });
+      } catch (error) {
+        log.error("Auto-record failed to start recording", error);
+        decision.recordingStarted = false;
+        decision.error = toApiError(
+          error,
+          "RECORDING_ERROR",
+          "Failed to start recording"
+        );
+        this.recordFailedStart(window.id, undefined, error);
+      }
+    }
+
+    this.emitPluginEvent("auto-record-decision", decision);
+  }
+
+  /**
+   * Hold the quit until recordings are stopped and the SDK is shut down,
+   * then quit again once the coordinator lets it through
+   */
+  private handleBeforeQuit(event: Electron.Event): void {
+    if (!this.quit.shouldHoldQuit()) {
+      return;
+    }
+    event.preventDefault();
+    if (this.quit.isPreparing()) {
+      return;
+    }
+    void this.quit.prepare().then((proceed) => {
+      if (proceed) {
+        app.quit();
+      }
+    });
+  }
+
+  /**
+   * Pause or stop recordings on suspend and screen lock as configured, and
+   * resume them on wake and unlock
+   */
+  private watchPowerEvents(): void {
+    const onPause = (reason: PowerPauseReason) => () => {
+      const config = recallSdkStore.getConfig();
+      const action =
+        reason === "suspend" ? config.suspendAction : config.lockAction;
+      log.info(`Power event ${reason}, action: ${action}`);
+      void this.power.handlePause(reason, action);
+    };
+    powerMonitor.on("suspend", onPause("suspend"));
+    powerMonitor.on("lock-screen", onPause("lock-screen"));
+    powerMonitor.on("resume", () => void this.power.handleResume("resume"));
+    powerMonitor.on(
+      "unlock-screen",
+      () => void this.power.handleResume("unlock-screen")
+    );
+  }
+
+  /**
+   * Ask "quit-requested" subscribers whether to quit while recording.
+   * Without a subscriber, or an answer in time, the quit proceeds.
+   */
+  private confirmQuit(recordings: RecordingSession[]): Promise<boolean> {
+    if (!this.subscriptions.get("quit-requested")?.size) {
+      return Promise.resolve(true);
     }
+
+    return new Promise((resolve) => {
+      const requestId = randomUUID();
+      const timer = setTimeout(() => {
+        log.warn("Quit confirmation timed out, quitting");
+        settle(true);
+      }, QUIT_CONFIRMATION_TIMEOUT_MS);
+      const settle = (proceed: boolean) => {
+        clearTimeout(timer);
+        this.pendingQuit = undefined;
+        resolve(proceed);
+      };
+      this.pendingQuit = { requestId, settle };
+
+      const event: QuitRequestedEvent = {
+        requestId,
+        recordings,
+        timeoutMs: QUIT_CONFIRMATION_TIMEOUT_MS,
+      };
+      // Not recorded for replay: a late subscriber cannot answer in time
+      log.info("quit-requested", this.redact(event));
+      this.broadcastEvent("quit-requested", event);
+    });
+  }
+
+  private takeInterruptedRecordings(): RecordingSession[] {
+    const sessions = this.interruptedRecordings;
+    this.interruptedRecordings = [];
+    return sessions;
   }
 
-  private broadcastEvent(type: RecallSdkEventType, data: any): void {
+  private broadcastEvent(type: RecallEventType, data: any): void {
     const channel = `recall-desktop:event:${type}`;
     const subs = this.subscriptions.get(type);
     if (!subs) return;
+    const payload = this.redact(data);
     subs.forEach((_count, wcId) => {
       const wc = this.trackedWebContents.get(wcId);
       if (!wc) return;
       try {
-        wc.send(channel, data);
+        wc.send(channel, payload);
       } catch (err) {
-        console.error(
-          "RecallDesktopMain: Failed to send event to webContents",
-          wcId,
-          err
-        );
+        log.error(`Failed to send event to webContents ${wcId}`, err);
       }
     });
   }
 
-  private ensureSdkListener(eventType: RecallSdkEventType): void {
-    if (this.sdkEventHandlers.has(eventType)) {
+  /**
+   * Attach every SDK listener after init. Handlers from a previous SDK run
+   * (e.g. before a crash) are attached again since the SDK may have
+   * dropped them.
+   */
+  private attachSdkListeners(): void {
+    this.sdkEventHandlers.forEach((handler, eventType) => {
+      RecallAiSdk.removeEventListener(eventType as any, handler);
+      RecallAiSdk.addEventListener(eventType as any, handler);
+    });
+    TRACKED_EVENT_TYPES.forEach((eventType) =>
+      this.ensureSdkListener(eventType)
+    );
+  }
+
+  private ensureSdkListener(eventType: RecallEventType): void {
+    if (isPluginEventType(eventType) || this.sdkEventHandlers.has(eventType)) {
       return;
     }
 
@@ -133,10 +833,12 @@ class RecallDesktopMain {
   }
 
   private handleSdkEvent(eventType: RecallSdkEventType, evt: any): void {
-    if (eventType === "error") {
-      console.error("RecallDesktopMain: SDK error:", evt);
+    if (eventType === "log") {
+      logger.captureSdkLog(evt);
+    } else if (eventType === "error") {
+      log.error("SDK error", this.redact(evt));
     } else {
-      console.log(`RecallDesktopMain: ${eventType}`, evt);
+      this.logEvent(eventType, evt);
     }
 
     const sideEffect = this.eventSideEffects[eventType];
@@ -144,17 +846,79 @@ class RecallDesktopMain {
       try {
         sideEffect(evt);
       } catch (error) {
-        console.error(
-          "RecallDesktopMain: Side effect failed for",
-          eventType,
-          error
-        );
+        log.error(`Side effect failed for ${eventType}`, error);
       }
     }
 
+    eventReplayBuffer.record(eventType, evt);
+    this.broadcastEvent(eventType, evt);
+  }
+
+  private emitPluginEvent(eventType: PluginEventType, evt: any): void {
+    this.logEvent(eventType, evt);
+    eventReplayBuffer.record(eventType, evt);
     this.broadcastEvent(eventType, evt);
   }
 
+  private logEvent(eventType: RecallEventType, evt: any): void {
+    // High volume, and the payload is meeting content
+    if (CONTENT_EVENT_TYPES.has(eventType)) {
+      log.debug(eventType, {
+        windowId: evt?.windowId ?? evt?.window?.id,
+        event: evt?.event,
+      });
+      return;
+    }
+    log.info(eventType, this.redact(evt));
+  }
+
+  /**
+   * Payloads to replay to a late subscriber
+   */
+  private getReplayEvents(
+    eventType: RecallEventType,
+    replay: SubscribeOptions["replay"]
+  ): any[] {
+    if (!replay) {
+      return [];
+    }
+    return eventReplayBuffer.replay(
+      eventType,
+      {
+        openMeetings: detectedMeetings.getAll(),
+        activeRecordings: recordingRegistry.getActive(),
+        sdkState:
+          this.lifecycle.getState() === "ready"
+            ? recallSdkStore.getSdkState()
+            : undefined,
+        permissionStatuses: recallSdkStore.getPermissionStatuses(),
+      },
+      typeof replay === "number" ? replay : undefined
+    );
+  }
+
+  /**
+   * Register an IPC handler that only runs for senders allowed by the
+   * sender policy. Anything the handler throws becomes an error response.
+   */
+  private handle(
+    channel: string,
+    handler: (
+      event: Electron.IpcMainInvokeEvent,
+      ...args: any[]
+    ) => Promise<unknown>
+  ): void {
+    ipcMain.handle(channel, async (event, ...args) => {
+      try {
+        authorizeSender(event, recallSdkStore.getSenderPolicy());
+        return await handler(event, ...args);
+      } catch (error) {
+        log.error(`${channel} failed`, error);
+        return errorResponse(error, "UNKNOWN_ERROR", "Request failed");
+      }
+    });
+  }
+
   private registerIpcHandlers(): void {
     const addDestroyedCleanup = (wc: Electron.WebContents) => {
       const id = wc.id;
@@ -170,10 +934,16 @@ class RecallDesktopMain {
     };
 
     // Subscribe to events
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.SUBSCRIBE_EVENTS,
-      async (event, eventType: RecallSdkEventType): Promise<ApiResponse> => {
+      async (
+        event,
+        rawEventType: unknown,
+        rawOptions?: unknown
+      ): Promise<ApiResponse<SubscribeResponse>> => {
         try {
+          const eventType = validateEventType(rawEventType);
+          const options = validateSubscribeOptions(rawOptions);
           const wc = event.sender;
           addDestroyedCleanup(wc);
           let map = this.subscriptions.get(eventType);
@@ -185,19 +955,33 @@ class RecallDesktopMain {
           const prev = map.get(id) || 0;
           map.set(id, prev + 1);
           this.ensureSdkListener(eventType);
-          return { success: true, message: `Subscribed to ${eventType}` };
+          // Snapshot in the same tick as subscribing so nothing is
+          // delivered twice or missed between replay and live events
+          const replayed = this.redact(
+            this.getReplayEvents(eventType, options?.replay)
+          );
+          return {
+            success: true,
+            message: `Subscribed to ${eventType}`,
+            data: { replayed },
+          };
         } catch (error) {
-          console.error("RecallDesktopMain: subscribe-events failed", error);
-          return { success: false, message: "Failed to subscribe to events" };
+          log.error("subscribe-events failed", error);
+          return errorResponse(
+            error,
+            "SUBSCRIPTION_ERROR",
+            "Failed to subscribe to events"
+          );
         }
       }
     );
 
     // Unsubscribe from events
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.UNSUBSCRIBE_EVENTS,
-      async (event, eventType: RecallSdkEventType): Promise<ApiResponse> => {
+      async (event, rawEventType: unknown): Promise<ApiResponse> => {
         try {
+          const eventType = validateEventType(rawEventType);
           const wc = event.sender;
           const map = this.subscriptions.get(eventType);
           if (map) {
@@ -208,147 +992,228 @@ class RecallDesktopMain {
           }
           return { success: true, message: `Unsubscribed from ${eventType}` };
         } catch (error) {
-          console.error("RecallDesktopMain: unsubscribe-events failed", error);
-          return {
-            success: false,
-            message: "Failed to unsubscribe from events",
-          };
+          log.error("unsubscribe-events failed", error);
+          return errorResponse(
+            error,
+            "SUBSCRIPTION_ERROR",
+            "Failed to unsubscribe from events"
+          );
         }
       }
     );
     // Initialize SDK
-    ipcMain.handle(IPC_CHANNELS.INIT_SDK, async (): Promise<ApiResponse> => {
+    this.handle(IPC_CHANNELS.INIT_SDK, async (): Promise<ApiResponse> => {
       try {
         if (!recallSdkStore.isEnabled()) {
           throw new RecallSdkError("Plugin is disabled", "PLUGIN_DISABLED");
         }
 
-        if (recallSdkStore.isSdkInitialized()) {
+        if (this.lifecycle.isReady()) {
           return { success: true, message: "SDK already initialized" };
         }
 
-        await this.initializeSdk();
+        // Concurrent calls share the in-flight initialization
+        await this.lifecycle.init(() => this.initializeSdk());
         return { success: true, message: "SDK initialized successfully" };
       } catch (error) {
-        console.error("RecallDesktopMain: SDK initialization failed:", error);
-        return {
-          success: false,
-          message:
-            error instanceof RecallSdkError
-              ? error.message
-              : "SDK initialization failed",
-        };
+        log.error("SDK initialization failed", error);
+        return errorResponse(
+          error,
+          "SDK_INIT_ERROR",
+          "SDK initialization failed"
+        );
       }
     });
 
     // Shutdown SDK
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.SHUTDOWN_SDK,
       async (): Promise<ApiResponse> => {
         try {
-          await (RecallAiSdk.shutdown as any)();
-          recallSdkStore.clearState();
+          this.recovery.cancel();
+          await this.lifecycle.shutdown(() => this.shutdownSdk());
           return { success: true, message: "SDK shutdown successfully" };
         } catch (error) {
-          console.error("RecallDesktopMain: SDK shutdown failed:", error);
-          return { success: false, message: "SDK shutdown failed" };
+          log.error("SDK shutdown failed", error);
+          return errorResponse(
+            error,
+            "SDK_SHUTDOWN_ERROR",
+            "SDK shutdown failed"
+          );
+        }
+      }
+    );
+
+    // Answer a "quit-requested" event
+    this.handle(
+      IPC_CHANNELS.RESPOND_TO_QUIT,
+      async (_event, rawResponse: unknown): Promise<ApiResponse> => {
+        try {
+          const response = validateQuitResponse(rawResponse);
+          if (this.pendingQuit?.requestId !== response.requestId) {
+            throw new RecallSdkError(
+              "No quit request is pending with that requestId",
+              "VALIDATION_ERROR"
+            );
+          }
+          log.info(`Quit ${response.proceed ? "confirmed" : "cancelled"}`);
+          this.pendingQuit.settle(response.proceed);
+          return {
+            success: true,
+            message: response.proceed ? "Quitting" : "Quit cancelled",
+          };
+        } catch (error) {
+          log.error("Respond to quit failed", error);
+          return errorResponse(
+            error,
+            "UNKNOWN_ERROR",
+            "Failed to respond to quit request"
+          );
         }
       }
     );
 
     // Get plugin status
-    ipcMain.handle(IPC_CHANNELS.GET_STATUS, async (): Promise<PluginStatus> => {
-      return {
-        initialized: this.isInitialized,
-        sdkInitialized: recallSdkStore.isSdkInitialized(),
-        version: this.version,
-        config: recallSdkStore.getConfig(),
-      };
-    });
+    // Unlike other channels this resolves to the status itself, so callers
+    // must check for the error response handle() sends to refused senders
+    this.handle(
+      IPC_CHANNELS.GET_STATUS,
+      async (): Promise<PluginStatus | ApiResponse<never>> => {
+        return this.getStatus();
+      }
+    );
 
     // Start recording
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.START_RECORDING,
-      async (event, request: StartRecordingRequest): Promise<ApiResponse> => {
+      async (event, rawRequest: unknown): Promise<ApiResponse> => {
+        let request: StartRecordingRequest | undefined;
         try {
-          if (!recallSdkStore.isSdkInitialized()) {
-            throw new RecallSdkError(
-              "SDK not initialized",
-              "SDK_NOT_INITIALIZED"
-            );
-          }
+          request = validateStartRecordingRequest(rawRequest);
+          this.assertMeetingAllowed(request.windowId);
+          await this.lifecycle.whenReady();
+
+          const uploadToken =
+            request.uploadToken ??
+            (await uploadTokenProvider.take(
+              this.autoRecordConfigs.get(request.windowId)
+            ));
 
           await (RecallAiSdk.startRecording as any)({
             windowId: request.windowId,
-            uploadToken: request.uploadToken,
+            uploadToken,
           });
+          recordingRegistry.setInitiator(request.windowId, event.sender.id);
+          log.info("Recording started", { windowId: request.windowId });
           return { success: true, message: "Recording started successfully" };
         } catch (error) {
-          console.error("RecallDesktopMain: Start recording failed:", error);
-          return {
-            success: false,
-            message:
-              error instanceof RecallSdkError
-                ? error.message
-                : "Failed to start recording",
-          };
+          log.error("Start recording failed", error);
+          if (request) {
+            this.recordFailedStart(request.windowId, event.sender.id, error);
+          }
+          return errorResponse(
+            error,
+            "RECORDING_ERROR",
+            "Failed to start recording"
+          );
         }
       }
     );
 
     // Stop recording
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.STOP_RECORDING,
-      async (event, request: StopRecordingRequest): Promise<ApiResponse> => {
+      async (event, rawRequest: unknown): Promise<ApiResponse> => {
         try {
+          const request: StopRecordingRequest = validateWindowRequest(
+            rawRequest,
+            "StopRecordingRequest"
+          );
+          await this.lifecycle.whenReady();
           await (RecallAiSdk.stopRecording as any)({
             windowId: request.windowId,
           });
+          log.info("Recording stopped", { windowId: request.windowId });
           return { success: true, message: "Recording stopped successfully" };
         } catch (error) {
-          console.error("RecallDesktopMain: Stop recording failed:", error);
-          return { success: false, message: "Failed to stop recording" };
+          log.error("Stop recording failed", error);
+          return errorResponse(
+            error,
+            "RECORDING_ERROR",
+            "Failed to stop recording"
+          );
         }
       }
     );
 
     // Pause recording
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.PAUSE_RECORDING,
-      async (event, request: PauseRecordingRequest): Promise<ApiResponse> => {
+      async (event, rawRequest: unknown): Promise<ApiResponse> => {
         try {
+          const request: PauseRecordingRequest = validateWindowRequest(
+            rawRequest,
+            "PauseRecordingRequest"
+          );
+          await this.lifecycle.whenReady();
           await (RecallAiSdk.pauseRecording as any)({
             windowId: request.windowId,
           });
+          recordingRegistry.markPaused(request.windowId);
+          log.info("Recording paused", { windowId: request.windowId });
+          this.syncSdkState();
           return { success: true, message: "Recording paused successfully" };
         } catch (error) {
-          console.error("RecallDesktopMain: Pause recording failed:", error);
-          return { success: false, message: "Failed to pause recording" };
+          log.error("Pause recording failed", error);
+          return errorResponse(
+            error,
+            "RECORDING_ERROR",
+            "Failed to pause recording"
+          );
         }
       }
     );
 
     // Resume recording
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.RESUME_RECORDING,
-      async (event, request: ResumeRecordingRequest): Promise<ApiResponse> => {
+      async (event, rawRequest: unknown): Promise<ApiResponse> => {
         try {
+          const request: ResumeRecordingRequest = validateWindowRequest(
+            rawRequest,
+            "ResumeRecordingRequest"
+          );
+          await this.lifecycle.whenReady();
           await (RecallAiSdk.resumeRecording as any)({
             windowId: request.windowId,
           });
+          recordingRegistry.markResumed(request.windowId);
+          this.autoStop.recordingResumed(request.windowId);
+          this.power.forget(request.windowId);
+          log.info("Recording resumed", { windowId: request.windowId });
+          this.syncSdkState();
           return { success: true, message: "Recording resumed successfully" };
         } catch (error) {
-          console.error("RecallDesktopMain: Resume recording failed:", error);
-          return { success: false, message: "Failed to resume recording" };
+          log.error("Resume recording failed", error);
+          return errorResponse(
+            error,
+            "RECORDING_ERROR",
+            "Failed to resume recording"
+          );
         }
       }
     );
 
     // Upload recording
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.UPLOAD_RECORDING,
-      async (event, request: UploadRecordingRequest): Promise<ApiResponse> => {
+      async (event, rawRequest: unknown): Promise<ApiResponse> => {
         try {
+          const request: UploadRecordingRequest = validateWindowRequest(
+            rawRequest,
+            "UploadRecordingRequest"
+          );
+          await this.lifecycle.whenReady();
           await (RecallAiSdk.uploadRecording as any)({
             windowId: request.windowId,
           });
@@ -357,20 +1222,27 @@ class RecallDesktopMain {
             message: "Upload request accepted. Recall now streams recordings during capture, so this call is retained for compatibility only.",
           };
         } catch (error) {
-          console.error("RecallDesktopMain: Upload recording failed:", error);
-          return { success: false, message: "Failed to upload recording" };
+          log.error("Upload recording failed", error);
+          return errorResponse(
+            error,
+            "RECORDING_ERROR",
+            "Failed to upload recording"
+          );
         }
       }
     );
 
     // Prepare desktop audio recording
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.PREPARE_DESKTOP_AUDIO,
       async (
         _event,
-        config?: PrepareDesktopAudioRecordingConfig
+        rawConfig?: unknown
       ): Promise<ApiResponse<PrepareDesktopAudioResponse>> => {
         try {
+          const config: PrepareDesktopAudioRecordingConfig | undefined =
+            validateDesktopAudioConfig(rawConfig);
+          await this.lifecycle.whenReady();
           const windowId = await (
             RecallAiSdk.prepareDesktopAudioRecording as any
           )(config);
@@ -380,70 +1252,116 @@ class RecallDesktopMain {
             data: { windowId },
           };
         } catch (error) {
-          console.error(
-            "RecallDesktopMain: Prepare desktop audio failed:",
-            error
+          log.error("Prepare desktop audio failed", error);
+          return errorResponse(
+            error,
+            "RECORDING_ERROR",
+            "Failed to prepare desktop audio recording"
           );
-          return {
-            success: false,
-            message: "Failed to prepare desktop audio recording",
-          };
         }
       }
     );
 
     // Request permission
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.REQUEST_PERMISSION,
-      async (event, permission: PermissionType): Promise<ApiResponse> => {
+      async (event, rawPermission: unknown): Promise<ApiResponse> => {
         try {
+          const permission: PermissionType =
+            validatePermissionType(rawPermission);
+          await this.lifecycle.whenReady();
           await (RecallAiSdk.requestPermission as any)(permission);
           return {
             success: true,
             message: `Permission request sent for ${permission}`,
           };
         } catch (error) {
-          console.error("RecallDesktopMain: Request permission failed:", error);
-          return { success: false, message: "Failed to request permission" };
+          log.error("Request permission failed", error);
+          return errorResponse(
+            error,
+            "PERMISSION_REQUEST_ERROR",
+            "Failed to request permission"
+          );
         }
       }
     );
 
+    // List meetings that are currently detected
+    this.handle(
+      IPC_CHANNELS.GET_DETECTED_MEETINGS,
+      async (): Promise<ApiResponse<MeetingWindow[]>> => {
+        return {
+          success: true,
+          message: "Detected meetings retrieved successfully",
+          data: this.redact(detectedMeetings.getAll()),
+        };
+      }
+    );
+
+    // Get raw permission statuses
+    this.handle(
+      IPC_CHANNELS.GET_PERMISSION_STATUS,
+      async (): Promise<ApiResponse<PermissionStatusMap>> => {
+        return {
+          success: true,
+          message: "Permission status retrieved successfully",
+          data: recallSdkStore.getPermissionStatuses(),
+        };
+      }
+    );
+
     // Set configuration
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.SET_CONFIG,
-      async (event, config: Partial<RecallSdkConfig>): Promise<ApiResponse> => {
+      async (event, rawConfig: unknown): Promise<ApiResponse> => {
         try {
-          recallSdkStore.setConfig(config);
-
-          // If SDK settings changed and SDK is initialized, reinitialize
-          if (
-            recallSdkStore.isSdkInitialized() &&
-            (config.apiUrl || config.requestPermissionsOnStartup !== undefined)
-          ) {
-            console.log(
-              "RecallDesktopMain: Reinitializing SDK due to configuration change"
-            );
-            await (RecallAiSdk.shutdown as any)();
-            await this.initializeSdk();
-          }
+          const config: Partial<RecallSdkConfig> =
+            validateConfigUpdate(rawConfig);
+          const previous = recallSdkStore.getConfig();
+          await recallSdkStore.setConfig(config);
+          await this.reinitializeIfSdkConfigChanged(previous);
 
           return {
             success: true,
             message: "Configuration updated successfully",
           };
         } catch (error) {
-          console.error(
-            "RecallDesktopMain: Failed to set configuration:",
-            error
+          log.error("Failed to set configuration", error);
+          return errorResponse(
+            error,
+            "CONFIG_ERROR",
+            "Failed to update configuration"
+          );
+        }
+      }
+    );
+
+    // Drop runtime configuration overrides
+    this.handle(
+      IPC_CHANNELS.RESET_CONFIG,
+      async (): Promise<ApiResponse<RecallSdkConfig>> => {
+        try {
+          const previous = recallSdkStore.getConfig();
+          await recallSdkStore.resetConfig();
+          await this.reinitializeIfSdkConfigChanged(previous);
+          return {
+            success: true,
+            message: "Configuration reset successfully",
+            data: recallSdkStore.getConfig(),
+          };
+        } catch (error) {
+          log.error("Failed to reset configuration", error);
+          return errorResponse(
+            error,
+            "CONFIG_ERROR",
+            "Failed to reset configuration"
           );
-          return { success: false, message: "Failed to update configuration" };
         }
       }
     );
 
     // Get configuration
-    ipcMain.handle(
+    this.handle(
       IPC_CHANNELS.GET_CONFIG,
       async (): Promise<ApiResponse<RecallSdkConfig>> => {
         return {
@@ -453,6 +1371,384 @@ class RecallDesktopMain {
         };
       }
     );
+
+    // List tracked recording sessions
+    this.handle(
+      IPC_CHANNELS.GET_RECORDINGS,
+      async (): Promise<ApiResponse<RecordingSession[]>> => {
+        return {
+          success: true,
+          message: "Recordings retrieved successfully",
+          data: this.redact(recordingRegistry.getAll()),
+        };
+      }
+    );
+
+    // Get a single tracked recording session
+    this.handle(
+      IPC_CHANNELS.GET_RECORDING,
+      async (
+        _event,
+        rawRequest: unknown
+      ): Promise<ApiResponse<RecordingSession | null>> => {
+        const request: GetRecordingRequest = validateWindowRequest(
+          rawRequest,
+          "GetRecordingRequest"
+        );
+        const session = recordingRegistry.get(request.windowId);
+        return {
+          success: true,
+          message: session
+            ? "Recording retrieved successfully"
+            : `No recording tracked for window ${request.windowId}`,
+          data: session ? this.redact(session) : null,
+        };
+      }
+    );
+
+    // Live transcript of a meeting window, also after it ended
+    this.handle(
+      IPC_CHANNELS.GET_TRANSCRIPT,
+      async (
+        _event,
+        rawRequest: unknown
+      ): Promise<ApiResponse<Transcript | null>> => {
+        const request: GetRecordingRequest = validateWindowRequest(
+          rawRequest,
+          "GetTranscriptRequest"
+        );
+        const transcript = transcriptAssembler.get(request.windowId);
+        return {
+          success: true,
+          message: transcript
+            ? "Transcript retrieved successfully"
+            : `No transcript for window ${request.windowId}`,
+          data: transcript ? this.redact(transcript) : null,
+        };
+      }
+    );
+
+    // Participant roster of a meeting window, also after it ended
+    this.handle(
+      IPC_CHANNELS.GET_PARTICIPANTS,
+      async (
+        _event,
+        rawRequest: unknown
+      ): Promise<ApiResponse<ParticipantRoster | null>> => {
+        const request: GetRecordingRequest = validateWindowRequest(
+          rawRequest,
+          "GetParticipantsRequest"
+        );
+        const roster = participantRosters.get(request.windowId);
+        return {
+          success: true,
+          message: roster
+            ? "Participants retrieved successfully"
+            : `No participants tracked for window ${request.windowId}`,
+          data: roster ? this.redact(roster) : null,
+        };
+      }
+    );
+
+    // Meeting analytics, computed live or read from the history journal
+    // once the window's data is gone
+    this.handle(
+      IPC_CHANNELS.GET_MEETING_ANALYTICS,
+      async (
+        _event,
+        rawRequest: unknown
+      ): Promise<ApiResponse<MeetingAnalytics | null>> => {
+        const request: GetRecordingRequest = validateWindowRequest(
+          rawRequest,
+          "GetMeetingAnalyticsRequest"
+        );
+        const analytics =
+          this.computeAnalytics(request.windowId) ??
+          recordingHistory.latest(request.windowId)?.analytics;
+        return {
+          success: true,
+          message: analytics
+            ? "Meeting analytics computed successfully"
+            : `No meeting data for window ${request.windowId}`,
+          data: analytics ?? null,
+        };
+      }
+    );
+
+    // Transcript watch rules, matched against every window's transcript
+    this.handle(
+      IPC_CHANNELS.SET_TRANSCRIPT_RULE,
+      async (
+        _event,
+        rawRule: unknown
+      ): Promise<ApiResponse<TranscriptRule>> => {
+        try {
+          const rule = validateTranscriptRule(rawRule);
+          if (
+            !transcriptRules.has(rule.id) &&
+            transcriptRules.size >= MAX_TRANSCRIPT_RULES
+          ) {
+            throw new RecallSdkError(
+              `At most ${MAX_TRANSCRIPT_RULES} transcript rules can be set`,
+              "VALIDATION_ERROR"
+            );
+          }
+          return {
+            success: true,
+            message: "Transcript rule set successfully",
+            data: transcriptRules.set(rule),
+          };
+        } catch (error) {
+          log.error("Set transcript rule failed", error);
+          return errorResponse(
+            error,
+            "UNKNOWN_ERROR",
+            "Failed to set transcript rule"
+          );
+        }
+      }
+    );
+
+    this.handle(
+      IPC_CHANNELS.REMOVE_TRANSCRIPT_RULE,
+      async (_event, rawRequest: unknown): Promise<ApiResponse> => {
+        try {
+          const { ruleId } = validateRemoveTranscriptRuleRequest(rawRequest);
+          const removed = transcriptRules.remove(ruleId);
+          return {
+            success: true,
+            message: removed
+              ? "Transcript rule removed successfully"
+              : `No transcript rule with id ${ruleId}`,
+          };
+        } catch (error) {
+          log.error("Remove transcript rule failed", error);
+          return errorResponse(
+            error,
+            "UNKNOWN_ERROR",
+            "Failed to remove transcript rule"
+          );
+        }
+      }
+    );
+
+    this.handle(
+      IPC_CHANNELS.GET_TRANSCRIPT_RULES,
+      async (): Promise<ApiResponse<TranscriptRule[]>> => ({
+        success: true,
+        message: "Transcript rules retrieved successfully",
+        data: transcriptRules.getAll(),
+      })
+    );
+
+    // Export a transcript as SRT, WebVTT, Markdown or JSON
+    this.handle(
+      IPC_CHANNELS.EXPORT_TRANSCRIPT,
+      async (
+        _event,
+        rawRequest: unknown
+      ): Promise<ApiResponse<TranscriptExport>> => {
+        try {
+          const request: ExportTranscriptRequest =
+            validateExportTranscriptRequest(rawRequest);
+          const transcript = transcriptAssembler.get(request.windowId);
+          if (!transcript) {
+            throw new RecallSdkError(
+              `No transcript for window ${request.windowId}`,
+              "WINDOW_NOT_FOUND"
+            );
+          }
+          return {
+            success: true,
+            message: "Transcript exported successfully",
+            data: exportTranscript(this.redact(transcript), request.format),
+          };
+        } catch (error) {
+          log.error("Failed to export transcript", error);
+          return errorResponse(
+            error,
+            "UNKNOWN_ERROR",
+            "Failed to export transcript"
+          );
+        }
+      }
+    );
+
+    // Headers and body for requests to the upload token endpoint
+    this.handle(
+      IPC_CHANNELS.SET_UPLOAD_TOKEN_REQUEST,
+      async (_event, rawRequest: unknown): Promise<ApiResponse> => {
+        try {
+          const request: UploadTokenRequestOptions =
+            validateUploadTokenRequest(rawRequest);
+          uploadTokenProvider.setRequest(request);
+          return {
+            success: true,
+            message: uploadTokenProvider.isConfigured()
+              ? "Upload token request updated successfully"
+              : "Upload token request saved; no upload token endpoint is configured",
+          };
+        } catch (error) {
+          log.error("Failed to set upload token request", error);
+          return errorResponse(
+            error,
+            "CONFIG_ERROR",
+            "Failed to set upload token request"
+          );
+        }
+      }
+    );
+
+    // Query the local journal of finished recordings
+    this.handle(
+      IPC_CHANNELS.GET_RECORDING_HISTORY,
+      async (
+        _event,
+        rawQuery?: unknown
+      ): Promise<ApiResponse<RecordingHistoryEntry[]>> => {
+        try {
+          const query: RecordingHistoryQuery = validateHistoryQuery(rawQuery);
+          return {
+            success: true,
+            message: "Recording history retrieved successfully",
+            data: recordingHistory.query(query),
+          };
+        } catch (error) {
+          log.error("Failed to read recording history", error);
+          return errorResponse(
+            error,
+            "UNKNOWN_ERROR",
+            "Failed to read recording history"
+          );
+        }
+      }
+    );
+
+    // Read recent plugin and SDK log entries
+    this.handle(
+      IPC_CHANNELS.GET_LOGS,
+      async (_event, rawFilter?: unknown): Promise<ApiResponse<LogEntry[]>> => {
+        try {
+          const filter: LogFilter = validateLogFilter(rawFilter);
+          return {
+            success: true,
+            message: "Logs retrieved successfully",
+            data: await logger.getEntries(filter),
+          };
+        } catch (error) {
+          log.error("Failed to read logs", error);
+          return errorResponse(error, "UNKNOWN_ERROR", "Failed to read logs");
+        }
+      }
+    );
+
+    // Export a redacted diagnostics bundle, as bytes or saved to a file
+    this.handle(
+      IPC_CHANNELS.EXPORT_DIAGNOSTICS,
+      async (
+        event,
+        rawOptions?: unknown
+      ): Promise<ApiResponse<DiagnosticsExport>> => {
+        try {
+          const options: ExportDiagnosticsOptions =
+            validateDiagnosticsOptions(rawOptions);
+          const bytes = serializeDiagnostics(
+            await this.buildDiagnostics(options)
+          );
+          const fileName = getDiagnosticsFileName();
+
+          if (!options.save) {
+            return {
+              success: true,
+              message: "Diagnostics exported successfully",
+              data: { fileName, size: bytes.byteLength, bytes },
+            };
+          }
+
+          const saveOptions = {
+            defaultPath: fileName,
+            filters: [{ name: "JSON", extensions: ["json"] }],
+          };
+          const owner = BrowserWindow.fromWebContents(event.sender);
+          const { canceled, filePath } = owner
+            ? await dialog.showSaveDialog(owner, saveOptions)
+            : await dialog.showSaveDialog(saveOptions);
+          if (canceled || !filePath) {
+            return {
+              success: true,
+              message: "Diagnostics export canceled",
+              data: { fileName, size: bytes.byteLength, canceled: true },
+            };
+          }
+
+          await fs.writeFile(filePath, bytes);
+          log.info("Diagnostics saved", { filePath });
+          return {
+            success: true,
+            message: "Diagnostics saved successfully",
+            data: { fileName, size: bytes.byteLength, filePath },
+          };
+        } catch (error) {
+          log.error("Failed to export diagnostics", error);
+          return errorResponse(
+            error,
+            "UNKNOWN_ERROR",
+            "Failed to export diagnostics"
+          );
+        }
+      }
+    );
+
+    // Dump the accessibility tree of a running application (debugging)
+    this.handle(
+      IPC_CHANNELS.DUMP_AX_TREE,
+      async (_event, rawProcName: unknown): Promise<ApiResponse<any>> => {
+        try {
+          const procName = validateProcessName(rawProcName);
+          this.assertDebugToolsEnabled();
+          await this.lifecycle.whenReady();
+          const tree = await dumpAXTree(procName);
+          log.info("Dumped accessibility tree", { procName });
+          return {
+            success: true,
+            message: `Accessibility tree dumped for ${procName}`,
+            data: tree,
+          };
+        } catch (error) {
+          log.error("Dump accessibility tree failed", error);
+          return errorResponse(
+            error,
+            "UNKNOWN_ERROR",
+            "Failed to dump accessibility tree"
+          );
+        }
+      }
+    );
+
+    // Dump the applications the SDK can see (debugging)
+    this.handle(
+      IPC_CHANNELS.DUMP_ALL_APPLICATIONS,
+      async (): Promise<ApiResponse<any>> => {
+        try {
+          this.assertDebugToolsEnabled();
+          await this.lifecycle.whenReady();
+          const applications = await dumpAllApplications();
+          log.info("Dumped all applications");
+          return {
+            success: true,
+            message: "Applications dumped successfully",
+            data: applications,
+          };
+        } catch (error) {
+          log.error("Dump all applications failed", error);
+          return errorResponse(
+            error,
+            "UNKNOWN_ERROR",
+            "Failed to dump applications"
+          );
+        }
+      }
+    );
   }
 }
 
@@ -0,0 +1,59 @@
+/**
+ * Recall Desktop SDK plugin detected meeting tracker
+ *
+ * Meeting windows the SDK reported as detected and has not closed yet,
+ * keyed by windowId. Unlike the recording registry, closed meetings are
+ * forgotten straight away.
+ */
+
+import type { MeetingWindow } from "./shared";
+
+class DetectedMeetings {
+  private meetings = new Map<string, MeetingWindow>();
+
+  /**
+   * Record a `meeting-detected` window
+   */
+  detected(window: MeetingWindow): void {
+    this.meetings.set(window.id, { ...window });
+  }
+
+  /**
+   * Merge a `meeting-updated` window into what is known about it
+   */
+  updated(window: MeetingWindow): void {
+    this.meetings.set(window.id, {
+      ...this.meetings.get(window.id),
+      ...window,
+    });
+  }
+
+  /**
+   * Forget a window after `meeting-closed`
+   */
+  closed(windowId: string): void {
+    this.meetings.delete(windowId);
+  }
+
+  has(windowId: string): boolean {
+    return this.meetings.has(windowId);
+  }
+
+  get(windowId: string): MeetingWindow | undefined {
+    const window = this.meetings.get(windowId);
+    return window ? { ...window } : undefined;
+  }
+
+  /**
+   * Open meetings, in order of detection
+   */
+  getAll(): MeetingWindow[] {
+    return Array.from(this.meetings.values()).map((window) => ({ ...window }));
+  }
+
+  clear(): void {
+    this.meetings.clear();
+  }
+}
+
+export const detectedMeetings = new DetectedMeetings();
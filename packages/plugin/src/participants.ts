@@ -0,0 +1,224 @@
+/**
+ * Recall Desktop SDK plugin participant rosters
+ *
+ * Keeps one roster per meeting window from `participant_events.*` realtime
+ * events (joins, leaves, host and name updates, speech, webcam and
+ * screenshare) and `participant-capture-status`. Like transcripts, rosters
+ * outlive their recording so a sidebar can still show who attended.
+ */
+
+import type {
+  MeetingWindow,
+  Participant,
+  ParticipantRoster,
+  ParticipantsChangedEvent,
+} from "./shared";
+
+// Ended rosters kept in memory, oldest dropped first
+const MAX_ENDED_ROSTERS = 20;
+
+const EVENT_PREFIX = "participant_events.";
+
+type Stream = "audio" | "video" | "screenshare";
+
+// Events that toggle a participant stream
+const STREAM_EVENTS: Record<string, [Stream, boolean]> = {
+  speech_on: ["audio", true],
+  speech_off: ["audio", false],
+  webcam_on: ["video", true],
+  webcam_off: ["video", false],
+  screenshare_on: ["screenshare", true],
+  screenshare_off: ["screenshare", false],
+};
+
+// Every participant event that changes the roster; chat messages do not
+const ROSTER_EVENTS = new Set([
+  "join",
+  "leave",
+  "update",
+  ...Object.keys(STREAM_EVENTS),
+]);
+
+const CAPTURE_TYPES: readonly string[] = ["audio", "video", "screenshare"];
+
+const toEpochMs = (timestamp: any): number => {
+  const parsed =
+    typeof timestamp?.absolute === "string"
+      ? Date.parse(timestamp.absolute)
+      : NaN;
+  return Number.isFinite(parsed) ? parsed : Date.now();
+};
+
+const copyRoster = (roster: ParticipantRoster): ParticipantRoster => ({
+  ...roster,
+  window: { ...roster.window },
+  participants: roster.participants.map((participant) => ({
+    ...participant,
+  })),
+  capture: { ...roster.capture },
+});
+
+class ParticipantRosters {
+  private rosters = new Map<string, ParticipantRoster>();
+
+  /**
+   * Start an empty roster for a recording, replacing any earlier one for
+   * the same window
+   */
+  start(window: MeetingWindow): void {
+    this.rosters.set(window.id, {
+      windowId: window.id,
+      window: { ...window },
+      participants: [],
+      capture: {},
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Apply a `participant_events.*` realtime event
+   * @returns the change to broadcast, or undefined for other events
+   */
+  handleRealtimeEvent(evt: any): ParticipantsChangedEvent | undefined {
+    const eventName = evt?.event;
+    const windowId = evt?.window?.id;
+    if (
+      typeof eventName !== "string" ||
+      !eventName.startsWith(EVENT_PREFIX) ||
+      typeof windowId !== "string"
+    ) {
+      return undefined;
+    }
+    const change = eventName.slice(EVENT_PREFIX.length);
+    if (!ROSTER_EVENTS.has(change)) {
+      return undefined;
+    }
+
+    const payload = evt.data?.data;
+    const info = payload?.participant;
+    if (typeof info?.id !== "number") {
+      return undefined;
+    }
+
+    const roster = this.getOrStart(evt.window);
+    const at = toEpochMs(payload.timestamp);
+    let participant = roster.participants.find(({ id }) => id === info.id);
+    if (!participant) {
+      participant = {
+        id: info.id,
+        name: "",
+        isHost: false,
+        present: false,
+        audio: false,
+        video: false,
+        screenshare: false,
+        updatedAt: at,
+      };
+      roster.participants.push(participant);
+    }
+
+    if (typeof info.name === "string" && info.name.trim()) {
+      participant.name = info.name.trim();
+    }
+    if (typeof info.is_host === "boolean") {
+      participant.isHost = info.is_host;
+    }
+    if (typeof info.platform === "string") {
+      participant.platform = info.platform;
+    }
+
+    if (change === "leave") {
+      participant.present = false;
+      participant.leftAt = at;
+      participant.audio = false;
+      participant.video = false;
+      participant.screenshare = false;
+    } else {
+      // Any activity means the participant is in the meeting, even if we
+      // started listening after they joined
+      if (!participant.present) {
+        participant.present = true;
+        participant.joinedAt = participant.joinedAt ?? at;
+        participant.leftAt = undefined;
+      }
+      const stream = STREAM_EVENTS[change];
+      if (stream) {
+        participant[stream[0]] = stream[1];
+      }
+    }
+    participant.updatedAt = at;
+
+    return this.changed(roster, evt.window, change, participant.id);
+  }
+
+  /**
+   * Apply a `participant-capture-status` SDK event
+   */
+  handleCaptureStatus(evt: any): ParticipantsChangedEvent | undefined {
+    const windowId = evt?.window?.id;
+    if (
+      typeof windowId !== "string" ||
+      !CAPTURE_TYPES.includes(evt.type) ||
+      typeof evt.capturing !== "boolean"
+    ) {
+      return undefined;
+    }
+    const roster = this.getOrStart(evt.window);
+    roster.capture[evt.type as Stream] = evt.capturing;
+    return this.changed(roster, evt.window, "capture");
+  }
+
+  /**
+   * Mark a window's roster as finished, keeping it readable
+   */
+  end(windowId: string): void {
+    const roster = this.rosters.get(windowId);
+    if (!roster || roster.endedAt !== undefined) {
+      return;
+    }
+    roster.endedAt = Date.now();
+    this.evictEnded();
+  }
+
+  get(windowId: string): ParticipantRoster | undefined {
+    const roster = this.rosters.get(windowId);
+    return roster ? copyRoster(roster) : undefined;
+  }
+
+  clear(): void {
+    this.rosters.clear();
+  }
+
+  private getOrStart(window: MeetingWindow): ParticipantRoster {
+    if (!this.rosters.has(window.id)) {
+      this.start(window);
+    }
+    return this.rosters.get(window.id)!;
+  }
+
+  private changed(
+    roster: ParticipantRoster,
+    window: MeetingWindow,
+    change: string,
+    participantId?: number
+  ): ParticipantsChangedEvent {
+    roster.window = { ...roster.window, ...window };
+    roster.updatedAt = Date.now();
+    const event: ParticipantsChangedEvent = { ...copyRoster(roster), change };
+    if (participantId !== undefined) {
+      event.participantId = participantId;
+    }
+    return event;
+  }
+
+  private evictEnded(): void {
+    const ended = Array.from(this.rosters.values())
+      .filter((roster) => roster.endedAt !== undefined)
+      .sort((a, b) => a.endedAt! - b.endedAt!);
+    ended
+      .slice(0, Math.max(0, ended.length - MAX_ENDED_ROSTERS))
+      .forEach((roster) => this.rosters.delete(roster.windowId));
+  }
+}
+
+export const participantRosters = new ParticipantRosters();
@@ -0,0 +1,18 @@
+/**
+ * Recall Desktop SDK plugin on-disk locations
+ */
+
+import { app } from "electron";
+import * as path from "path";
+
+/**
+ * Directory in the app's userData folder where the plugin keeps its files
+ */
+export const getPluginDataDir = (): string =>
+  path.join(app.getPath("userData"), "recall-desktop");
+
+/**
+ * Path of a file inside the plugin data directory
+ */
+export const getPluginDataPath = (...segments: string[]): string =>
+  path.join(getPluginDataDir(), ...segments);
@@ -0,0 +1,150 @@
+/**
+ * Recall Desktop SDK plugin power event handling
+ *
+ * A laptop that sleeps mid-meeting would otherwise leave a long, broken
+ * recording behind. On suspend or screen lock the configured action pauses
+ * or stops active recordings; recordings paused this way resume on wake or
+ * unlock once every reason that paused them has cleared, as long as the
+ * meeting is still detected.
+ */
+
+import { toApiError } from "./errors";
+import { createLogger } from "./logger";
+import type {
+  PowerAction,
+  PowerPauseReason,
+  PowerResumeReason,
+  RecordingAutoPausedEvent,
+  RecordingAutoResumedEvent,
+  RecordingSession,
+} from "./shared";
+
+export interface PowerSteps {
+  getActiveRecordings: () => RecordingSession[];
+  getRecording: (windowId: string) => RecordingSession | undefined;
+  isMeetingDetected: (windowId: string) => boolean;
+  pauseRecording: (windowId: string) => Promise<void>;
+  resumeRecording: (windowId: string) => Promise<void>;
+  stopRecording: (windowId: string) => Promise<void>;
+  onPaused: (event: RecordingAutoPausedEvent) => void;
+  onResumed: (event: RecordingAutoResumedEvent) => void;
+}
+
+// The pause reason each resume event clears
+const CLEARED_BY: Record<PowerResumeReason, PowerPauseReason> = {
+  resume: "suspend",
+  "unlock-screen": "lock-screen",
+};
+
+const log = createLogger("RecallPower");
+
+export class PowerActionController {
+  // Reasons still holding each recording we paused
+  private autoPaused = new Map<string, Set<PowerPauseReason>>();
+
+  constructor(private readonly steps: PowerSteps) {}
+
+  /**
+   * Apply the action configured for a suspend or screen lock
+   */
+  async handlePause(
+    reason: PowerPauseReason,
+    action: PowerAction
+  ): Promise<void> {
+    if (action === "none") {
+      return;
+    }
+    if (action === "pause") {
+      // Already paused by us: also wait for this reason to clear
+      this.autoPaused.forEach((reasons) => reasons.add(reason));
+    }
+
+    for (const session of this.steps.getActiveRecordings()) {
+      const { windowId } = session;
+      if (action === "pause" && session.state !== "recording") {
+        continue;
+      }
+
+      const event: RecordingAutoPausedEvent = {
+        windowId,
+        window: session.window,
+        action,
+        reason,
+      };
+      try {
+        if (action === "pause") {
+          await this.steps.pauseRecording(windowId);
+          this.autoPaused.set(windowId, new Set([reason]));
+        } else {
+          this.autoPaused.delete(windowId);
+          await this.steps.stopRecording(windowId);
+        }
+      } catch (error) {
+        log.error(
+          `Failed to ${action} recording ${windowId} on ${reason}`,
+          error
+        );
+        event.error = toApiError(
+          error,
+          "RECORDING_ERROR",
+          `Failed to ${action} recording`
+        );
+      }
+      this.steps.onPaused(event);
+    }
+  }
+
+  /**
+   * Resume recordings whose pause reasons have all cleared
+   */
+  async handleResume(reason: PowerResumeReason): Promise<void> {
+    for (const [windowId, reasons] of Array.from(this.autoPaused)) {
+      reasons.delete(CLEARED_BY[reason]);
+      if (reasons.size > 0) {
+        continue;
+      }
+      this.autoPaused.delete(windowId);
+
+      const session = this.steps.getRecording(windowId);
+      if (
+        session?.state !== "paused" ||
+        !this.steps.isMeetingDetected(windowId)
+      ) {
+        log.info(`Not resuming ${windowId}: meeting closed or not paused`);
+        continue;
+      }
+
+      const event: RecordingAutoResumedEvent = {
+        windowId,
+        window: session.window,
+        reason,
+      };
+      try {
+        await this.steps.resumeRecording(windowId);
+      } catch (error) {
+        log.error(`Failed to resume recording ${windowId} on ${reason}`, error);
+        event.error = toApiError(
+          error,
+          "RECORDING_ERROR",
+          "Failed to resume recording"
+        );
+      }
+      this.steps.onResumed(event);
+    }
+  }
+
+  /**
+   * Stop tracking a recording, e.g. once it ends or is resumed by hand
+   */
+  forget(windowId: string): void {
+    this.autoPaused.delete(windowId);
+  }
+
+  isAutoPaused(windowId: string): boolean {
+    return this.autoPaused.has(windowId);
+  }
+
+  reset(): void {
+    this.autoPaused.clear();
+  }
+}
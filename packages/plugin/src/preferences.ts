@@ -0,0 +1,245 @@
+/**
+ * Recall Desktop SDK plugin preference registry
+ *
+ * Preferences are declared once here and looked up by `id` in the ToDesktop
+ * plugin context, so their order in package.json does not matter. To add a
+ * preference, declare it in `todesktop.preferences` in package.json and add
+ * a matching entry to PREFERENCE_REGISTRY. Entries with a `target` are
+ * applied to that config, sender policy or privacy policy field by
+ * setPluginContext; the rest are applied there by hand.
+ */
+
+import {
+  LOG_LEVELS,
+  POWER_ACTIONS,
+  PluginContext,
+  PreferenceType,
+  PrivacyPolicy,
+  RecallSdkConfig,
+  REDACTION_MODES,
+  SenderPolicy,
+} from "./shared";
+import { createLogger } from "./logger";
+import { validateApiUrl } from "./validation";
+
+const log = createLogger("RecallPreferences");
+
+// Settings objects a preference can be applied to
+export interface PreferenceTargets {
+  config: RecallSdkConfig;
+  senderPolicy: SenderPolicy;
+  privacyPolicy: PrivacyPolicy;
+}
+
+export type PreferenceTarget = {
+  [S in keyof PreferenceTargets]: {
+    section: S;
+    key: keyof PreferenceTargets[S];
+  };
+}[keyof PreferenceTargets];
+
+export interface PreferenceDefinition<T> {
+  type: PreferenceType;
+  defaultValue: T;
+  /** Convert the raw `spec.value`, returning undefined when it is invalid */
+  parse: (raw: unknown) => T | undefined;
+  /** Field the value is applied to, if it maps onto one directly */
+  target?: PreferenceTarget;
+}
+
+const checkbox = (defaultValue: boolean): PreferenceDefinition<boolean> => ({
+  type: "checkbox",
+  defaultValue,
+  parse: (raw) => (typeof raw === "boolean" ? raw : undefined),
+});
+
+const text = (
+  defaultValue: string,
+  options: { allowEmpty?: boolean; validate?: (value: string) => boolean } = {}
+): PreferenceDefinition<string> => ({
+  type: "text",
+  defaultValue,
+  parse: (raw) => {
+    if (typeof raw !== "string") return undefined;
+    const value = raw.trim();
+    if (!value && !options.allowEmpty) return undefined;
+    if (value && options.validate && !options.validate(value)) return undefined;
+    return value;
+  },
+});
+
+const select = <T extends string>(
+  values: readonly T[],
+  defaultValue: T
+): PreferenceDefinition<T> => ({
+  type: "select",
+  defaultValue,
+  parse: (raw) =>
+    typeof raw === "string" && values.includes(raw as T)
+      ? (raw as T)
+      : undefined,
+});
+
+const number = (
+  defaultValue: number,
+  range: { min?: number; max?: number } = {}
+): PreferenceDefinition<number> => ({
+  type: "number",
+  defaultValue,
+  parse: (raw) => {
+    const value = typeof raw === "string" && raw.trim() ? Number(raw) : raw;
+    if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+    if (range.min !== undefined && value < range.min) return undefined;
+    if (range.max !== undefined && value > range.max) return undefined;
+    return value;
+  },
+});
+
+// Comma-separated values, e.g. allowed origins; empty means none
+const list = (): PreferenceDefinition<string[]> => {
+  const definition = text("", { allowEmpty: true });
+  return {
+    type: definition.type,
+    defaultValue: [],
+    parse: (raw) =>
+      definition
+        .parse(raw)
+        ?.split(",")
+        .map((item) => item.trim())
+        .filter(Boolean),
+  };
+};
+
+/**
+ * Mark a preference as setting a config, sender policy or privacy policy field
+ */
+const into = <T, S extends keyof PreferenceTargets>(
+  section: S,
+  key: keyof PreferenceTargets[S],
+  definition: PreferenceDefinition<T>
+): PreferenceDefinition<T> => ({
+  ...definition,
+  target: { section, key } as PreferenceTarget,
+});
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    validateApiUrl(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Builders for declaring new preferences
+export const preferenceTypes = { checkbox, text, select, number, list, into };
+
+export const PREFERENCE_REGISTRY = {
+  enabled: into("config", "enabled", checkbox(true)),
+  apiUrl: into(
+    "config",
+    "apiUrl",
+    text("https://us-east-1.recall.ai", { validate: isHttpUrl })
+  ),
+  requestPermissionsOnStartup: into(
+    "config",
+    "requestPermissionsOnStartup",
+    checkbox(true)
+  ),
+  allowedOrigins: into("senderPolicy", "allowedOrigins", list()),
+  mainFrameOnly: into("senderPolicy", "mainFrameOnly", checkbox(true)),
+  logLevel: into("config", "logLevel", select(LOG_LEVELS, "info")),
+  debugTools: checkbox(false),
+  historyRetentionDays: number(90, { min: 1 }),
+  historyMaxEntries: number(500, { min: 1 }),
+  uploadTokenUrl: text("", { allowEmpty: true, validate: isHttpUrl }),
+  uploadTokenPoolSize: number(1, { min: 0, max: 5 }),
+  blockedUrlPatterns: into("privacyPolicy", "blockedUrlPatterns", list()),
+  blockedTitlePatterns: into("privacyPolicy", "blockedTitlePatterns", list()),
+  meetingRedaction: into(
+    "privacyPolicy",
+    "redaction",
+    select(REDACTION_MODES, "off")
+  ),
+  suspendAction: into("config", "suspendAction", select(POWER_ACTIONS, "none")),
+  lockAction: into("config", "lockAction", select(POWER_ACTIONS, "none")),
+};
+
+export type PreferenceId = keyof typeof PREFERENCE_REGISTRY;
+
+export type PreferenceValues = {
+  [K in PreferenceId]: (typeof PREFERENCE_REGISTRY)[K] extends PreferenceDefinition<
+    infer T
+  >
+    ? T
+    : never;
+};
+
+/**
+ * Default value of every registered preference
+ */
+export const getPreferenceDefaults = (): PreferenceValues =>
+  Object.fromEntries(
+    Object.entries(PREFERENCE_REGISTRY).map(([id, definition]) => [
+      id,
+      definition.defaultValue,
+    ])
+  ) as PreferenceValues;
+
+/**
+ * Resolve the preferences the user actually set, by id. Unknown ids,
+ * missing values and values that fail validation are left out so callers
+ * can fall back to their own defaults.
+ */
+export const readPreferences = (
+  context: PluginContext | undefined
+): Partial<PreferenceValues> => {
+  const preferences = context?.plugin?.todesktop?.preferences ?? [];
+  const values: Partial<Record<PreferenceId, unknown>> = {};
+
+  for (const preference of preferences) {
+    // Own keys only, so ids like "constructor" are unknown
+    if (
+      !preference ||
+      !Object.prototype.hasOwnProperty.call(PREFERENCE_REGISTRY, preference.id)
+    ) {
+      continue;
+    }
+    const id = preference.id as PreferenceId;
+    const definition: PreferenceDefinition<unknown> = PREFERENCE_REGISTRY[id];
+    if (preference.type && preference.type !== definition.type) {
+      log.warn(
+        `Preference "${id}" has type "${preference.type}", expected "${definition.type}"`
+      );
+      continue;
+    }
+    const value = definition.parse(preference.spec?.value);
+    if (value !== undefined) {
+      values[id] = value;
+    }
+  }
+
+  return values as Partial<PreferenceValues>;
+};
+
+/**
+ * Group resolved preference values by the settings object their registry
+ * entry targets, keyed by field. Preferences without a target are left out.
+ */
+export const toPreferenceTargets = (
+  values: Partial<PreferenceValues>
+): { [S in keyof PreferenceTargets]: Partial<PreferenceTargets[S]> } => {
+  const targets: Record<keyof PreferenceTargets, Record<string, unknown>> = {
+    config: {},
+    senderPolicy: {},
+    privacyPolicy: {},
+  };
+  for (const [id, value] of Object.entries(values)) {
+    const definition: PreferenceDefinition<unknown> =
+      PREFERENCE_REGISTRY[id as PreferenceId];
+    if (definition.target && value !== undefined) {
+      targets[definition.target.section][definition.target.key] = value;
+    }
+  }
+  return targets;
+};
@@ -17,11 +17,33 @@ import {
   PauseRecordingRequest,
   ResumeRecordingRequest,
   UploadRecordingRequest,
+  GetRecordingRequest,
+  RecordingSession,
+  RecordingHistoryEntry,
+  RecordingHistoryQuery,
   PermissionType,
+  PermissionStatusMap,
   RecallSdkConfig,
   PrepareDesktopAudioRecordingConfig,
   PrepareDesktopAudioResponse,
-  RecallSdkEventType
+  RecallEventType,
+  MeetingWindow,
+  SubscribeOptions,
+  SubscribeResponse,
+  UploadTokenRequestOptions,
+  QuitResponse,
+  Transcript,
+  TranscriptExport,
+  TranscriptFormat,
+  ExportTranscriptRequest,
+  ParticipantRoster,
+  MeetingAnalytics,
+  TranscriptRule,
+  RemoveTranscriptRuleRequest,
+  LogEntry,
+  LogFilter,
+  DiagnosticsExport,
+  ExportDiagnosticsOptions
 } from './shared';
 
 /**
@@ -42,20 +64,21 @@ export async function shutdownSdk(): Promise<ApiResponse> {
 
 /**
  * Get current plugin and SDK status
- * @returns Promise resolving to plugin status
+ * @returns Promise resolving to plugin status, or to an error response when
+ * the sender policy refuses the calling window
  */
-export async function getStatus(): Promise<PluginStatus> {
+export async function getStatus(): Promise<PluginStatus | ApiResponse<never>> {
   return ipcRenderer.invoke(IPC_CHANNELS.GET_STATUS);
 }
 
 /**
  * Start recording a meeting
  * @param windowId The meeting window ID
- * @param uploadToken Upload token from your backend
+ * @param uploadToken Upload token from your backend; omit it to use the plugin's upload token endpoint
  * @returns Promise resolving to recording start result
  */
-export async function startRecording(windowId: string, uploadToken: string): Promise<ApiResponse> {
-  const request: StartRecordingRequest = { windowId, uploadToken };
+export async function startRecording(windowId: string, uploadToken?: string): Promise<ApiResponse> {
+  const request: StartRecordingRequest = uploadToken === undefined ? { windowId } : { windowId, uploadToken };
   return ipcRenderer.invoke(IPC_CHANNELS.START_RECORDING, request);
 }
 
@@ -119,6 +142,14 @@ export async function requestPermission(permission: PermissionType): Promise<Api
   return ipcRenderer.invoke(IPC_CHANNELS.REQUEST_PERMISSION, permission);
 }
 
+/**
+ * Get the raw permission status strings last reported by the SDK
+ * @returns Promise resolving to a map of permission to status
+ */
+export async function getPermissionStatus(): Promise<ApiResponse<PermissionStatusMap>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_PERMISSION_STATUS);
+}
+
 /**
  * Update plugin configuration
  * @param config Configuration updates
@@ -137,29 +168,239 @@ export async function getConfig(): Promise<ApiResponse<RecallSdkConfig>> {
 }
 
 /**
- * Subscribe to SDK events
+ * Get every recording session tracked by the main process
+ * @returns Promise resolving to the tracked recording sessions
+ */
+export async function getRecordings(): Promise<ApiResponse<RecordingSession[]>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_RECORDINGS);
+}
+
+/**
+ * Get the recording session tracked for a meeting window
+ * @param windowId The meeting window ID
+ * @returns Promise resolving to the recording session, or null if none is tracked
+ */
+export async function getRecording(windowId: string): Promise<ApiResponse<RecordingSession | null>> {
+  const request: GetRecordingRequest = { windowId };
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_RECORDING, request);
+}
+
+/**
+ * Get finished recordings from the local history journal, most recent first
+ * @param query Only recordings that ended since a timestamp, on a platform, and at most `limit` of them (default 50)
+ * @returns Promise resolving to the matching history entries
+ */
+export async function getRecordingHistory(query?: RecordingHistoryQuery): Promise<ApiResponse<RecordingHistoryEntry[]>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_RECORDING_HISTORY, query);
+}
+
+/**
+ * Get the live transcript assembled for a meeting window
+ * @param windowId The meeting window ID
+ * @returns Promise resolving to the transcript, or null if none was recorded
+ */
+export async function getTranscript(windowId: string): Promise<ApiResponse<Transcript | null>> {
+  const request: GetRecordingRequest = { windowId };
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_TRANSCRIPT, request);
+}
+
+/**
+ * Export a meeting window's transcript
+ * @param windowId The meeting window ID
+ * @param format `srt`, `vtt`, `markdown` or `json`
+ * @returns Promise resolving to the file name and content
+ */
+export async function exportTranscript(windowId: string, format: TranscriptFormat): Promise<ApiResponse<TranscriptExport>> {
+  const request: ExportTranscriptRequest = { windowId, format };
+  return ipcRenderer.invoke(IPC_CHANNELS.EXPORT_TRANSCRIPT, request);
+}
+
+/**
+ * Get the participant roster tracked for a meeting window
+ * @param windowId The meeting window ID
+ * @returns Promise resolving to the roster, or null if none was tracked
+ */
+export async function getParticipants(windowId: string): Promise<ApiResponse<ParticipantRoster | null>> {
+  const request: GetRecordingRequest = { windowId };
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_PARTICIPANTS, request);
+}
+
+/**
+ * Get talk time, interruption and recording time analytics for a meeting window
+ * @param windowId The meeting window ID
+ * @returns Promise resolving to the analytics, or null if nothing is known about the window
+ */
+export async function getMeetingAnalytics(windowId: string): Promise<ApiResponse<MeetingAnalytics | null>> {
+  const request: GetRecordingRequest = { windowId };
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_MEETING_ANALYTICS, request);
+}
+
+/**
+ * Add or replace a transcript watch rule
+ * @param rule The rule; set exactly one of `phrases` or `pattern`
+ * @returns Promise resolving to the stored rule
+ */
+export async function setTranscriptRule(rule: TranscriptRule): Promise<ApiResponse<TranscriptRule>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.SET_TRANSCRIPT_RULE, rule);
+}
+
+/**
+ * Remove a transcript watch rule
+ * @param ruleId The rule ID
+ * @returns Promise resolving to the operation result
+ */
+export async function removeTranscriptRule(ruleId: string): Promise<ApiResponse> {
+  const request: RemoveTranscriptRuleRequest = { ruleId };
+  return ipcRenderer.invoke(IPC_CHANNELS.REMOVE_TRANSCRIPT_RULE, request);
+}
+
+/**
+ * List the transcript watch rules
+ * @returns Promise resolving to every rule, in the order they were added
+ */
+export async function getTranscriptRules(): Promise<ApiResponse<TranscriptRule[]>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_TRANSCRIPT_RULES);
+}
+
+/**
+ * Answer a `quit-requested` event
+ * @param requestId The `requestId` from the event
+ * @param proceed false to cancel the quit and keep recording
+ * @returns Promise resolving to the operation result
+ */
+export async function respondToQuit(requestId: string, proceed: boolean): Promise<ApiResponse> {
+  const response: QuitResponse = { requestId, proceed };
+  return ipcRenderer.invoke(IPC_CHANNELS.RESPOND_TO_QUIT, response);
+}
+
+/**
+ * Subscribe to SDK events and plugin-emitted events
  * @param eventType The type of event to listen for
  * @param callback Function to call when event occurs
+ * @param options Subscription options, e.g. `{ replay: true }` to receive the last known state
  * @returns Function to unsubscribe from the event
  */
-export function addEventListener(eventType: RecallSdkEventType, callback: (data: any) => void): () => void {
+export function addEventListener(
+  eventType: RecallEventType,
+  callback: (data: any) => void,
+  options?: SubscribeOptions
+): () => void {
   const channel = `recall-desktop:event:${eventType}`;
 
-  // Fire-and-forget subscribe to main
-  ipcRenderer.invoke(IPC_CHANNELS.SUBSCRIBE_EVENTS, eventType).catch(console.error);
+  // When replaying, hold live events until the replayed ones are delivered
+  // so the callback sees them in order
+  let pending: any[] | null = options?.replay ? [] : null;
+  let active = true;
+
+  const subscription: Promise<ApiResponse<SubscribeResponse>> = ipcRenderer.invoke(
+    IPC_CHANNELS.SUBSCRIBE_EVENTS,
+    eventType,
+    options
+  );
+
+  if (pending) {
+    subscription
+      .then((response) => {
+        const queued = pending ?? [];
+        pending = null;
+        if (!active) return;
+        [...(response?.data?.replayed ?? []), ...queued].forEach((data) => callback(data));
+      })
+      .catch((error) => {
+        // Nothing to replay, but live events that arrived meanwhile still count
+        const queued = pending ?? [];
+        pending = null;
+        console.error(error);
+        if (!active) return;
+        queued.forEach((data) => callback(data));
+      });
+  } else {
+    // Fire-and-forget subscribe to main
+    subscription.catch(console.error);
+  }
 
   const listener = (_event: any, data: any) => {
+    if (pending) {
+      pending.push(data);
+      return;
+    }
     callback(data);
   };
   ipcRenderer.on(channel, listener);
 
   // Return unsubscribe function
   return () => {
+    active = false;
     ipcRenderer.removeListener(channel, listener);
     ipcRenderer.invoke(IPC_CHANNELS.UNSUBSCRIBE_EVENTS, eventType).catch(console.error);
   };
 }
 
+/**
+ * Drop configuration set through setConfig(), reverting to the plugin
+ * preferences and defaults
+ * @returns Promise resolving to the resulting configuration
+ */
+export async function resetConfig(): Promise<ApiResponse<RecallSdkConfig>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.RESET_CONFIG);
+}
+
+/**
+ * Set the headers and body sent to the upload token endpoint, e.g. the
+ * user's credentials and the recording_config for the SDK upload
+ * @param request Headers and JSON body for every token request
+ * @returns Promise resolving to the update result
+ */
+export async function setUploadTokenRequest(request: UploadTokenRequestOptions): Promise<ApiResponse> {
+  return ipcRenderer.invoke(IPC_CHANNELS.SET_UPLOAD_TOKEN_REQUEST, request);
+}
+
+/**
+ * Get the meetings that are currently detected
+ * @returns Promise resolving to the open meeting windows
+ */
+export async function getDetectedMeetings(): Promise<ApiResponse<MeetingWindow[]>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_DETECTED_MEETINGS);
+}
+
+/**
+ * Read recent plugin and SDK log entries, oldest first
+ * @param filter Minimum level, subsystem, windowId and number of entries to return
+ * @returns Promise resolving to the matching log entries
+ */
+export async function getLogs(filter?: LogFilter): Promise<ApiResponse<LogEntry[]>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.GET_LOGS, filter);
+}
+
+/**
+ * Export a diagnostics bundle (version, config, status, permissions, recent
+ * events, errors and logs) as JSON with secrets redacted
+ * @param options Pass `{ save: true }` to show a save dialog instead of returning the bytes
+ * @returns Promise resolving to the bundle bytes, or where it was saved
+ */
+export async function exportDiagnostics(options?: ExportDiagnosticsOptions): Promise<ApiResponse<DiagnosticsExport>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.EXPORT_DIAGNOSTICS, options);
+}
+
+/**
+ * Dump the accessibility tree of a running application, e.g. "zoom.us",
+ * for troubleshooting meeting detection. Requires the debugTools preference.
+ * @param procName Process name of the application
+ * @returns Promise resolving to the SDK's dump
+ */
+export async function dumpAXTree(procName: string): Promise<ApiResponse<any>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.DUMP_AX_TREE, procName);
+}
+
+/**
+ * Dump every application the SDK can see, for troubleshooting meeting
+ * detection. Requires the debugTools preference.
+ * @returns Promise resolving to the SDK's dump
+ */
+export async function dumpAllApplications(): Promise<ApiResponse<any>> {
+  return ipcRenderer.invoke(IPC_CHANNELS.DUMP_ALL_APPLICATIONS);
+}
+
 /**
  * Get plugin version
  * @returns Plugin version string
@@ -235,9 +476,28 @@ type ExportedApi = {
   uploadRecording: typeof uploadRecording;
   prepareDesktopAudioRecording: typeof prepareDesktopAudioRecording;
   requestPermission: typeof requestPermission;
+  getPermissionStatus: typeof getPermissionStatus;
   setConfig: typeof setConfig;
   getConfig: typeof getConfig;
+  resetConfig: typeof resetConfig;
+  getRecordings: typeof getRecordings;
+  getRecording: typeof getRecording;
+  getRecordingHistory: typeof getRecordingHistory;
+  respondToQuit: typeof respondToQuit;
+  getTranscript: typeof getTranscript;
+  exportTranscript: typeof exportTranscript;
+  getParticipants: typeof getParticipants;
+  getMeetingAnalytics: typeof getMeetingAnalytics;
+  setTranscriptRule: typeof setTranscriptRule;
+  removeTranscriptRule: typeof removeTranscriptRule;
+  getTranscriptRules: typeof getTranscriptRules;
   addEventListener: typeof addEventListener;
+  getDetectedMeetings: typeof getDetectedMeetings;
+  setUploadTokenRequest: typeof setUploadTokenRequest;
+  getLogs: typeof getLogs;
+  exportDiagnostics: typeof exportDiagnostics;
+  dumpAXTree: typeof dumpAXTree;
+  dumpAllApplications: typeof dumpAllApplications;
   getVersion: typeof getVersion;
   onMeetingDetected: typeof onMeetingDetected;
   onRecordingStateChange: typeof onRecordingStateChange;
@@ -0,0 +1,100 @@
+/**
+ * Recall Desktop SDK plugin meeting privacy filter
+ *
+ * Meeting titles and URLs can name confidential clients. The blocklist stops
+ * matching meetings from being recorded, and redaction masks or hashes titles
+ * and URLs in everything that leaves the main process's own bookkeeping:
+ * logs, broadcast events and IPC responses. Decisions (blocklist, auto-record
+ * rules) always use the real values.
+ */
+
+import { createHash } from "crypto";
+import { matchesPattern } from "./autoRecord";
+import type { MeetingWindow, PrivacyPolicy, RedactionMode } from "./shared";
+
+const MASK = "[redacted]";
+const MAX_DEPTH = 20;
+
+// Object keys holding meeting titles and URLs in SDK and plugin payloads
+const REDACTED_KEYS = new Set(["title", "url"]);
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+  blockedUrlPatterns: [],
+  blockedTitlePatterns: [],
+  redaction: "off",
+};
+
+/**
+ * The blocklist pattern a meeting matches, if any
+ */
+export const findBlockedPattern = (
+  window: Pick<MeetingWindow, "title" | "url">,
+  policy: PrivacyPolicy
+): string | undefined => {
+  const { url, title } = window;
+  return (
+    (url &&
+      policy.blockedUrlPatterns.find((pattern) =>
+        matchesPattern(url, pattern)
+      )) ||
+    (title &&
+      policy.blockedTitlePatterns.find((pattern) =>
+        matchesPattern(title, pattern)
+      )) ||
+    undefined
+  );
+};
+
+/**
+ * Mask or hash a single title or URL. Hashes are stable, so the same
+ * meeting can still be correlated across events without revealing it.
+ */
+export const redactValue = (value: string, mode: RedactionMode): string => {
+  if (mode === "off" || !value) {
+    return value;
+  }
+  if (mode === "mask") {
+    return MASK;
+  }
+  const digest = createHash("sha256").update(value).digest("hex");
+  return `sha256:${digest.slice(0, 16)}`;
+};
+
+const isPlainObject = (value: object): boolean => {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Deep-copy a payload with every `title` and `url` string redacted. Only
+ * arrays and plain objects are copied; anything else (Buffers, typed
+ * arrays, Dates) is passed through as is.
+ */
+export const redactMeetingDetails = <T>(
+  value: T,
+  mode: RedactionMode,
+  depth = 0
+): T => {
+  if (mode === "off" || !value || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      redactMeetingDetails(item, mode, depth + 1)
+    ) as unknown as T;
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      REDACTED_KEYS.has(key) && typeof item === "string"
+        ? redactValue(item, mode)
+        : redactMeetingDetails(item, mode, depth + 1),
+    ])
+  ) as T;
+};
@@ -0,0 +1,134 @@
+/**
+ * Recall Desktop SDK plugin graceful quit
+ *
+ * Holds Electron's quit while recordings are active or the SDK is running:
+ * optionally asks the host app to confirm, stops recordings one by one,
+ * waits for the SDK to shut down, then lets the quit proceed. Every step is
+ * bounded by a timeout so a stuck SDK cannot keep the app from quitting.
+ */
+
+import { createLogger } from "./logger";
+import type { RecordingSession } from "./shared";
+
+export interface QuitSteps {
+  getActiveRecordings: () => RecordingSession[];
+  isSdkRunning: () => boolean;
+  // Resolves false to cancel the quit; unset when the host app has no hook
+  confirm?: (recordings: RecordingSession[]) => Promise<boolean>;
+  stopRecording: (windowId: string) => Promise<void>;
+  shutdownSdk: () => Promise<void>;
+}
+
+export interface QuitOptions {
+  stopTimeoutMs: number;
+  shutdownTimeoutMs: number;
+}
+
+type QuitState = "idle" | "preparing" | "ready";
+
+const log = createLogger("QuitCoordinator");
+
+export const DEFAULT_QUIT_OPTIONS: QuitOptions = {
+  stopTimeoutMs: 5000,
+  shutdownTimeoutMs: 10000,
+};
+
+/**
+ * Resolve with the promise's outcome, or false once the timeout passes
+ * @returns whether the promise settled successfully in time
+ */
+export const settleWithin = async (
+  promise: Promise<unknown>,
+  timeoutMs: number,
+  label: string
+): Promise<boolean> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), timeoutMs);
+  });
+  try {
+    const result = await Promise.race([promise, timeout]);
+    if (result === "timeout") {
+      log.warn(`${label} timed out after ${timeoutMs}ms`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    log.error(`${label} failed`, error);
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export class QuitCoordinator {
+  private state: QuitState = "idle";
+
+  constructor(
+    private readonly steps: QuitSteps,
+    private readonly options: QuitOptions = DEFAULT_QUIT_OPTIONS
+  ) {}
+
+  /**
+   * Whether before-quit must be held: there is cleanup left to do, or it
+   * is already under way
+   */
+  shouldHoldQuit(): boolean {
+    if (this.state === "ready") {
+      return false;
+    }
+    return (
+      this.state === "preparing" ||
+      this.steps.getActiveRecordings().length > 0 ||
+      this.steps.isSdkRunning()
+    );
+  }
+
+  isPreparing(): boolean {
+    return this.state === "preparing";
+  }
+
+  /**
+   * Confirm, stop recordings in the order they started, shut the SDK down
+   * @returns whether the quit may proceed
+   */
+  async prepare(): Promise<boolean> {
+    this.state = "preparing";
+    const recordings = this.steps
+      .getActiveRecordings()
+      .sort((a, b) => (a.startedAt ?? 0) - (b.startedAt ?? 0));
+
+    if (recordings.length > 0 && this.steps.confirm) {
+      const proceed = await this.steps.confirm(recordings).catch((error) => {
+        log.error("Quit confirmation failed, quitting anyway", error);
+        return true;
+      });
+      if (!proceed) {
+        log.info("Quit cancelled by the host app");
+        this.state = "idle";
+        return false;
+      }
+    }
+
+    log.info(`Stopping ${recordings.length} recording(s) before quit`);
+    for (const recording of recordings) {
+      await settleWithin(
+        this.steps.stopRecording(recording.windowId),
+        this.options.stopTimeoutMs,
+        `Stopping recording ${recording.windowId}`
+      );
+    }
+
+    if (this.steps.isSdkRunning()) {
+      await settleWithin(
+        this.steps.shutdownSdk(),
+        this.options.shutdownTimeoutMs,
+        "SDK shutdown"
+      );
+    }
+
+    this.state = "ready";
+    log.info("Ready to quit");
+    return true;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Recall Desktop SDK plugin recording session registry
+ *
+ * Keeps track of every meeting window the SDK has told us about, keyed by
+ * windowId, so any renderer can ask what is currently being recorded.
+ */
+
+import type { MeetingWindow, RecordingSession } from "./shared";
+
+// Ended sessions are kept around so late renderers can still see them
+const MAX_ENDED_SESSIONS = 20;
+
+const copySession = (session: RecordingSession): RecordingSession => ({
+  ...session,
+  window: { ...session.window },
+  pauses: session.pauses?.map((pause) => ({ ...pause })),
+});
+
+class RecordingRegistry {
+  private sessions = new Map<string, RecordingSession>();
+
+  /**
+   * Record that a meeting window was detected
+   */
+  markDetected(window: MeetingWindow): RecordingSession {
+    const existing = this.sessions.get(window.id);
+    if (existing && existing.state !== "ended") {
+      return this.update(window.id, {
+        window: { ...existing.window, ...window },
+      });
+    }
+
+    const now = Date.now();
+    const session: RecordingSession = {
+      windowId: window.id,
+      state: "detected",
+      window: { ...window },
+      detectedAt: now,
+      updatedAt: now,
+    };
+    this.sessions.set(window.id, session);
+    return { ...session };
+  }
+
+  /**
+   * Refresh the meeting window metadata (title, url, platform)
+   */
+  updateWindow(window: MeetingWindow): RecordingSession | undefined {
+    const existing = this.sessions.get(window.id);
+    if (!existing) {
+      return undefined;
+    }
+    return this.update(window.id, {
+      window: { ...existing.window, ...window },
+    });
+  }
+
+  /**
+   * Remember which webContents asked for the recording
+   */
+  setInitiator(windowId: string, webContentsId: number): void {
+    const existing = this.sessions.get(windowId);
+    if (!existing) {
+      this.sessions.set(windowId, {
+        windowId,
+        state: "detected",
+        window: { id: windowId },
+        updatedAt: Date.now(),
+        initiatorWebContentsId: webContentsId,
+      });
+      return;
+    }
+    this.update(windowId, { initiatorWebContentsId: webContentsId });
+  }
+
+  markRecording(window: MeetingWindow): RecordingSession {
+    const existing = this.sessions.get(window.id);
+    if (!existing || existing.state === "ended") {
+      this.markDetected(window);
+    }
+    const now = Date.now();
+    return this.update(window.id, {
+      state: "recording",
+      window: { ...this.sessions.get(window.id)!.window, ...window },
+      startedAt: now,
+      pausedAt: undefined,
+      resumedAt: undefined,
+      endedAt: undefined,
+      interrupted: undefined,
+      pauses: [],
+      lastError: undefined,
+    });
+  }
+
+  markPaused(windowId: string): RecordingSession | undefined {
+    const existing = this.sessions.get(windowId);
+    if (!existing || existing.state !== "recording") {
+      return existing ? { ...existing } : undefined;
+    }
+    const now = Date.now();
+    return this.update(windowId, {
+      state: "paused",
+      pausedAt: now,
+      pauses: [...(existing.pauses ?? []), { pausedAt: now }],
+    });
+  }
+
+  markResumed(windowId: string): RecordingSession | undefined {
+    const existing = this.sessions.get(windowId);
+    if (!existing || existing.state !== "paused") {
+      return existing ? { ...existing } : undefined;
+    }
+    const now = Date.now();
+    const pauses = [...(existing.pauses ?? [])];
+    const last = pauses[pauses.length - 1];
+    if (last && last.resumedAt === undefined) {
+      pauses[pauses.length - 1] = { ...last, resumedAt: now };
+    }
+    return this.update(windowId, {
+      state: "recording",
+      resumedAt: now,
+      pauses,
+    });
+  }
+
+  markEnded(windowId: string): RecordingSession | undefined {
+    const existing = this.sessions.get(windowId);
+    if (!existing) {
+      return undefined;
+    }
+    const session = this.update(windowId, {
+      state: "ended",
+      endedAt: Date.now(),
+    });
+    this.pruneEnded();
+    return session;
+  }
+
+  /**
+   * Remember the last error the SDK reported for a window
+   */
+  setError(windowId: string, message: string): void {
+    if (this.sessions.has(windowId)) {
+      this.update(windowId, { lastError: message });
+    }
+  }
+
+  /**
+   * Handle a meeting window going away. Sessions that never recorded are
+   * dropped; sessions that did are left for recording-ended to close out.
+   */
+  markClosed(windowId: string): void {
+    const existing = this.sessions.get(windowId);
+    if (existing && existing.state === "detected") {
+      this.sessions.delete(windowId);
+    }
+  }
+
+  /**
+   * Mark every recording or paused session as ended (e.g. on SDK shutdown)
+   * @param interrupted Flag the sessions as cut short by an SDK crash
+   */
+  endActive(interrupted = false): RecordingSession[] {
+    return this.getActive()
+      .map((session) => {
+        if (interrupted) {
+          this.update(session.windowId, { interrupted: true });
+        }
+        return this.markEnded(session.windowId);
+      })
+      .filter((session): session is RecordingSession => !!session);
+  }
+
+  get(windowId: string): RecordingSession | undefined {
+    const session = this.sessions.get(windowId);
+    return session ? copySession(session) : undefined;
+  }
+
+  getAll(): RecordingSession[] {
+    return Array.from(this.sessions.values()).map(copySession);
+  }
+
+  /**
+   * Sessions that are currently recording or paused
+   */
+  getActive(): RecordingSession[] {
+    return this.getAll().filter(
+      (session) => session.state === "recording" || session.state === "paused"
+    );
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  private update(
+    windowId: string,
+    updates: Partial<RecordingSession>
+  ): RecordingSession {
+    const existing = this.sessions.get(windowId)!;
+    const session = { ...existing, ...updates, updatedAt: Date.now() };
+    this.sessions.set(windowId, session);
+    return copySession(session);
+  }
+
+  private pruneEnded(): void {
+    const ended = Array.from(this.sessions.values())
+      .filter((session) => session.state === "ended")
+      .sort((a, b) => (a.endedAt ?? 0) - (b.endedAt ?? 0));
+    while (ended.length > MAX_ENDED_SESSIONS) {
+      const oldest = ended.shift()!;
+      this.sessions.delete(oldest.windowId);
+    }
+  }
+}
+
+export const recordingRegistry = new RecordingRegistry();
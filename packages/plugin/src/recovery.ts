@@ -0,0 +1,132 @@
+/**
+ * Recall Desktop SDK plugin crash recovery
+ *
+ * Restarts the SDK after it stops unexpectedly (e.g. the native process
+ * crashed), retrying with exponential backoff until it comes back or the
+ * attempt budget runs out.
+ */
+
+import { createLogger } from "./logger";
+import type { SdkRecoveryStatus } from "./shared";
+
+export interface RecoveryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RecoveryCallbacks {
+  onRecovered: (attempts: number) => void;
+  onFailed: (attempts: number, error: unknown) => void;
+}
+
+const log = createLogger("SdkRecoverySupervisor");
+
+export const DEFAULT_RECOVERY_OPTIONS: RecoveryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export class SdkRecoverySupervisor {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on cancel so attempts that are already running are ignored
+  private generation = 0;
+  private status: SdkRecoveryStatus = {
+    recovering: false,
+    attempt: 0,
+    restartCount: 0,
+    failedRecoveries: 0,
+  };
+
+  constructor(
+    private readonly restart: () => Promise<void>,
+    private readonly callbacks: RecoveryCallbacks,
+    private readonly options: RecoveryOptions = DEFAULT_RECOVERY_OPTIONS
+  ) {}
+
+  /**
+   * Start restarting the SDK. No-op while a recovery is already running.
+   */
+  start(): void {
+    this.status.lastShutdownAt = Date.now();
+    if (this.status.recovering) {
+      return;
+    }
+    this.status.recovering = true;
+    this.status.attempt = 0;
+    this.scheduleNextAttempt();
+  }
+
+  /**
+   * Stop recovering, e.g. because the SDK was shut down or started on purpose
+   */
+  cancel(): void {
+    this.generation++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.status.recovering = false;
+    this.status.attempt = 0;
+  }
+
+  isRecovering(): boolean {
+    return this.status.recovering;
+  }
+
+  getStatus(): SdkRecoveryStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Delay before the given attempt (1-based): base, 2x base, 4x base, ...
+   */
+  getDelay(attempt: number): number {
+    return Math.min(
+      this.options.baseDelayMs * 2 ** (attempt - 1),
+      this.options.maxDelayMs
+    );
+  }
+
+  private scheduleNextAttempt(): void {
+    const attempt = this.status.attempt + 1;
+    const generation = this.generation;
+    const delay = this.getDelay(attempt);
+    log.info(
+      `Restart attempt ${attempt}/${this.options.maxAttempts} in ${delay}ms`
+    );
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.runAttempt(attempt, generation);
+    }, delay);
+  }
+
+  private async runAttempt(attempt: number, generation: number): Promise<void> {
+    this.status.attempt = attempt;
+    try {
+      await this.restart();
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.status.lastError =
+        error instanceof Error ? error.message : String(error);
+      log.error(`Restart attempt ${attempt} failed`, error);
+      if (attempt < this.options.maxAttempts) {
+        this.scheduleNextAttempt();
+        return;
+      }
+      this.status.recovering = false;
+      this.status.attempt = 0;
+      this.status.failedRecoveries++;
+      this.callbacks.onFailed(attempt, error);
+      return;
+    }
+
+    if (generation !== this.generation) return;
+    this.status.recovering = false;
+    this.status.attempt = 0;
+    this.status.restartCount++;
+    this.status.lastRecoveredAt = Date.now();
+    this.callbacks.onRecovered(attempt);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Recall Desktop SDK plugin event replay buffer
+ *
+ * Keeps the most recent payloads for each event type so that renderers
+ * subscribing late (after a reload, or after a late initSdk) can catch up.
+ * Events that describe current state (open meetings, running recordings,
+ * SDK state, permissions) are rebuilt from live state instead, so a late
+ * subscriber never sees a recording-started for a recording that ended.
+ * Capture status events are kept per window and stream, and only replayed
+ * while that window is still recording.
+ */
+
+import type {
+  MeetingWindow,
+  PermissionStatusMap,
+  RecallEventType,
+  RecordingSession,
+  SdkRecordingState,
+} from "./shared";
+
+const DEFAULT_CAPACITY = 10;
+
+// What the plugin knows right now, for replaying state events
+export interface ReplayState {
+  openMeetings: MeetingWindow[];
+  activeRecordings: RecordingSession[];
+  // Unset while the SDK is not running
+  sdkState?: SdkRecordingState;
+  permissionStatuses: PermissionStatusMap;
+}
+
+const LIVE_EVENTS: Partial<
+  Record<RecallEventType, (state: ReplayState) => any[]>
+> = {
+  "meeting-detected": (state) =>
+    state.openMeetings.map((window) => ({ window: { ...window } })),
+  "recording-started": (state) =>
+    state.activeRecordings.map((session) => ({
+      window: { ...session.window },
+    })),
+  "sdk-state-change": (state) =>
+    state.sdkState ? [{ sdk: { state: { code: state.sdkState } } }] : [],
+  "permission-status": (state) =>
+    Object.entries(state.permissionStatuses).map(([permission, status]) => ({
+      permission,
+      status,
+    })),
+};
+
+// Only the latest capture status per window and stream is worth replaying
+const captureKey = (data: any): string => `${data?.window?.id}:${data?.type}`;
+const CAPTURE_EVENTS: ReadonlySet<RecallEventType> = new Set([
+  "media-capture-status",
+  "participant-capture-status",
+]);
+
+class EventReplayBuffer {
+  private buffers = new Map<RecallEventType, any[]>();
+
+  constructor(private capacity = DEFAULT_CAPACITY) {}
+
+  /**
+   * Remember an event payload, dropping the oldest one when full
+   */
+  record(type: RecallEventType, data: any): void {
+    let buffer = this.buffers.get(type);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(type, buffer);
+    }
+    if (CAPTURE_EVENTS.has(type)) {
+      const key = captureKey(data);
+      const index = buffer.findIndex((entry) => captureKey(entry) === key);
+      if (index !== -1) {
+        buffer.splice(index, 1);
+      }
+    }
+    buffer.push(data);
+    if (buffer.length > this.capacity) {
+      buffer.splice(0, buffer.length - this.capacity);
+    }
+  }
+
+  /**
+   * Get buffered payloads for an event type, oldest first
+   * @param limit Only return the most recent `limit` payloads
+   */
+  get(type: RecallEventType, limit?: number): any[] {
+    const buffer = this.buffers.get(type) ?? [];
+    if (limit === undefined || limit >= buffer.length) {
+      return [...buffer];
+    }
+    return limit > 0 ? buffer.slice(-limit) : [];
+  }
+
+  /**
+   * Payloads to replay to a late subscriber, oldest first. State events
+   * are rebuilt from `state`; everything else comes from the buffer.
+   * @param limit Only return the most recent `limit` payloads
+   */
+  replay(type: RecallEventType, state: ReplayState, limit?: number): any[] {
+    let events: any[];
+    const live = LIVE_EVENTS[type];
+    if (live) {
+      events = live(state);
+    } else if (CAPTURE_EVENTS.has(type)) {
+      const recording = new Set(
+        state.activeRecordings.map((session) => session.windowId)
+      );
+      events = this.get(type).filter((data) => recording.has(data?.window?.id));
+    } else {
+      return this.get(type, limit);
+    }
+    if (limit === undefined || limit >= events.length) {
+      return events;
+    }
+    return limit > 0 ? events.slice(-limit) : [];
+  }
+
+  /**
+   * Copy of every buffer, keyed by event type
+   */
+  snapshot(): Partial<Record<RecallEventType, any[]>> {
+    return Object.fromEntries(
+      Array.from(this.buffers.entries()).map(([type, buffer]) => [
+        type,
+        [...buffer],
+      ])
+    );
+  }
+
+  clear(type?: RecallEventType): void {
+    if (type) {
+      this.buffers.delete(type);
+    } else {
+      this.buffers.clear();
+    }
+  }
+}
+
+export const eventReplayBuffer = new EventReplayBuffer();
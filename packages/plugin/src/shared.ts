@@ -21,50 +21,229 @@ export const IPC_CHANNELS = {
 
   // Permission management
   REQUEST_PERMISSION: "recall-desktop:request-permission",
+  GET_PERMISSION_STATUS: "recall-desktop:get-permission-status",
 
   // Configuration
   SET_CONFIG: "recall-desktop:set-config",
   GET_CONFIG: "recall-desktop:get-config",
+  RESET_CONFIG: "recall-desktop:reset-config",
+
+  // Recording registry
+  GET_RECORDINGS: "recall-desktop:get-recordings",
+  GET_RECORDING: "recall-desktop:get-recording",
+
+  // Meeting detection
+  GET_DETECTED_MEETINGS: "recall-desktop:get-detected-meetings",
+
+  // Upload token provider
+  SET_UPLOAD_TOKEN_REQUEST: "recall-desktop:set-upload-token-request",
+
+  // Recording history journal
+  GET_RECORDING_HISTORY: "recall-desktop:get-recording-history",
+
+  // Graceful quit
+  RESPOND_TO_QUIT: "recall-desktop:respond-to-quit",
+
+  // Live transcripts
+  GET_TRANSCRIPT: "recall-desktop:get-transcript",
+  EXPORT_TRANSCRIPT: "recall-desktop:export-transcript",
+
+  // Participant rosters
+  GET_PARTICIPANTS: "recall-desktop:get-participants",
+
+  // Meeting analytics
+  GET_MEETING_ANALYTICS: "recall-desktop:get-meeting-analytics",
+
+  // Transcript watch rules
+  SET_TRANSCRIPT_RULE: "recall-desktop:set-transcript-rule",
+  REMOVE_TRANSCRIPT_RULE: "recall-desktop:remove-transcript-rule",
+  GET_TRANSCRIPT_RULES: "recall-desktop:get-transcript-rules",
+
+  // Diagnostics
+  GET_LOGS: "recall-desktop:get-logs",
+  EXPORT_DIAGNOSTICS: "recall-desktop:export-diagnostics",
+
+  // SDK debugging hooks (require the debugTools preference)
+  DUMP_AX_TREE: "recall-desktop:dump-ax-tree",
+  DUMP_ALL_APPLICATIONS: "recall-desktop:dump-all-applications",
 
   // Event subscription
   SUBSCRIBE_EVENTS: "recall-desktop:subscribe-events",
   UNSUBSCRIBE_EVENTS: "recall-desktop:unsubscribe-events",
 } as const;
 
+// Which renderer frames may call the plugin over IPC
+export interface SenderPolicy {
+  // Origins allowed to call the plugin, e.g. "https://app.example.com" or
+  // "https://*.example.com". Empty or undefined allows every origin.
+  allowedOrigins?: string[];
+  // Reject calls from subframes (including embedded third-party iframes)
+  mainFrameOnly: boolean;
+}
+
+// Log levels, least to most severe
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// A structured log entry written by the plugin logger (see logger.ts)
+export interface LogEntry {
+  // Epoch milliseconds
+  timestamp: number;
+  level: LogLevel;
+  // "sdk" for entries captured from the SDK's log event
+  source: "plugin" | "sdk";
+  subsystem: string;
+  category?: string;
+  windowId?: string;
+  message: string;
+  data?: unknown;
+}
+
+// Filter for reading recent log entries
+export interface LogFilter {
+  // Minimum level to return
+  level?: LogLevel;
+  subsystem?: string;
+  windowId?: string;
+  // Most recent entries to return
+  limit?: number;
+}
+
 // Recall SDK Configuration (mirrors RecallAiSdkConfig where applicable)
 export interface RecallSdkConfig {
   enabled: boolean;
   apiUrl: string;
   requestPermissionsOnStartup: boolean;
+  // Minimum level captured by the plugin logger
+  logLevel: LogLevel;
+  // Opt-in rules for starting recordings on meeting-detected (see autoRecord.ts)
+  autoRecord: AutoRecordConfig;
+  // What happens to active recordings when the system sleeps or the screen
+  // locks (see power.ts)
+  suspendAction: PowerAction;
+  lockAction: PowerAction;
+  // Safeguards that stop unattended recordings (see autoStop.ts)
+  autoStop: AutoStopConfig;
+}
+
+export interface AutoStopConfig {
+  // Stop when meeting-closed fires for the recording's window
+  onMeetingClosed: boolean;
+  // Stop recordings that have run this long; 0 disables the limit
+  maxDurationMinutes: number;
+  // Stop when media capture has been lost this long; 0 disables the check
+  captureLossGraceSeconds: number;
+}
+
+export type AutoStopReason = "meeting-closed" | "max-duration" | "capture-lost";
+
+// Payload of the plugin's "recording-auto-stopped" event
+export interface RecordingAutoStoppedEvent {
+  windowId: string;
+  window: MeetingWindow;
+  reason: AutoStopReason;
+  error?: ApiError;
+}
+
+// What the auto-record policy does with a detected meeting
+export const AUTO_RECORD_ACTIONS = ["record", "ask", "ignore"] as const;
+
+export type AutoRecordAction = (typeof AUTO_RECORD_ACTIONS)[number];
+
+// A rule matches when every criterion it sets matches; patterns use `*`
+// wildcards and ignore case
+export interface AutoRecordRule {
+  // Reported in auto-record-decision events
+  id?: string;
+  platforms?: string[];
+  urlPattern?: string;
+  titlePattern?: string;
+  action: AutoRecordAction;
+  // Sent as recording_config when fetching the upload token for a match
+  recordingConfig?: Record<string, unknown>;
+}
+
+export interface AutoRecordConfig {
+  enabled: boolean;
+  // Evaluated in order; the first match decides
+  rules: AutoRecordRule[];
+  // Applied when no rule matches
+  defaultAction: AutoRecordAction;
+}
+
+// Payload of the plugin's "auto-record-decision" event
+export interface AutoRecordDecision {
+  window: MeetingWindow;
+  action: AutoRecordAction;
+  // Matching rule; unset when the default action applied
+  ruleIndex?: number;
+  ruleId?: string;
+  reason: string;
+  // For "record": whether the recording started, and why not
+  recordingStarted?: boolean;
+  error?: ApiError;
+}
+
+// Applied to active recordings on system suspend or screen lock
+export const POWER_ACTIONS = ["none", "pause", "stop"] as const;
+
+export type PowerAction = (typeof POWER_ACTIONS)[number];
+
+// Power events that pause or stop recordings, and those that resume them
+export type PowerPauseReason = "suspend" | "lock-screen";
+export type PowerResumeReason = "resume" | "unlock-screen";
+
+// Payload of the plugin's "recording-auto-paused" event
+export interface RecordingAutoPausedEvent {
+  windowId: string;
+  window: MeetingWindow;
+  action: Exclude<PowerAction, "none">;
+  reason: PowerPauseReason;
+  error?: ApiError;
+}
+
+// Payload of the plugin's "recording-auto-resumed" event
+export interface RecordingAutoResumedEvent {
+  windowId: string;
+  window: MeetingWindow;
+  reason: PowerResumeReason;
+  error?: ApiError;
+}
+
+// How meeting titles and URLs appear in logs, events and IPC responses
+export const REDACTION_MODES = ["off", "mask", "hash"] as const;
+
+export type RedactionMode = (typeof REDACTION_MODES)[number];
+
+// Meeting privacy filter (see privacy.ts); set only through preferences
+export interface PrivacyPolicy {
+  // startRecording is refused for meetings matching any of these
+  blockedUrlPatterns: string[];
+  blockedTitlePatterns: string[];
+  redaction: RedactionMode;
+}
+
+// ToDesktop preference input types supported by the preference registry
+export type PreferenceType = "text" | "checkbox" | "select" | "number";
+
+// A single ToDesktop preference as passed in the plugin context
+export interface PluginPreference {
+  id: string;
+  name: string;
+  description: string;
+  type: PreferenceType;
+  spec: {
+    value?: unknown;
+    options?: Array<{ label: string; value: string }>;
+  };
 }
 
 // ToDesktop plugin context (subset relevant to this plugin)
 export interface PluginContext {
   plugin: {
     todesktop: {
-      preferences: [
-        {
-          id: "enabled";
-          name: string;
-          description: string;
-          type: "checkbox";
-          spec: { value?: boolean };
-        },
-        {
-          id: "apiUrl";
-          name: string;
-          description: string;
-          type: "text";
-          spec: { value?: string };
-        },
-        {
-          id: "requestPermissionsOnStartup";
-          name: string;
-          description: string;
-          type: "checkbox";
-          spec: { value?: boolean };
-        }
-      ];
+      preferences: PluginPreference[];
     };
   };
 }
@@ -80,7 +259,15 @@ export interface MeetingWindow {
 // Recording request/response types
 export interface StartRecordingRequest {
   windowId: string;
-  uploadToken: string;
+  // Optional when an upload token endpoint is configured (see uploadTokens.ts)
+  uploadToken?: string;
+}
+
+// Sent with every request to the upload token endpoint
+export interface UploadTokenRequestOptions {
+  headers?: Record<string, string>;
+  // JSON body, e.g. the recording_config for the SDK upload
+  body?: unknown;
 }
 
 export interface StopRecordingRequest {
@@ -99,25 +286,306 @@ export interface UploadRecordingRequest {
   windowId: string;
 }
 
+export interface GetRecordingRequest {
+  windowId: string;
+}
+
+// Recording session lifecycle as tracked by the main process
+export type RecordingState = "detected" | "recording" | "paused" | "ended";
+
+// A pause within a recording; resumedAt is unset while still paused
+export interface RecordingPause {
+  pausedAt: number;
+  resumedAt?: number;
+}
+
+export interface RecordingSession {
+  windowId: string;
+  state: RecordingState;
+  window: MeetingWindow;
+  // Timestamps are epoch milliseconds
+  detectedAt?: number;
+  startedAt?: number;
+  pausedAt?: number;
+  resumedAt?: number;
+  endedAt?: number;
+  updatedAt: number;
+  // webContents id of the renderer that requested startRecording
+  initiatorWebContentsId?: number;
+  // Set when the session ended because the SDK stopped unexpectedly
+  interrupted?: boolean;
+  // Every pause of the current recording, oldest first
+  pauses?: RecordingPause[];
+  // Last error the SDK reported for this window
+  lastError?: string;
+}
+
+// A transcribed word; timestamps are seconds since the recording started
+export interface TranscriptWord {
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+// One utterance by one speaker. Partial segments are replaced in place,
+// keeping their id, until the final transcript for them arrives.
+export interface TranscriptSegment {
+  id: number;
+  speaker: string;
+  participantId?: number;
+  text: string;
+  words: TranscriptWord[];
+  start?: number;
+  end?: number;
+  final: boolean;
+}
+
+// Transcript assembled from realtime transcript events (see transcript.ts)
+export interface Transcript {
+  windowId: string;
+  window: MeetingWindow;
+  // Ordered by start time
+  segments: TranscriptSegment[];
+  startedAt: number;
+  updatedAt: number;
+  // Set once the recording ended; the transcript stays available
+  endedAt?: number;
+}
+
+// Payload of the plugin's "transcript-updated" event
+export interface TranscriptUpdatedEvent {
+  windowId: string;
+  window: MeetingWindow;
+  // The segment that was added or replaced
+  segment: TranscriptSegment;
+}
+
+export const TRANSCRIPT_FORMATS = ["srt", "vtt", "markdown", "json"] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export interface ExportTranscriptRequest {
+  windowId: string;
+  format: TranscriptFormat;
+}
+
+export interface TranscriptExport {
+  fileName: string;
+  format: TranscriptFormat;
+  content: string;
+}
+
+// A watch rule evaluated against final transcript segments (see
+// transcriptRules.ts). Set exactly one of phrases or pattern.
+export interface TranscriptRule {
+  id: string;
+  // Keywords or phrases, matched as whole words with any whitespace
+  // between words
+  phrases?: string[];
+  // Regular expression source; must pass findUnsafePattern
+  pattern?: string;
+  // Defaults to false
+  caseSensitive?: boolean;
+  // Only match in this meeting window; unset matches every window
+  windowId?: string;
+}
+
+export interface RemoveTranscriptRuleRequest {
+  ruleId: string;
+}
+
+// Payload of the plugin's "transcript-match" event
+export interface TranscriptMatchEvent {
+  ruleId: string;
+  windowId: string;
+  window: MeetingWindow;
+  speaker: string;
+  participantId?: number;
+  segmentId: number;
+  // The matched text, as spoken
+  text: string;
+  // Up to a few words either side of the match
+  context: string;
+  // Seconds since the recording started, from the matched words
+  start?: number;
+  end?: number;
+  // Epoch milliseconds
+  matchedAt: number;
+}
+
+// A meeting participant as reported by participant_events.* realtime events
+export interface Participant {
+  id: number;
+  // Empty until the meeting platform reports it
+  name: string;
+  isHost: boolean;
+  platform?: string;
+  // Epoch milliseconds; leftAt is cleared when the participant rejoins
+  joinedAt?: number;
+  leftAt?: number;
+  // Still in the meeting
+  present: boolean;
+  // Speaking, webcam on and sharing their screen
+  audio: boolean;
+  video: boolean;
+  screenshare: boolean;
+  updatedAt: number;
+}
+
+// Whether the SDK is capturing each participant stream type, from
+// participant-capture-status; unset until first reported
+export type ParticipantCapture = Partial<
+  Record<"audio" | "video" | "screenshare", boolean>
+>;
+
+// Participants of a meeting window (see participants.ts)
+export interface ParticipantRoster {
+  windowId: string;
+  window: MeetingWindow;
+  // In order of first appearance
+  participants: Participant[];
+  capture: ParticipantCapture;
+  updatedAt: number;
+  // Set once the recording ended; the roster stays available
+  endedAt?: number;
+}
+
+// Payload of the plugin's "participants-changed" event
+export interface ParticipantsChangedEvent extends ParticipantRoster {
+  // The realtime event name without "participant_events.", e.g. "join",
+  // or "capture" for participant-capture-status
+  change: string;
+  // Participant the change is about; unset for capture changes
+  participantId?: number;
+}
+
+// Talk statistics for one speaker (see analytics.ts). Participants on the
+// roster who never spoke are listed with zero talk time.
+export interface SpeakerAnalytics {
+  speaker: string;
+  participantId?: number;
+  talkTimeSeconds: number;
+  // Share of the meeting's total talk time, 0-100
+  talkTimePercent: number;
+  segments: number;
+  words: number;
+  // Words per minute of this speaker's talk time
+  wordsPerMinute: number;
+  // Times this speaker started talking while someone else still was
+  interruptions: number;
+}
+
+// Silences between utterances longer than the analytics gap threshold
+export interface SilenceGapAnalytics {
+  count: number;
+  totalSeconds: number;
+  longestSeconds: number;
+}
+
+// Post-call summary computed locally from the transcript, participant
+// roster and recording lifecycle; durations are in seconds
+export interface MeetingAnalytics {
+  windowId: string;
+  // Epoch milliseconds
+  computedAt: number;
+  // Time spent recording, excluding pauses
+  recordedSeconds: number;
+  pausedSeconds: number;
+  // Talk time with overlapping speech counted once
+  talkTimeSeconds: number;
+  // Time two or more speakers talked at once
+  overlapSeconds: number;
+  interruptions: number;
+  words: number;
+  wordsPerMinute: number;
+  silenceGaps: SilenceGapAnalytics;
+  // Most talk time first
+  speakers: SpeakerAnalytics[];
+}
+
+// How a recording in the history journal ended
+export type RecordingOutcome = "completed" | "interrupted" | "failed";
+
+// A finished recording in the persistent history journal (see history.ts)
+export interface RecordingHistoryEntry {
+  id: string;
+  windowId: string;
+  platform?: string;
+  title?: string;
+  url?: string;
+  // Epoch milliseconds; startedAt is unset when the recording never started
+  startedAt?: number;
+  endedAt: number;
+  pauses: RecordingPause[];
+  initiatorWebContentsId?: number;
+  outcome: RecordingOutcome;
+  lastError?: string;
+  // Unset for recordings that failed to start
+  analytics?: MeetingAnalytics;
+}
+
+// Filter for getRecordingHistory
+export interface RecordingHistoryQuery {
+  // Only entries that ended at or after this epoch millisecond timestamp
+  since?: number;
+  platform?: string;
+  // Most recent entries to return
+  limit?: number;
+}
+
+// Event subscription options
+export interface SubscribeOptions {
+  // Replay the last known state on subscribe. `true` replays everything
+  // buffered for the event type; a number replays at most that many events.
+  replay?: boolean | number;
+}
+
+export interface SubscribeResponse {
+  // Buffered payloads to deliver to the new subscriber, oldest first
+  replayed: any[];
+}
+
 // SDK Events from Recall SDK (mirror upstream)
-export type RecallSdkEventType =
-  | "recording-started"
-  | "recording-ended"
-  | "upload-progress"
-  | "meeting-detected"
-  | "meeting-updated"
-  | "meeting-closed"
-  | "sdk-state-change"
-  | "error"
-  | "media-capture-status"
-  | "participant-capture-status"
-  | "compliance-message-status"
-  | "permissions-granted"
-  | "permission-status"
-  | "realtime-event"
-  | "shutdown"
-  | "log"
-  | "network-status";
+export const RECALL_SDK_EVENT_TYPES = [
+  "recording-started",
+  "recording-ended",
+  "upload-progress",
+  "meeting-detected",
+  "meeting-updated",
+  "meeting-closed",
+  "sdk-state-change",
+  "error",
+  "media-capture-status",
+  "participant-capture-status",
+  "compliance-message-status",
+  "permissions-granted",
+  "permission-status",
+  "realtime-event",
+  "shutdown",
+  "log",
+  "network-status",
+] as const;
+
+export type RecallSdkEventType = (typeof RECALL_SDK_EVENT_TYPES)[number];
+
+// Events synthesized by the plugin itself rather than forwarded from the SDK
+export const PLUGIN_EVENT_TYPES = [
+  "sdk-recovered",
+  "sdk-recovery-failed",
+  "auto-record-decision",
+  "quit-requested",
+  "recording-auto-paused",
+  "recording-auto-resumed",
+  "recording-auto-stopped",
+  "transcript-updated",
+  "participants-changed",
+  "transcript-match",
+] as const;
+
+export type PluginEventType = (typeof PLUGIN_EVENT_TYPES)[number];
+
+// Every event type a renderer can subscribe to
+export type RecallEventType = RecallSdkEventType | PluginEventType;
 
 export interface RecallSdkEvent {
   type: RecallSdkEventType;
@@ -213,27 +681,148 @@ export interface LogEvent {
 }
 
 // Permission types (mirror upstream)
-export type PermissionType =
-  | "accessibility"
-  | "screen-capture"
-  | "microphone"
-  | "system-audio"
-  | "full-disk-access";
+export const PERMISSION_TYPES = [
+  "accessibility",
+  "screen-capture",
+  "microphone",
+  "system-audio",
+  "full-disk-access",
+] as const;
+
+export type PermissionType = (typeof PERMISSION_TYPES)[number];
+
+// Raw permission status strings as last reported by the SDK
+export type PermissionStatusMap = Partial<Record<PermissionType, string>>;
+
+// Recording state summary reported in PluginStatus
+export type SdkRecordingState = "recording" | "idle" | "paused";
+
+// Automatic SDK restart bookkeeping (see recovery.ts)
+export interface SdkRecoveryStatus {
+  recovering: boolean;
+  // Restart attempt in progress, 0 when not recovering
+  attempt: number;
+  // Successful automatic restarts since the plugin started
+  restartCount: number;
+  // Recovery runs that gave up after exhausting every attempt
+  failedRecoveries: number;
+  lastShutdownAt?: number;
+  lastRecoveredAt?: number;
+  lastError?: string;
+}
+
+// Payload of the plugin's "sdk-recovered" event
+export interface SdkRecoveredEvent {
+  attempts: number;
+  restartCount: number;
+  interruptedRecordings: RecordingSession[];
+}
+
+// Payload of the plugin's "sdk-recovery-failed" event
+export interface SdkRecoveryFailedEvent {
+  attempts: number;
+  error: ApiError;
+  interruptedRecordings: RecordingSession[];
+}
+
+// Payload of the plugin's "quit-requested" event. Answer with
+// RESPOND_TO_QUIT; without an answer within timeoutMs the quit proceeds.
+export interface QuitRequestedEvent {
+  requestId: string;
+  recordings: RecordingSession[];
+  timeoutMs: number;
+}
+
+export interface QuitResponse {
+  requestId: string;
+  // false keeps the app running and the recordings going
+  proceed: boolean;
+}
+
+// SDK lifecycle state machine (see lifecycle.ts)
+export type SdkLifecycleState =
+  | "uninitialized"
+  | "initializing"
+  | "ready"
+  | "shutting-down"
+  | "failed";
+
+/**
+ * Stable error codes returned in `ApiResponse.error.code`.
+ *
+ * `retryable` means repeating the same call later, without changing
+ * anything, may succeed.
+ */
+export const RECALL_ERROR_CODES = {
+  // The plugin is disabled through its ToDesktop preference
+  PLUGIN_DISABLED: { retryable: false },
+  // initSdk() has not been called (or the SDK was shut down)
+  SDK_NOT_INITIALIZED: { retryable: false },
+  // The SDK is still starting up
+  SDK_INITIALIZING: { retryable: true },
+  // The SDK is shutting down; call initSdk() again afterwards
+  SDK_SHUTTING_DOWN: { retryable: false },
+  // The native SDK failed to start
+  SDK_INIT_ERROR: { retryable: true },
+  // The native SDK failed to shut down cleanly
+  SDK_SHUTDOWN_ERROR: { retryable: true },
+  // A required OS permission (screen capture, microphone, ...) is missing
+  PERMISSION_MISSING: { retryable: false },
+  // The upload token was rejected by the SDK
+  INVALID_UPLOAD_TOKEN: { retryable: false },
+  // The SDK does not know the meeting window
+  WINDOW_NOT_FOUND: { retryable: false },
+  // A recording command (start/stop/pause/resume/upload) failed
+  RECORDING_ERROR: { retryable: true },
+  // A permission request failed
+  PERMISSION_REQUEST_ERROR: { retryable: true },
+  // Reading or applying configuration failed
+  CONFIG_ERROR: { retryable: false },
+  // Event subscription bookkeeping failed
+  SUBSCRIPTION_ERROR: { retryable: true },
+  // The IPC payload failed validation
+  VALIDATION_ERROR: { retryable: false },
+  // The calling frame is not allowed by the sender policy
+  SENDER_NOT_ALLOWED: { retryable: false },
+  // A debugging hook was called without the debugTools preference enabled
+  DEBUG_TOOLS_DISABLED: { retryable: false },
+  // The upload token endpoint could not provide a token
+  UPLOAD_TOKEN_UNAVAILABLE: { retryable: true },
+  // The meeting matches the privacy blocklist
+  MEETING_BLOCKED: { retryable: false },
+  // Anything not covered above
+  UNKNOWN_ERROR: { retryable: false },
+} as const;
+
+export type RecallErrorCode = keyof typeof RECALL_ERROR_CODES;
+
+// Error details carried across the IPC boundary
+export interface ApiError {
+  code: RecallErrorCode;
+  message: string;
+  // Message of the underlying SDK error, when there was one
+  sdkMessage?: string;
+  retryable: boolean;
+}
 
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
   message: string;
   data?: T;
+  // Present when success is false
+  error?: ApiError;
 }
 
 // Plugin status
 export interface PluginStatus {
   initialized: boolean;
   sdkInitialized: boolean;
+  sdkLifecycle?: SdkLifecycleState;
   version: string;
   config: RecallSdkConfig;
-  sdkState?: "recording" | "idle" | "paused";
+  sdkState?: SdkRecordingState;
+  recovery?: SdkRecoveryStatus;
   permissions?: {
     accessibility: boolean;
     screenCapture: boolean;
@@ -245,7 +834,11 @@ export interface PluginStatus {
 
 // Error types
 export class RecallSdkError extends Error {
-  constructor(message: string, public code?: string) {
+  constructor(
+    message: string,
+    public code?: RecallErrorCode,
+    public sdkMessage?: string
+  ) {
     super(message);
     this.name = "RecallSdkError";
   }
@@ -266,3 +859,60 @@ export interface PrepareDesktopAudioRecordingConfig {
 export interface PrepareDesktopAudioResponse {
   windowId: string;
 }
+
+// Options for exportDiagnostics
+export interface ExportDiagnosticsOptions {
+  // Ask the user where to save the bundle instead of returning its bytes
+  save?: boolean;
+  // Include dumpAllApplications() output (requires debugTools)
+  includeApplications?: boolean;
+  // Include dumpAXTree() output for these process names (requires debugTools)
+  includeAXTree?: string[];
+}
+
+// Output of the SDK debugging hooks included in a diagnostics bundle
+export interface DiagnosticsDebugDumps {
+  applications?: any;
+  // Keyed by process name
+  axTrees?: Record<string, any>;
+  // Dumps that failed, keyed by "applications" or the process name
+  errors?: Record<string, string>;
+}
+
+// Result of exportDiagnostics
+export interface DiagnosticsExport {
+  fileName: string;
+  // Bundle size in bytes
+  size: number;
+  // UTF-8 JSON bundle, when not saved to disk
+  bytes?: Uint8Array;
+  // Where the bundle was written, when saved
+  filePath?: string;
+  // The user dismissed the save dialog
+  canceled?: boolean;
+}
+
+// Everything a support ticket needs, with secrets redacted
+export interface DiagnosticsBundle {
+  generatedAt: string;
+  plugin: {
+    version: string;
+    platform: string;
+    arch: string;
+    electronVersion?: string;
+    appVersion?: string;
+  };
+  config: RecallSdkConfig;
+  status: PluginStatus;
+  permissions: PermissionStatusMap;
+  recordings: RecordingSession[];
+  detectedMeetings: MeetingWindow[];
+  // Per event type: renderers subscribed and total listener count
+  subscriptions: Record<string, { webContents: number; listeners: number }>;
+  trackedWebContents: Array<{ id: number; url: string; destroyed: boolean }>;
+  // Most recent payloads of each event type the plugin has seen
+  recentEvents: Record<string, any[]>;
+  errors: LogEntry[];
+  logs: LogEntry[];
+  debug?: DiagnosticsDebugDumps;
+}
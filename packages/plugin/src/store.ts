@@ -1,33 +1,99 @@
 /**
  * Recall Desktop SDK plugin state management and storage
+ *
+ * Configuration precedence (highest wins):
+ *   1. Runtime overrides set through setConfig(), persisted to
+ *      `<userData>/recall-desktop/config.json`
+ *   2. ToDesktop plugin preferences (setPluginContext)
+ *   3. Built-in defaults
+ * resetConfig() drops the runtime overrides. `enabled` is the exception: a
+ * runtime override of it lasts until the app quits and is never persisted,
+ * so the preference decides it again on the next launch.
  */
 
-import type { PluginContext, RecallSdkConfig } from './shared';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createLogger, logger } from './logger';
+import { recordingHistory } from './history';
+import { DEFAULT_AUTO_RECORD_CONFIG } from './autoRecord';
+import { DEFAULT_AUTO_STOP_CONFIG } from './autoStop';
+import { DEFAULT_PRIVACY_POLICY } from './privacy';
+import { uploadTokenProvider } from './uploadTokens';
+import { getPluginDataPath } from './paths';
+import {
+  getPreferenceDefaults,
+  readPreferences,
+  toPreferenceTargets,
+} from './preferences';
+import { validateConfigUpdate } from './validation';
+import type {
+  PermissionStatusMap,
+  PermissionType,
+  PluginContext,
+  PluginStatus,
+  PrivacyPolicy,
+  RecallSdkConfig,
+  SdkRecordingState,
+  SenderPolicy,
+} from './shared';
 
 let pluginContext: PluginContext | undefined;
 
+const CONFIG_FILE_NAME = 'config.json';
+
+const PREFERENCE_DEFAULTS = getPreferenceDefaults();
+
+const DEFAULT_CONFIG: RecallSdkConfig = {
+  enabled: PREFERENCE_DEFAULTS.enabled,
+  apiUrl: PREFERENCE_DEFAULTS.apiUrl,
+  requestPermissionsOnStartup: PREFERENCE_DEFAULTS.requestPermissionsOnStartup,
+  logLevel: PREFERENCE_DEFAULTS.logLevel,
+  // Rules are structured, so they are only set through setConfig
+  autoRecord: DEFAULT_AUTO_RECORD_CONFIG,
+  suspendAction: PREFERENCE_DEFAULTS.suspendAction,
+  lockAction: PREFERENCE_DEFAULTS.lockAction,
+  // Also structured, and also only set through setConfig
+  autoStop: DEFAULT_AUTO_STOP_CONFIG,
+};
+
+const log = createLogger('RecallSdkStore');
+
+// Overrides that are written to (and read back from) config.json
+const toPersisted = (
+  overrides: Partial<RecallSdkConfig>
+): Partial<RecallSdkConfig> => {
+  const persisted = { ...overrides };
+  delete persisted.enabled;
+  return persisted;
+};
+
 class RecallSdkStore {
-  private config: RecallSdkConfig = {
-    enabled: true,
-    apiUrl: 'https://us-east-1.recall.ai',
-    requestPermissionsOnStartup: true,
+  private preferenceConfig: Partial<RecallSdkConfig> = {};
+  private overrides: Partial<RecallSdkConfig> = {};
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private senderPolicy: SenderPolicy = {
+    mainFrameOnly: PREFERENCE_DEFAULTS.mainFrameOnly,
   };
+  private debugToolsEnabled = PREFERENCE_DEFAULTS.debugTools;
+  private privacyPolicy: PrivacyPolicy = DEFAULT_PRIVACY_POLICY;
 
   private initialized = false;
   private sdkInitialized = false;
+  private sdkState: SdkRecordingState = 'idle';
+  private permissionStatuses: PermissionStatusMap = {};
 
   /**
-   * Initialize the plugin store
+   * Initialize the plugin store and load persisted runtime overrides
    */
   async initialize(): Promise<void> {
-    // Load configuration from ToDesktop preferences
     try {
-      // In a real implementation, this would load from ToDesktop's preference system
-      // For now, we'll use the defaults
+      this.overrides = await this.readOverrides();
+      this.applyLogLevel();
       this.initialized = true;
-      console.log('RecallSdkStore: Initialized successfully');
+      log.info('Initialized successfully');
     } catch (error) {
-      console.error('RecallSdkStore: Failed to initialize:', error);
+      log.error('Failed to initialize', error);
       throw error;
     }
   }
@@ -36,32 +102,168 @@ class RecallSdkStore {
    * Get current plugin configuration
    */
   getConfig(): RecallSdkConfig {
-    return { ...this.config };
+    return { ...DEFAULT_CONFIG, ...this.preferenceConfig, ...this.overrides };
+  }
+
+  /**
+   * Get the runtime overrides currently applied on top of preferences
+   */
+  getOverrides(): Partial<RecallSdkConfig> {
+    return { ...this.overrides };
+  }
+
+  /**
+   * Update plugin configuration and persist it as a runtime override
+   */
+  async setConfig(updates: Partial<RecallSdkConfig>): Promise<void> {
+    this.overrides = { ...this.overrides, ...updates };
+    this.applyLogLevel();
+    log.info('Configuration updated', this.getConfig());
+    await this.persistOverrides();
   }
 
   /**
-   * Update plugin configuration
+   * Drop all runtime overrides, falling back to preferences and defaults
    */
-  setConfig(updates: Partial<RecallSdkConfig>): void {
-    this.config = { ...this.config, ...updates };
-    console.log('RecallSdkStore: Configuration updated:', this.config);
+  async resetConfig(): Promise<void> {
+    this.overrides = {};
+    this.applyLogLevel();
+    log.info('Configuration reset', this.getConfig());
+    await this.persistOverrides();
   }
 
   /**
    * Load configuration from ToDesktop preferences
    */
   loadFromPreferences(preferences: Partial<RecallSdkConfig>): void {
-    if (preferences.enabled !== undefined) {
-      this.config.enabled = preferences.enabled;
-    }
-    if (preferences.apiUrl !== undefined) {
-      this.config.apiUrl = preferences.apiUrl;
+    const config = Object.fromEntries(
+      Object.entries(preferences).filter(([, value]) => value !== undefined)
+    ) as Partial<RecallSdkConfig>;
+    this.preferenceConfig = config;
+    this.applyLogLevel();
+    log.info('Loaded configuration from preferences', this.getConfig());
+  }
+
+  private applyLogLevel(): void {
+    logger.setLevel(this.getConfig().logLevel);
+  }
+
+  private getConfigFilePath(): string {
+    return getPluginDataPath(CONFIG_FILE_NAME);
+  }
+
+  /**
+   * Read persisted overrides. A missing file means no overrides; a corrupt
+   * one is moved aside so it can be inspected, and ignored.
+   */
+  private async readOverrides(): Promise<Partial<RecallSdkConfig>> {
+    const filePath = this.getConfigFilePath();
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      log.error('Failed to read persisted configuration', error);
+      return {};
     }
-    // autoRecord removed by design
-    if (preferences.requestPermissionsOnStartup !== undefined) {
-      this.config.requestPermissionsOnStartup = preferences.requestPermissionsOnStartup;
+
+    try {
+      // Older versions persisted `enabled`; it is ignored now
+      const overrides = toPersisted(validateConfigUpdate(JSON.parse(contents)));
+      log.info('Loaded persisted configuration', overrides);
+      return overrides;
+    } catch (error) {
+      const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+      log.error(
+        `Persisted configuration is invalid, moving it to ${corruptPath}`,
+        error
+      );
+      await fs.rename(filePath, corruptPath).catch(() => undefined);
+      return {};
     }
-    console.log('RecallSdkStore: Loaded configuration from preferences:', this.config);
+  }
+
+  /**
+   * Write overrides atomically (temp file + rename). Writes are queued so
+   * rapid setConfig calls land on disk in order.
+   */
+  private persistOverrides(): Promise<void> {
+    const overrides = toPersisted(this.overrides);
+    const filePath = this.getConfigFilePath();
+
+    const write = async () => {
+      if (Object.keys(overrides).length === 0) {
+        await fs.rm(filePath, { force: true });
+        return;
+      }
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(overrides, null, 2), 'utf8');
+      await fs.rename(tempPath, filePath);
+    };
+
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.catch((error) => {
+      log.error('Failed to persist configuration', error);
+    });
+    return result;
+  }
+
+  /**
+   * Get the policy deciding which renderer frames may call the plugin
+   */
+  getSenderPolicy(): SenderPolicy {
+    return {
+      ...this.senderPolicy,
+      allowedOrigins: this.senderPolicy.allowedOrigins
+        ? [...this.senderPolicy.allowedOrigins]
+        : undefined,
+    };
+  }
+
+  /**
+   * Update the sender policy. Only the main process (preferences) may do
+   * this; it is deliberately not reachable through setConfig.
+   */
+  setSenderPolicy(updates: Partial<SenderPolicy>): void {
+    this.senderPolicy = { ...this.senderPolicy, ...updates };
+    log.info('Sender policy updated', this.senderPolicy);
+  }
+
+  /**
+   * Whether the SDK debugging hooks may be called. Like the sender policy,
+   * this is only set from preferences.
+   */
+  isDebugToolsEnabled(): boolean {
+    return this.debugToolsEnabled;
+  }
+
+  setDebugToolsEnabled(enabled: boolean): void {
+    this.debugToolsEnabled = enabled;
+    log.info(`Debugging tools ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * Get the meeting blocklist and redaction mode. Like the sender policy,
+   * this is only set from preferences so a renderer cannot relax it.
+   */
+  getPrivacyPolicy(): PrivacyPolicy {
+    return {
+      blockedUrlPatterns: [...this.privacyPolicy.blockedUrlPatterns],
+      blockedTitlePatterns: [...this.privacyPolicy.blockedTitlePatterns],
+      redaction: this.privacyPolicy.redaction,
+    };
+  }
+
+  setPrivacyPolicy(updates: Partial<PrivacyPolicy>): void {
+    this.privacyPolicy = { ...this.privacyPolicy, ...updates };
+    log.info('Privacy policy updated', {
+      blockedUrlPatterns: this.privacyPolicy.blockedUrlPatterns.length,
+      blockedTitlePatterns: this.privacyPolicy.blockedTitlePatterns.length,
+      redaction: this.privacyPolicy.redaction,
+    });
   }
 
   /**
@@ -75,7 +277,7 @@ class RecallSdkStore {
    * Check if plugin is enabled
    */
   isEnabled(): boolean {
-    return this.config.enabled;
+    return this.getConfig().enabled;
   }
 
   /**
@@ -92,12 +294,57 @@ class RecallSdkStore {
     return this.sdkInitialized;
   }
 
+  /**
+   * Set the current recording state summary
+   */
+  setSdkState(state: SdkRecordingState): void {
+    this.sdkState = state;
+  }
+
+  /**
+   * Get the current recording state summary
+   */
+  getSdkState(): SdkRecordingState {
+    return this.sdkState;
+  }
+
+  /**
+   * Record the raw status string reported for a permission
+   */
+  setPermissionStatus(permission: PermissionType, status: string): void {
+    this.permissionStatuses = { ...this.permissionStatuses, [permission]: status };
+  }
+
+  /**
+   * Get the raw status strings reported for each permission
+   */
+  getPermissionStatuses(): PermissionStatusMap {
+    return { ...this.permissionStatuses };
+  }
+
+  /**
+   * Get per-permission granted flags as exposed in PluginStatus
+   */
+  getPermissions(): NonNullable<PluginStatus['permissions']> {
+    const isGranted = (permission: PermissionType) =>
+      this.permissionStatuses[permission]?.toLowerCase() === 'granted';
+
+    return {
+      accessibility: isGranted('accessibility'),
+      screenCapture: isGranted('screen-capture'),
+      microphone: isGranted('microphone'),
+      systemAudio: isGranted('system-audio'),
+      fullDiskAccess: isGranted('full-disk-access'),
+    };
+  }
+
   /**
    * Clear all state (useful for shutdown/reset)
    */
   clearState(): void {
     this.setSdkInitialized(false);
-    console.log('RecallSdkStore: Cleared all state');
+    this.setSdkState('idle');
+    log.info('Cleared all state');
   }
 }
 
@@ -109,25 +356,26 @@ export const recallSdkStore = new RecallSdkStore();
 export const setPluginContext = (input: PluginContext): void => {
   pluginContext = input;
 
-  const [enabledPref, apiUrlPref, requestPref] =
-    input.plugin?.todesktop?.preferences ?? [];
+  const preferences = readPreferences(input);
 
-  const preferences: Partial<RecallSdkConfig> = {
-    enabled:
-      typeof enabledPref?.spec?.value === 'boolean'
-        ? enabledPref.spec.value
-        : undefined,
-    apiUrl:
-      typeof apiUrlPref?.spec?.value === 'string' && apiUrlPref.spec.value.trim()
-        ? apiUrlPref.spec.value
-        : undefined,
-    requestPermissionsOnStartup:
-      typeof requestPref?.spec?.value === 'boolean'
-        ? requestPref.spec.value
-        : undefined,
-  };
+  const targets = toPreferenceTargets(preferences);
+  recallSdkStore.loadFromPreferences(targets.config);
+  recallSdkStore.setSenderPolicy(targets.senderPolicy);
+  recallSdkStore.setPrivacyPolicy(targets.privacyPolicy);
+
+  if (preferences.debugTools !== undefined) {
+    recallSdkStore.setDebugToolsEnabled(preferences.debugTools);
+  }
+
+  recordingHistory.setRetention({
+    maxAgeDays: preferences.historyRetentionDays,
+    maxEntries: preferences.historyMaxEntries,
+  });
 
-  recallSdkStore.loadFromPreferences(preferences);
+  uploadTokenProvider.configure({
+    url: preferences.uploadTokenUrl,
+    poolSize: preferences.uploadTokenPoolSize,
+  });
 };
 
 /**
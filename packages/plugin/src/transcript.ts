@@ -0,0 +1,202 @@
+/**
+ * Recall Desktop SDK plugin live transcript assembler
+ *
+ * Builds one transcript per meeting window from `realtime-event` payloads.
+ * `transcript.partial_data` events carry the utterance recognized so far
+ * and are replaced in place; the `transcript.data` event for the same
+ * speaker finalizes the segment under the same id. Transcripts outlive
+ * their recording so they can still be read and exported afterwards.
+ */
+
+import type {
+  MeetingWindow,
+  Transcript,
+  TranscriptSegment,
+  TranscriptUpdatedEvent,
+  TranscriptWord,
+} from "./shared";
+
+// Ended transcripts kept in memory, oldest dropped first
+const MAX_ENDED_TRANSCRIPTS = 20;
+
+export const UNKNOWN_SPEAKER = "Unknown participant";
+
+// Realtime event names and whether they carry final results
+const TRANSCRIPT_EVENTS: Record<string, boolean> = {
+  "transcript.data": true,
+  "transcript.partial_data": false,
+};
+
+interface TranscriptState {
+  transcript: Transcript;
+  // Id of the partial segment pending for each speaker
+  partials: Map<string, number>;
+  nextId: number;
+}
+
+const toSeconds = (timestamp: any): number | undefined =>
+  typeof timestamp?.relative === "number" && Number.isFinite(timestamp.relative)
+    ? timestamp.relative
+    : undefined;
+
+const parseWords = (words: unknown): TranscriptWord[] => {
+  if (!Array.isArray(words)) {
+    return [];
+  }
+  return words.flatMap((word: any) => {
+    const text = typeof word?.text === "string" ? word.text.trim() : "";
+    if (!text) {
+      return [];
+    }
+    const parsed: TranscriptWord = { text };
+    const start = toSeconds(word.start_timestamp);
+    const end = toSeconds(word.end_timestamp);
+    if (start !== undefined) parsed.start = start;
+    if (end !== undefined) parsed.end = end;
+    return [parsed];
+  });
+};
+
+const compareSegments = (a: TranscriptSegment, b: TranscriptSegment) =>
+  (a.start ?? Infinity) - (b.start ?? Infinity) || a.id - b.id;
+
+const copyTranscript = (transcript: Transcript): Transcript => ({
+  ...transcript,
+  window: { ...transcript.window },
+  segments: transcript.segments.map((segment) => ({
+    ...segment,
+    words: segment.words.map((word) => ({ ...word })),
+  })),
+});
+
+class TranscriptAssembler {
+  private states = new Map<string, TranscriptState>();
+
+  /**
+   * Start a fresh transcript for a recording, replacing any earlier one
+   * for the same window
+   */
+  start(window: MeetingWindow): void {
+    const now = Date.now();
+    this.states.set(window.id, {
+      transcript: {
+        windowId: window.id,
+        window: { ...window },
+        segments: [],
+        startedAt: now,
+        updatedAt: now,
+      },
+      partials: new Map(),
+      nextId: 1,
+    });
+  }
+
+  /**
+   * Merge a `realtime-event` payload into its window's transcript
+   * @returns the update to broadcast, or undefined if nothing changed
+   */
+  handleRealtimeEvent(evt: any): TranscriptUpdatedEvent | undefined {
+    const final = TRANSCRIPT_EVENTS[evt?.event];
+    const windowId = evt?.window?.id;
+    if (final === undefined || typeof windowId !== "string") {
+      return undefined;
+    }
+
+    const payload = evt.data?.data;
+    const words = parseWords(payload?.words);
+    if (words.length === 0) {
+      return undefined;
+    }
+
+    let state = this.states.get(windowId);
+    if (!state) {
+      this.start(evt.window);
+      state = this.states.get(windowId)!;
+    }
+    const { transcript } = state;
+    // Final results can trail the end of the recording; partials cannot
+    if (transcript.endedAt !== undefined && !final) {
+      return undefined;
+    }
+
+    const participant = payload.participant ?? {};
+    const participantId =
+      typeof participant.id === "number" ? participant.id : undefined;
+    const name =
+      typeof participant.name === "string" ? participant.name.trim() : "";
+    const speakerKey = String(participantId ?? (name || UNKNOWN_SPEAKER));
+
+    const id = state.partials.get(speakerKey) ?? state.nextId++;
+    if (final) {
+      state.partials.delete(speakerKey);
+    } else {
+      state.partials.set(speakerKey, id);
+    }
+
+    const last = words[words.length - 1];
+    const segment: TranscriptSegment = {
+      id,
+      speaker: name || UNKNOWN_SPEAKER,
+      text: words.map((word) => word.text).join(" "),
+      words,
+      final,
+    };
+    if (participantId !== undefined) segment.participantId = participantId;
+    if (words[0].start !== undefined) segment.start = words[0].start;
+    if ((last.end ?? last.start) !== undefined) {
+      segment.end = last.end ?? last.start;
+    }
+
+    transcript.segments = transcript.segments
+      .filter((existing) => existing.id !== id)
+      .concat(segment)
+      .sort(compareSegments);
+    transcript.window = { ...transcript.window, ...evt.window };
+    transcript.updatedAt = Date.now();
+
+    return {
+      windowId,
+      window: { ...transcript.window },
+      segment: { ...segment, words: words.map((word) => ({ ...word })) },
+    };
+  }
+
+  /**
+   * Mark a window's transcript as finished. Partial segments that were
+   * never finalized are dropped.
+   */
+  end(windowId: string): void {
+    const state = this.states.get(windowId);
+    if (!state || state.transcript.endedAt !== undefined) {
+      return;
+    }
+    const pending = new Set(state.partials.values());
+    state.transcript.segments = state.transcript.segments.filter(
+      (segment) => !pending.has(segment.id)
+    );
+    state.partials.clear();
+    state.transcript.endedAt = Date.now();
+    this.evictEnded();
+  }
+
+  get(windowId: string): Transcript | undefined {
+    const state = this.states.get(windowId);
+    return state ? copyTranscript(state.transcript) : undefined;
+  }
+
+  clear(): void {
+    this.states.clear();
+  }
+
+  private evictEnded(): void {
+    const ended = Array.from(this.states.values())
+      .map((state) => state.transcript)
+      .filter((transcript) => transcript.endedAt !== undefined)
+      .sort((a, b) => a.endedAt! - b.endedAt!);
+    ended
+      .slice(0, Math.max(0, ended.length - MAX_ENDED_TRANSCRIPTS))
+      .forEach((transcript) => this.states.delete(transcript.windowId));
+  }
+}
+
+export const transcriptAssembler = new TranscriptAssembler();
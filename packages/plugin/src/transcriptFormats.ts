@@ -0,0 +1,147 @@
+/**
+ * Recall Desktop SDK plugin transcript exporters
+ *
+ * Renders an assembled transcript as SRT, WebVTT, Markdown or JSON. Only
+ * final segments are exported; partial results are still changing.
+ */
+
+import type {
+  Transcript,
+  TranscriptExport,
+  TranscriptFormat,
+  TranscriptSegment,
+} from "./shared";
+
+const FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  srt: "srt",
+  vtt: "vtt",
+  markdown: "md",
+  json: "json",
+};
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const pad = (value: number, length = 2): string =>
+  String(value).padStart(length, "0");
+
+/**
+ * Format seconds as HH:MM:SS plus milliseconds after `separator`
+ */
+export const formatTimestamp = (seconds: number, separator = ","): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / HOUR_MS);
+  const minutes = Math.floor((totalMs % HOUR_MS) / MINUTE_MS);
+  const secs = Math.floor((totalMs % MINUTE_MS) / 1000);
+  const ms = pad(totalMs % 1000, 3);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${ms}`;
+};
+
+const finalSegments = (transcript: Transcript): TranscriptSegment[] =>
+  transcript.segments.filter((segment) => segment.final);
+
+// Segments without timestamps continue from the previous cue
+const toCues = (transcript: Transcript): Cue[] => {
+  let previousEnd = 0;
+  return finalSegments(transcript).map((segment) => {
+    const start = segment.start ?? previousEnd;
+    const end = Math.max(segment.end ?? start, start);
+    previousEnd = end;
+    return { start, end, speaker: segment.speaker, text: segment.text };
+  });
+};
+
+const escapeVtt = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const toSrt = (transcript: Transcript): string =>
+  toCues(transcript)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start)} --> ${formatTimestamp(
+          cue.end
+        )}\n${cue.speaker}: ${cue.text}\n`
+    )
+    .join("\n");
+
+export const toVtt = (transcript: Transcript): string =>
+  ["WEBVTT\n"]
+    .concat(
+      toCues(transcript).map(
+        (cue) =>
+          `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(
+            cue.end,
+            "."
+          )}\n<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}\n`
+      )
+    )
+    .join("\n");
+
+/**
+ * Markdown with consecutive segments by the same speaker merged into one
+ * paragraph
+ */
+export const toMarkdown = (transcript: Transcript): string => {
+  const paragraphs: Array<{ speaker: string; start?: number; text: string[] }> =
+    [];
+  for (const segment of finalSegments(transcript)) {
+    const previous = paragraphs[paragraphs.length - 1];
+    if (previous?.speaker === segment.speaker) {
+      previous.text.push(segment.text);
+    } else {
+      paragraphs.push({
+        speaker: segment.speaker,
+        start: segment.start,
+        text: [segment.text],
+      });
+    }
+  }
+
+  const title = transcript.window.title || "Meeting transcript";
+  const lines = [`# ${title}`, ""];
+  for (const paragraph of paragraphs) {
+    const time =
+      paragraph.start === undefined
+        ? ""
+        : ` (${formatTimestamp(paragraph.start).slice(0, 8)})`;
+    lines.push(`**${paragraph.speaker}**${time}: ${paragraph.text.join(" ")}`);
+    lines.push("");
+  }
+  return lines.join("\n");
+};
+
+export const toJson = (transcript: Transcript): string =>
+  JSON.stringify(
+    { ...transcript, segments: finalSegments(transcript) },
+    null,
+    2
+  );
+
+const EXPORTERS: Record<TranscriptFormat, (transcript: Transcript) => string> =
+  {
+    srt: toSrt,
+    vtt: toVtt,
+    markdown: toMarkdown,
+    json: toJson,
+  };
+
+export const exportTranscript = (
+  transcript: Transcript,
+  format: TranscriptFormat
+): TranscriptExport => {
+  const date = new Date(transcript.startedAt)
+    .toISOString()
+    .replace(/[:.]/g, "-");
+  return {
+    fileName: `recall-desktop-transcript-${date}.${FILE_EXTENSIONS[format]}`,
+    format,
+    content: EXPORTERS[format](transcript),
+  };
+};
@@ -0,0 +1,253 @@
+/**
+ * Recall Desktop SDK plugin transcript watch rules
+ *
+ * Rules registered by the app (keywords, phrase lists or regular
+ * expressions, for one meeting window or all of them) are matched against
+ * every final transcript segment the assembler produces, so each window
+ * gets the same matches whichever renderer is listening. Partial segments
+ * are not matched since they are still changing. Rules are kept in memory
+ * until removed or the app quits.
+ *
+ * Patterns come from the renderer but run in the main process, so ones
+ * that can backtrack exponentially (a repeated group that itself repeats
+ * or alternates, or a backreference) are refused.
+ */
+
+import type {
+  TranscriptMatchEvent,
+  TranscriptRule,
+  TranscriptUpdatedEvent,
+} from "./shared";
+
+export const MAX_TRANSCRIPT_RULES = 100;
+
+// Words of context kept either side of a match
+const CONTEXT_WORDS = 8;
+
+// Letters, digits and underscores; phrases must not be bordered by them
+const WORD_CHAR = "[\\p{L}\\p{N}_]";
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const phraseSource = (phrase: string): string =>
+  phrase.trim().split(/\s+/).map(escapeRegExp).join("\\s+");
+
+/**
+ * The regular expression a rule matches with. Throws if `pattern` is not
+ * a valid (Unicode) regular expression.
+ */
+export const toRegExp = (rule: TranscriptRule): RegExp => {
+  const flags = rule.caseSensitive ? "gu" : "giu";
+  if (rule.pattern !== undefined) {
+    return new RegExp(rule.pattern, flags);
+  }
+  // Longest first, so "follow up call" wins over "follow up"
+  const phrases = (rule.phrases ?? [])
+    .map(phraseSource)
+    .sort((a, b) => b.length - a.length);
+  return new RegExp(
+    `(?<!${WORD_CHAR})(?:${phrases.join("|")})(?!${WORD_CHAR})`,
+    flags
+  );
+};
+
+interface GroupScan {
+  // Contains a quantifier or alternation, so repeating it may backtrack
+  ambiguous: boolean;
+}
+
+// Quantifiers that match their atom at most once, and ones that repeat it
+const OPTIONAL = /^(?:\?|\{0?,?1\})/;
+const REPEAT = /^(?:[*+]|\{\d*,?\d*\})/;
+
+/**
+ * Why a rule pattern could take exponential time to match, or undefined
+ * when it is safe: patterns may not repeat a group that contains a
+ * quantifier or alternation (e.g. "(a+)+" or "(a|aa)*"), nor use
+ * backreferences. Assumes the pattern is otherwise valid.
+ */
+export const findUnsafePattern = (pattern: string): string | undefined => {
+  const groups: GroupScan[] = [{ ambiguous: false }];
+  let index = 0;
+
+  // Called after an atom; consumes and checks its quantifier
+  const quantify = (atom: GroupScan | undefined): string | undefined => {
+    const rest = pattern.slice(index);
+    const optional = OPTIONAL.exec(rest);
+    const repeat = optional ? null : REPEAT.exec(rest);
+    const quantifier = optional ?? repeat;
+    if (!quantifier) {
+      if (atom?.ambiguous) groups[groups.length - 1].ambiguous = true;
+      return undefined;
+    }
+    index += quantifier[0].length;
+    if (pattern[index] === "?") index++; // lazy
+    if (repeat && atom?.ambiguous) {
+      return `nested quantifier near "${pattern.slice(0, index)}"`;
+    }
+    groups[groups.length - 1].ambiguous = true;
+    return undefined;
+  };
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+    let problem: string | undefined;
+    if (char === "\\") {
+      const escaped = pattern[index + 1];
+      if (/[1-9k]/.test(escaped ?? "")) {
+        return "backreferences are not supported";
+      }
+      index += 2;
+      if (/[pPu]/.test(escaped) && pattern[index] === "{") {
+        index = pattern.indexOf("}", index) + 1;
+      }
+      problem = quantify(undefined);
+    } else if (char === "[") {
+      index++;
+      while (index < pattern.length && pattern[index] !== "]") {
+        index += pattern[index] === "\\" ? 2 : 1;
+      }
+      index++;
+      problem = quantify(undefined);
+    } else if (char === "(") {
+      index++;
+      if (pattern[index] === "?") {
+        // (?:, (?=, (?!, (?<=, (?<! or (?<name>
+        const named = /^\?<[^=!>][^>]*>/.exec(pattern.slice(index));
+        index += named ? named[0].length : pattern[index + 1] === "<" ? 3 : 2;
+      }
+      groups.push({ ambiguous: false });
+    } else if (char === ")") {
+      index++;
+      problem = quantify(groups.length > 1 ? groups.pop() : undefined);
+    } else if (char === "|") {
+      index++;
+      groups[groups.length - 1].ambiguous = true;
+    } else {
+      index++;
+      problem = quantify(undefined);
+    }
+    if (problem) return problem;
+  }
+  return undefined;
+};
+
+interface WordSpan {
+  from: number;
+  to: number;
+  start?: number;
+  end?: number;
+}
+
+const copyRule = (rule: TranscriptRule): TranscriptRule => ({
+  ...rule,
+  ...(rule.phrases ? { phrases: [...rule.phrases] } : {}),
+});
+
+class TranscriptRules {
+  private rules = new Map<string, { rule: TranscriptRule; regExp: RegExp }>();
+
+  get size(): number {
+    return this.rules.size;
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same id
+   */
+  set(rule: TranscriptRule): TranscriptRule {
+    this.rules.set(rule.id, { rule: copyRule(rule), regExp: toRegExp(rule) });
+    return copyRule(rule);
+  }
+
+  /**
+   * @returns whether a rule with that id existed
+   */
+  remove(ruleId: string): boolean {
+    return this.rules.delete(ruleId);
+  }
+
+  has(ruleId: string): boolean {
+    return this.rules.has(ruleId);
+  }
+
+  getAll(): TranscriptRule[] {
+    return Array.from(this.rules.values()).map(({ rule }) => copyRule(rule));
+  }
+
+  clear(): void {
+    this.rules.clear();
+  }
+
+  /**
+   * Match a transcript update against every rule for its window
+   * @returns one event per match, in rule then text order
+   */
+  match(update: TranscriptUpdatedEvent): TranscriptMatchEvent[] {
+    const { segment } = update;
+    if (!segment.final || this.rules.size === 0) {
+      return [];
+    }
+
+    // The segment text is its words joined by single spaces
+    let offset = 0;
+    const spans: WordSpan[] = segment.words.map((word) => {
+      const span = {
+        from: offset,
+        to: offset + word.text.length,
+        start: word.start,
+        end: word.end,
+      };
+      offset = span.to + 1;
+      return span;
+    });
+
+    const matchedAt = Date.now();
+    const matches: TranscriptMatchEvent[] = [];
+    for (const { rule, regExp } of this.rules.values()) {
+      if (rule.windowId !== undefined && rule.windowId !== update.windowId) {
+        continue;
+      }
+      for (const found of segment.text.matchAll(regExp)) {
+        if (!found[0]) continue;
+        const from = found.index ?? 0;
+        const to = from + found[0].length;
+        const first = Math.max(
+          0,
+          spans.findIndex((span) => span.to > from)
+        );
+        let last = first;
+        while (last + 1 < spans.length && spans[last + 1].from < to) {
+          last++;
+        }
+        const contextFrom = Math.max(0, first - CONTEXT_WORDS);
+        const contextTo = Math.min(spans.length - 1, last + CONTEXT_WORDS);
+
+        const match: TranscriptMatchEvent = {
+          ruleId: rule.id,
+          windowId: update.windowId,
+          window: { ...update.window },
+          speaker: segment.speaker,
+          segmentId: segment.id,
+          text: found[0],
+          context: segment.text.slice(
+            spans[contextFrom]?.from ?? 0,
+            spans[contextTo]?.to ?? segment.text.length
+          ),
+          matchedAt,
+        };
+        if (segment.participantId !== undefined) {
+          match.participantId = segment.participantId;
+        }
+        const start = spans[first]?.start;
+        const end = spans[last]?.end ?? spans[last]?.start;
+        if (start !== undefined) match.start = start;
+        if (end !== undefined) match.end = end;
+        matches.push(match);
+      }
+    }
+    return matches;
+  }
+}
+
+export const transcriptRules = new TranscriptRules();
@@ -0,0 +1,252 @@
+/**
+ * Recall Desktop SDK plugin upload token provider
+ *
+ * Fetches upload tokens from the host app's backend in the main process, so
+ * renderers can call startRecording(windowId) without one. Requests are
+ * retried with exponential backoff, and a small pool of tokens is prefetched
+ * so recording can start right after a meeting is detected.
+ */
+
+import { createLogger } from "./logger";
+import { RecallSdkError, UploadTokenRequestOptions } from "./shared";
+
+export interface UploadTokenProviderOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestTimeoutMs: number;
+  // Pooled tokens older than this are discarded rather than handed out
+  maxTokenAgeMs: number;
+}
+
+interface PooledToken {
+  token: string;
+  fetchedAt: number;
+}
+
+const log = createLogger("UploadTokenProvider");
+
+export const DEFAULT_UPLOAD_TOKEN_OPTIONS: UploadTokenProviderOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  requestTimeoutMs: 10000,
+  maxTokenAgeMs: 10 * 60 * 1000,
+};
+
+// Client errors other than timeouts and rate limits will not go away on retry
+const isRetryableStatus = (status: number): boolean =>
+  status >= 500 || status === 408 || status === 429;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+class UploadTokenRequestError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "UploadTokenRequestError";
+  }
+}
+
+export class UploadTokenProvider {
+  private url = "";
+  private poolSize = 1;
+  private request: UploadTokenRequestOptions = {};
+  private pool: PooledToken[] = [];
+  private refill: Promise<void> | null = null;
+  // Bumped when the endpoint or request changes so in-flight fetches are dropped
+  private generation = 0;
+
+  constructor(
+    private readonly fetchImpl: typeof fetch = (...args) => fetch(...args),
+    private readonly options: UploadTokenProviderOptions = DEFAULT_UPLOAD_TOKEN_OPTIONS
+  ) {}
+
+  /**
+   * Set the backend endpoint and pool size (from the plugin preferences)
+   */
+  configure(settings: { url?: string; poolSize?: number }): void {
+    if (settings.url !== undefined && settings.url !== this.url) {
+      this.url = settings.url;
+      this.reset();
+    }
+    if (settings.poolSize !== undefined) {
+      this.poolSize = settings.poolSize;
+      this.pool.splice(this.poolSize);
+    }
+  }
+
+  /**
+   * Set the headers and body the host app sends with every token request.
+   * Drops tokens fetched with the previous ones and prefetches new ones.
+   */
+  setRequest(request: UploadTokenRequestOptions): void {
+    this.request = {
+      headers: request.headers ? { ...request.headers } : undefined,
+      body: request.body,
+    };
+    this.reset();
+    this.prefetch();
+  }
+
+  isConfigured(): boolean {
+    return !!this.url;
+  }
+
+  getPoolSize(): number {
+    return this.dropStale().length;
+  }
+
+  /**
+   * Hand out a pooled token, or fetch one if the pool is empty
+   * @param recordingConfig Fetch a dedicated token with this recording_config
+   * in the request body instead of using the pool
+   */
+  async take(recordingConfig?: Record<string, unknown>): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new RecallSdkError(
+        "uploadToken is required when no upload token endpoint is configured",
+        "VALIDATION_ERROR"
+      );
+    }
+
+    if (recordingConfig) {
+      return this.fetchWithRetry(this.getBody(recordingConfig));
+    }
+    const pooled = this.dropStale().shift();
+    const token = pooled
+      ? pooled.token
+      : await this.fetchWithRetry(this.getBody());
+    this.prefetch();
+    return token;
+  }
+
+  /**
+   * Top the pool up in the background, e.g. when a meeting is detected
+   */
+  prefetch(): void {
+    if (!this.isConfigured() || this.refill) {
+      return;
+    }
+    if (this.dropStale().length >= this.poolSize) {
+      return;
+    }
+
+    const generation = this.generation;
+    const refill: Promise<void> = (async () => {
+      while (
+        generation === this.generation &&
+        this.pool.length < this.poolSize
+      ) {
+        const token = await this.fetchWithRetry(this.getBody());
+        if (generation !== this.generation) return;
+        this.pool.push({ token, fetchedAt: Date.now() });
+      }
+    })()
+      .catch((error) => log.warn("Failed to prefetch an upload token", error))
+      .finally(() => {
+        if (this.refill === refill) this.refill = null;
+      });
+    this.refill = refill;
+  }
+
+  /**
+   * Resolve once the current background refill, if any, has finished
+   */
+  async whenIdle(): Promise<void> {
+    await this.refill;
+  }
+
+  /**
+   * Drop every pooled token
+   */
+  reset(): void {
+    this.generation++;
+    this.pool = [];
+    this.refill = null;
+  }
+
+  /**
+   * Delay before the given retry (1-based): base, 2x base, 4x base, ...
+   */
+  getDelay(attempt: number): number {
+    return Math.min(
+      this.options.baseDelayMs * 2 ** (attempt - 1),
+      this.options.maxDelayMs
+    );
+  }
+
+  private dropStale(): PooledToken[] {
+    const cutoff = Date.now() - this.options.maxTokenAgeMs;
+    this.pool = this.pool.filter((pooled) => pooled.fetchedAt >= cutoff);
+    return this.pool;
+  }
+
+  private getBody(recordingConfig?: Record<string, unknown>): unknown {
+    const body = this.request.body ?? {};
+    if (!recordingConfig) {
+      return body;
+    }
+    return typeof body === "object" && !Array.isArray(body)
+      ? { ...body, recording_config: recordingConfig }
+      : { recording_config: recordingConfig };
+  }
+
+  private async fetchWithRetry(body: unknown): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.fetchToken(body);
+      } catch (error) {
+        const retryable =
+          !(error instanceof UploadTokenRequestError) || error.retryable;
+        const message = error instanceof Error ? error.message : String(error);
+        if (!retryable || attempt >= this.options.maxAttempts) {
+          throw new RecallSdkError(
+            "Failed to fetch an upload token",
+            "UPLOAD_TOKEN_UNAVAILABLE",
+            message
+          );
+        }
+        log.warn(
+          `Upload token request ${attempt}/${this.options.maxAttempts} failed`,
+          { error: message }
+        );
+        await sleep(this.getDelay(attempt));
+      }
+    }
+  }
+
+  private async fetchToken(body: unknown): Promise<string> {
+    const response = await this.fetchImpl(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.request.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.options.requestTimeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new UploadTokenRequestError(
+        `Token endpoint responded with ${response.status} ${response.statusText}`,
+        isRetryableStatus(response.status)
+      );
+    }
+
+    const payload = (await response.json()) as {
+      upload_token?: unknown;
+      uploadToken?: unknown;
+    };
+    const token = payload?.upload_token ?? payload?.uploadToken;
+    if (typeof token !== "string" || !token) {
+      throw new UploadTokenRequestError(
+        "Token endpoint response has no upload_token",
+        false
+      );
+    }
+    return token;
+  }
+}
+
+export const uploadTokenProvider = new UploadTokenProvider();
@@ -0,0 +1,758 @@
+/**
+ * Recall Desktop SDK plugin IPC payload validation and sender authorization
+ *
+ * Renderer input is untrusted: every handler runs its payload through one of
+ * the validators below before anything reaches the SDK or the store.
+ */
+
+import type { IpcMainInvokeEvent, WebFrameMain } from "electron";
+import {
+  AUTO_RECORD_ACTIONS,
+  AutoRecordAction,
+  AutoRecordConfig,
+  AutoRecordRule,
+  AutoStopConfig,
+  ExportTranscriptRequest,
+  ExportDiagnosticsOptions,
+  LOG_LEVELS,
+  LogFilter,
+  LogLevel,
+  PERMISSION_TYPES,
+  PLUGIN_EVENT_TYPES,
+  POWER_ACTIONS,
+  PermissionType,
+  PowerAction,
+  PrepareDesktopAudioRecordingConfig,
+  QuitResponse,
+  RECALL_SDK_EVENT_TYPES,
+  RecallSdkConfig,
+  RecallEventType,
+  RecallSdkError,
+  RecordingHistoryQuery,
+  RemoveTranscriptRuleRequest,
+  SenderPolicy,
+  StartRecordingRequest,
+  SubscribeOptions,
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+  TranscriptRule,
+  UploadTokenRequestOptions,
+} from "./shared";
+import { findUnsafePattern, toRegExp } from "./transcriptRules";
+
+const MAX_WINDOW_ID_LENGTH = 256;
+const MAX_UPLOAD_TOKEN_LENGTH = 4096;
+const MAX_UPLOAD_TOKEN_HEADERS = 32;
+const MAX_HEADER_VALUE_LENGTH = 8192;
+const MAX_UPLOAD_TOKEN_BODY_LENGTH = 64 * 1024;
+// RFC 7230 token characters
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const MAX_REPLAY = 1000;
+const MAX_LOG_ENTRIES = 1000;
+const MAX_HISTORY_ENTRIES = 1000;
+const MAX_PROCESS_NAME_LENGTH = 256;
+const MAX_AX_TREE_PROCESSES = 10;
+const MAX_AUTO_RECORD_RULES = 100;
+const MAX_QUIT_REQUEST_ID_LENGTH = 64;
+const MAX_RECORDING_DURATION_MINUTES = 24 * 60;
+const MAX_CAPTURE_LOSS_GRACE_SECONDS = 60 * 60;
+const MAX_TRANSCRIPT_RULE_ID_LENGTH = 128;
+const MAX_TRANSCRIPT_RULE_PHRASES = 50;
+const MAX_TRANSCRIPT_PHRASE_LENGTH = 200;
+const MAX_TRANSCRIPT_PATTERN_LENGTH = 500;
+
+const fail = (message: string): never => {
+  throw new RecallSdkError(message, "VALIDATION_ERROR");
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+const expectObject = (
+  value: unknown,
+  name: string
+): Record<string, unknown> => {
+  if (!isPlainObject(value)) {
+    return fail(`${name} must be an object`);
+  }
+  return value;
+};
+
+const expectNoExtraKeys = (
+  value: Record<string, unknown>,
+  allowed: readonly string[],
+  name: string
+): void => {
+  const extra = Object.keys(value).filter((key) => !allowed.includes(key));
+  if (extra.length > 0) {
+    fail(`${name} has unknown field(s): ${extra.join(", ")}`);
+  }
+};
+
+const expectString = (
+  value: unknown,
+  name: string,
+  maxLength: number
+): string => {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return fail(`${name} must be a non-empty string`);
+  }
+  if (value.length > maxLength) {
+    return fail(`${name} must be at most ${maxLength} characters`);
+  }
+  if (/[\u0000-\u001f\u007f]/.test(value)) {
+    return fail(`${name} must not contain control characters`);
+  }
+  return value;
+};
+
+const expectBoolean = (value: unknown, name: string): boolean => {
+  if (typeof value !== "boolean") {
+    return fail(`${name} must be a boolean`);
+  }
+  return value;
+};
+
+const expectLimit = (value: unknown, max: number): number => {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > max
+  ) {
+    return fail(`limit must be an integer between 1 and ${max}`);
+  }
+  return value;
+};
+
+export const validateWindowId = (value: unknown): string =>
+  expectString(value, "windowId", MAX_WINDOW_ID_LENGTH);
+
+export const validateStartRecordingRequest = (
+  value: unknown
+): StartRecordingRequest => {
+  const request = expectObject(value, "StartRecordingRequest");
+  expectNoExtraKeys(
+    request,
+    ["windowId", "uploadToken"],
+    "StartRecordingRequest"
+  );
+  const result: StartRecordingRequest = {
+    windowId: validateWindowId(request.windowId),
+  };
+  // Without a token, one is taken from the upload token provider
+  if (request.uploadToken !== undefined) {
+    result.uploadToken = expectString(
+      request.uploadToken,
+      "uploadToken",
+      MAX_UPLOAD_TOKEN_LENGTH
+    );
+  }
+  return result;
+};
+
+export const validateUploadTokenRequest = (
+  value: unknown
+): UploadTokenRequestOptions => {
+  const request = expectObject(value, "UploadTokenRequestOptions");
+  expectNoExtraKeys(request, ["headers", "body"], "UploadTokenRequestOptions");
+
+  const result: UploadTokenRequestOptions = {};
+  if (request.headers !== undefined) {
+    const headers = expectObject(request.headers, "headers");
+    const names = Object.keys(headers);
+    if (names.length > MAX_UPLOAD_TOKEN_HEADERS) {
+      fail(`headers must have at most ${MAX_UPLOAD_TOKEN_HEADERS} entries`);
+    }
+    result.headers = {};
+    for (const name of names) {
+      if (!HEADER_NAME_PATTERN.test(name)) {
+        fail(`headers has an invalid header name: ${name}`);
+      }
+      result.headers[name] = expectString(
+        headers[name],
+        `headers.${name}`,
+        MAX_HEADER_VALUE_LENGTH
+      );
+    }
+  }
+  if (request.body !== undefined) {
+    let serialized: string | undefined;
+    try {
+      serialized = JSON.stringify(request.body);
+    } catch {
+      serialized = undefined;
+    }
+    if (serialized === undefined) {
+      fail("body must be JSON-serializable");
+    } else if (serialized.length > MAX_UPLOAD_TOKEN_BODY_LENGTH) {
+      fail(`body must be at most ${MAX_UPLOAD_TOKEN_BODY_LENGTH} characters`);
+    }
+    result.body = request.body;
+  }
+  return result;
+};
+
+/**
+ * Validates the `{ windowId }` payload shared by stop, pause, resume,
+ * upload and get-recording requests
+ */
+export const validateWindowRequest = (
+  value: unknown,
+  name = "request"
+): { windowId: string } => {
+  const request = expectObject(value, name);
+  expectNoExtraKeys(request, ["windowId"], name);
+  return { windowId: validateWindowId(request.windowId) };
+};
+
+export const validateExportTranscriptRequest = (
+  value: unknown
+): ExportTranscriptRequest => {
+  const request = expectObject(value, "ExportTranscriptRequest");
+  expectNoExtraKeys(request, ["windowId", "format"], "ExportTranscriptRequest");
+  if (!TRANSCRIPT_FORMATS.includes(request.format as TranscriptFormat)) {
+    fail(`format must be one of: ${TRANSCRIPT_FORMATS.join(", ")}`);
+  }
+  return {
+    windowId: validateWindowId(request.windowId),
+    format: request.format as TranscriptFormat,
+  };
+};
+
+export const validatePermissionType = (value: unknown): PermissionType => {
+  if (!PERMISSION_TYPES.includes(value as PermissionType)) {
+    return fail(`permission must be one of: ${PERMISSION_TYPES.join(", ")}`);
+  }
+  return value as PermissionType;
+};
+
+const EVENT_TYPES: readonly RecallEventType[] = [
+  ...RECALL_SDK_EVENT_TYPES,
+  ...PLUGIN_EVENT_TYPES,
+];
+
+export const validateEventType = (value: unknown): RecallEventType => {
+  if (!EVENT_TYPES.includes(value as RecallEventType)) {
+    return fail(`Unknown event type: ${String(value)}`);
+  }
+  return value as RecallEventType;
+};
+
+export const validateSubscribeOptions = (
+  value: unknown
+): SubscribeOptions | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const options = expectObject(value, "SubscribeOptions");
+  expectNoExtraKeys(options, ["replay"], "SubscribeOptions");
+  const { replay } = options;
+  if (
+    replay !== undefined &&
+    typeof replay !== "boolean" &&
+    !(
+      typeof replay === "number" &&
+      Number.isInteger(replay) &&
+      replay >= 0 &&
+      replay <= MAX_REPLAY
+    )
+  ) {
+    fail(`replay must be a boolean or an integer between 0 and ${MAX_REPLAY}`);
+  }
+  return { replay: replay as SubscribeOptions["replay"] };
+};
+
+export const validateApiUrl = (value: unknown): string => {
+  const apiUrl = expectString(value, "apiUrl", 2048);
+  let url: URL;
+  try {
+    url = new URL(apiUrl);
+  } catch {
+    return fail("apiUrl must be a valid URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    fail("apiUrl must use http or https");
+  }
+  return apiUrl;
+};
+
+export const validateConfigUpdate = (
+  value: unknown
+): Partial<RecallSdkConfig> => {
+  const config = expectObject(value, "config");
+  expectNoExtraKeys(
+    config,
+    [
+      "enabled",
+      "apiUrl",
+      "requestPermissionsOnStartup",
+      "logLevel",
+      "autoRecord",
+      "suspendAction",
+      "lockAction",
+      "autoStop",
+    ],
+    "config"
+  );
+
+  const result: Partial<RecallSdkConfig> = {};
+  if (config.enabled !== undefined) {
+    result.enabled = expectBoolean(config.enabled, "enabled");
+  }
+  if (config.apiUrl !== undefined) {
+    result.apiUrl = validateApiUrl(config.apiUrl);
+  }
+  if (config.requestPermissionsOnStartup !== undefined) {
+    result.requestPermissionsOnStartup = expectBoolean(
+      config.requestPermissionsOnStartup,
+      "requestPermissionsOnStartup"
+    );
+  }
+  if (config.logLevel !== undefined) {
+    result.logLevel = validateLogLevel(config.logLevel);
+  }
+  if (config.autoRecord !== undefined) {
+    result.autoRecord = validateAutoRecordConfig(config.autoRecord);
+  }
+  if (config.suspendAction !== undefined) {
+    result.suspendAction = validatePowerAction(
+      config.suspendAction,
+      "suspendAction"
+    );
+  }
+  if (config.lockAction !== undefined) {
+    result.lockAction = validatePowerAction(config.lockAction, "lockAction");
+  }
+  if (config.autoStop !== undefined) {
+    result.autoStop = validateAutoStopConfig(config.autoStop);
+  }
+  return result;
+};
+
+const validatePowerAction = (value: unknown, name: string): PowerAction => {
+  if (!POWER_ACTIONS.includes(value as PowerAction)) {
+    return fail(`${name} must be one of: ${POWER_ACTIONS.join(", ")}`);
+  }
+  return value as PowerAction;
+};
+
+const validateAutoRecordAction = (
+  value: unknown,
+  name: string
+): AutoRecordAction => {
+  if (!AUTO_RECORD_ACTIONS.includes(value as AutoRecordAction)) {
+    return fail(`${name} must be one of: ${AUTO_RECORD_ACTIONS.join(", ")}`);
+  }
+  return value as AutoRecordAction;
+};
+
+const validateAutoRecordRule = (
+  value: unknown,
+  index: number
+): AutoRecordRule => {
+  const name = `autoRecord.rules[${index}]`;
+  const rule = expectObject(value, name);
+  expectNoExtraKeys(
+    rule,
+    [
+      "id",
+      "platforms",
+      "urlPattern",
+      "titlePattern",
+      "action",
+      "recordingConfig",
+    ],
+    name
+  );
+
+  const result: AutoRecordRule = {
+    action: validateAutoRecordAction(rule.action, `${name}.action`),
+  };
+  if (rule.id !== undefined) {
+    result.id = expectString(rule.id, `${name}.id`, 128);
+  }
+  if (rule.platforms !== undefined) {
+    if (!Array.isArray(rule.platforms) || rule.platforms.length === 0) {
+      fail(`${name}.platforms must be a non-empty array`);
+    }
+    result.platforms = (rule.platforms as unknown[]).map((platform) =>
+      expectString(platform, `${name}.platforms`, 64)
+    );
+  }
+  if (rule.urlPattern !== undefined) {
+    result.urlPattern = expectString(
+      rule.urlPattern,
+      `${name}.urlPattern`,
+      2048
+    );
+  }
+  if (rule.titlePattern !== undefined) {
+    result.titlePattern = expectString(
+      rule.titlePattern,
+      `${name}.titlePattern`,
+      512
+    );
+  }
+  if (rule.recordingConfig !== undefined) {
+    result.recordingConfig = expectObject(
+      rule.recordingConfig,
+      `${name}.recordingConfig`
+    );
+  }
+  return result;
+};
+
+export const validateAutoRecordConfig = (value: unknown): AutoRecordConfig => {
+  const config = expectObject(value, "autoRecord");
+  expectNoExtraKeys(
+    config,
+    ["enabled", "rules", "defaultAction"],
+    "autoRecord"
+  );
+
+  const result: AutoRecordConfig = {
+    enabled: false,
+    rules: [],
+    defaultAction: "ignore",
+  };
+  if (config.enabled !== undefined) {
+    result.enabled = expectBoolean(config.enabled, "autoRecord.enabled");
+  }
+  if (config.rules !== undefined) {
+    if (!Array.isArray(config.rules)) {
+      fail("autoRecord.rules must be an array");
+    }
+    const rules = config.rules as unknown[];
+    if (rules.length > MAX_AUTO_RECORD_RULES) {
+      fail(`autoRecord.rules must have at most ${MAX_AUTO_RECORD_RULES} rules`);
+    }
+    result.rules = rules.map(validateAutoRecordRule);
+  }
+  if (config.defaultAction !== undefined) {
+    result.defaultAction = validateAutoRecordAction(
+      config.defaultAction,
+      "autoRecord.defaultAction"
+    );
+  }
+  return result;
+};
+
+const expectWholeNumber = (
+  value: unknown,
+  name: string,
+  max: number
+): number => {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 0 ||
+    value > max
+  ) {
+    return fail(`${name} must be an integer between 0 and ${max}`);
+  }
+  return value;
+};
+
+export const validateAutoStopConfig = (value: unknown): AutoStopConfig => {
+  const config = expectObject(value, "autoStop");
+  expectNoExtraKeys(
+    config,
+    ["onMeetingClosed", "maxDurationMinutes", "captureLossGraceSeconds"],
+    "autoStop"
+  );
+
+  const result: AutoStopConfig = {
+    onMeetingClosed: true,
+    maxDurationMinutes: 0,
+    captureLossGraceSeconds: 0,
+  };
+  if (config.onMeetingClosed !== undefined) {
+    result.onMeetingClosed = expectBoolean(
+      config.onMeetingClosed,
+      "autoStop.onMeetingClosed"
+    );
+  }
+  if (config.maxDurationMinutes !== undefined) {
+    result.maxDurationMinutes = expectWholeNumber(
+      config.maxDurationMinutes,
+      "autoStop.maxDurationMinutes",
+      MAX_RECORDING_DURATION_MINUTES
+    );
+  }
+  if (config.captureLossGraceSeconds !== undefined) {
+    result.captureLossGraceSeconds = expectWholeNumber(
+      config.captureLossGraceSeconds,
+      "autoStop.captureLossGraceSeconds",
+      MAX_CAPTURE_LOSS_GRACE_SECONDS
+    );
+  }
+  return result;
+};
+
+export const validateLogLevel = (value: unknown): LogLevel => {
+  if (!LOG_LEVELS.includes(value as LogLevel)) {
+    return fail(`logLevel must be one of: ${LOG_LEVELS.join(", ")}`);
+  }
+  return value as LogLevel;
+};
+
+export const validateLogFilter = (value: unknown): LogFilter => {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  const filter = expectObject(value, "LogFilter");
+  expectNoExtraKeys(
+    filter,
+    ["level", "subsystem", "windowId", "limit"],
+    "LogFilter"
+  );
+
+  const result: LogFilter = {};
+  if (filter.level !== undefined) {
+    result.level = validateLogLevel(filter.level);
+  }
+  if (filter.subsystem !== undefined) {
+    result.subsystem = expectString(filter.subsystem, "subsystem", 256);
+  }
+  if (filter.windowId !== undefined) {
+    result.windowId = validateWindowId(filter.windowId);
+  }
+  if (filter.limit !== undefined) {
+    result.limit = expectLimit(filter.limit, MAX_LOG_ENTRIES);
+  }
+  return result;
+};
+
+export const validateHistoryQuery = (value: unknown): RecordingHistoryQuery => {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  const query = expectObject(value, "RecordingHistoryQuery");
+  expectNoExtraKeys(
+    query,
+    ["since", "platform", "limit"],
+    "RecordingHistoryQuery"
+  );
+
+  const result: RecordingHistoryQuery = {};
+  if (query.since !== undefined) {
+    const { since } = query;
+    if (typeof since !== "number" || !Number.isFinite(since) || since < 0) {
+      return fail(
+        "since must be a non-negative epoch timestamp in milliseconds"
+      );
+    }
+    result.since = since;
+  }
+  if (query.platform !== undefined) {
+    result.platform = expectString(query.platform, "platform", 64);
+  }
+  if (query.limit !== undefined) {
+    result.limit = expectLimit(query.limit, MAX_HISTORY_ENTRIES);
+  }
+  return result;
+};
+
+export const validateQuitResponse = (value: unknown): QuitResponse => {
+  const response = expectObject(value, "QuitResponse");
+  expectNoExtraKeys(response, ["requestId", "proceed"], "QuitResponse");
+  return {
+    requestId: expectString(
+      response.requestId,
+      "requestId",
+      MAX_QUIT_REQUEST_ID_LENGTH
+    ),
+    proceed: expectBoolean(response.proceed, "proceed"),
+  };
+};
+
+export const validateTranscriptRule = (value: unknown): TranscriptRule => {
+  const rule = expectObject(value, "TranscriptRule");
+  expectNoExtraKeys(
+    rule,
+    ["id", "phrases", "pattern", "caseSensitive", "windowId"],
+    "TranscriptRule"
+  );
+  if ((rule.phrases === undefined) === (rule.pattern === undefined)) {
+    fail("TranscriptRule must set exactly one of phrases or pattern");
+  }
+
+  const result: TranscriptRule = {
+    id: expectString(rule.id, "id", MAX_TRANSCRIPT_RULE_ID_LENGTH),
+  };
+  if (rule.phrases !== undefined) {
+    if (
+      !Array.isArray(rule.phrases) ||
+      rule.phrases.length === 0 ||
+      rule.phrases.length > MAX_TRANSCRIPT_RULE_PHRASES
+    ) {
+      fail(
+        `phrases must be an array of 1 to ${MAX_TRANSCRIPT_RULE_PHRASES} strings`
+      );
+    }
+    result.phrases = (rule.phrases as unknown[]).map((phrase) =>
+      expectString(phrase, "phrases", MAX_TRANSCRIPT_PHRASE_LENGTH).trim()
+    );
+  }
+  if (rule.pattern !== undefined) {
+    result.pattern = expectString(
+      rule.pattern,
+      "pattern",
+      MAX_TRANSCRIPT_PATTERN_LENGTH
+    );
+  }
+  if (rule.caseSensitive !== undefined) {
+    result.caseSensitive = expectBoolean(rule.caseSensitive, "caseSensitive");
+  }
+  if (rule.windowId !== undefined) {
+    result.windowId = validateWindowId(rule.windowId);
+  }
+
+  try {
+    toRegExp(result);
+  } catch (error) {
+    fail(
+      `pattern is not a valid regular expression: ${(error as Error).message}`
+    );
+  }
+  const unsafe =
+    result.pattern !== undefined
+      ? findUnsafePattern(result.pattern)
+      : undefined;
+  if (unsafe) {
+    fail(`pattern could take too long to match: ${unsafe}`);
+  }
+  return result;
+};
+
+export const validateRemoveTranscriptRuleRequest = (
+  value: unknown
+): RemoveTranscriptRuleRequest => {
+  const request = expectObject(value, "RemoveTranscriptRuleRequest");
+  expectNoExtraKeys(request, ["ruleId"], "RemoveTranscriptRuleRequest");
+  return {
+    ruleId: expectString(
+      request.ruleId,
+      "ruleId",
+      MAX_TRANSCRIPT_RULE_ID_LENGTH
+    ),
+  };
+};
+
+export const validateDiagnosticsOptions = (
+  value: unknown
+): ExportDiagnosticsOptions => {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  const options = expectObject(value, "ExportDiagnosticsOptions");
+  expectNoExtraKeys(
+    options,
+    ["save", "includeApplications", "includeAXTree"],
+    "ExportDiagnosticsOptions"
+  );
+
+  const result: ExportDiagnosticsOptions = {};
+  if (options.save !== undefined) {
+    result.save = expectBoolean(options.save, "save");
+  }
+  if (options.includeApplications !== undefined) {
+    result.includeApplications = expectBoolean(
+      options.includeApplications,
+      "includeApplications"
+    );
+  }
+  if (options.includeAXTree !== undefined) {
+    if (
+      !Array.isArray(options.includeAXTree) ||
+      options.includeAXTree.length > MAX_AX_TREE_PROCESSES
+    ) {
+      fail(
+        `includeAXTree must be an array of at most ${MAX_AX_TREE_PROCESSES} process names`
+      );
+    }
+    result.includeAXTree = (options.includeAXTree as unknown[]).map(
+      validateProcessName
+    );
+  }
+  return result;
+};
+
+export const validateProcessName = (value: unknown): string =>
+  expectString(value, "procName", MAX_PROCESS_NAME_LENGTH);
+
+export const validateDesktopAudioConfig = (
+  value: unknown
+): PrepareDesktopAudioRecordingConfig | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return expectObject(value, "PrepareDesktopAudioRecordingConfig");
+};
+
+const matchesOrigin = (origin: string, pattern: string): boolean => {
+  if (pattern === "*" || pattern === origin) {
+    return true;
+  }
+  if (!pattern.includes("*")) {
+    return false;
+  }
+  const regex = new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^/]*")}$`
+  );
+  return regex.test(origin);
+};
+
+const getFrameOrigin = (frame: WebFrameMain): string => {
+  if (frame.origin) {
+    return frame.origin;
+  }
+  try {
+    return new URL(frame.url).origin;
+  } catch {
+    return "null";
+  }
+};
+
+/**
+ * Throw unless the frame that sent an IPC message satisfies the policy
+ */
+export const authorizeSender = (
+  event: IpcMainInvokeEvent,
+  policy: SenderPolicy
+): void => {
+  const frame = event.senderFrame;
+  if (!frame) {
+    throw new RecallSdkError(
+      "Sender frame is no longer available",
+      "SENDER_NOT_ALLOWED"
+    );
+  }
+
+  if (policy.mainFrameOnly && frame !== event.sender.mainFrame) {
+    throw new RecallSdkError(
+      "Only the main frame may call the Recall plugin",
+      "SENDER_NOT_ALLOWED"
+    );
+  }
+
+  const allowedOrigins = policy.allowedOrigins ?? [];
+  if (allowedOrigins.length === 0) {
+    return;
+  }
+
+  const origin = getFrameOrigin(frame);
+  if (!allowedOrigins.some((pattern) => matchesOrigin(origin, pattern))) {
+    throw new RecallSdkError(
+      `Origin ${origin} may not call the Recall plugin`,
+      "SENDER_NOT_ALLOWED"
+    );
+  }
+};